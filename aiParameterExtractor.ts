@@ -1,10 +1,17 @@
 import OpenAI from 'openai';
-import { OPENAI_API_KEY } from './config';
-
-export interface ExtractedParameter {
-  value: string | null;
+import { BULK_CONFIG, OPENAI_API_KEY, WORKSPACE_CONFIG } from './config';
+import { ProjectRegistry } from './projectRegistry';
+import { IssueData } from './types';
+import { IssueTemplate, VALID_ISSUE_TYPES, VALID_PRIORITIES } from './workspaceConfig';
+import { TemplateExtraction } from './issueTemplates';
+import { detectStackTrace, StackTrace, stackTraceToMarkdown, summarizeStackTrace } from './stackTrace';
+
+export interface ExtractedParameter<T = string> {
+  value: T | null;
   confidence: number;
-  source: 'ai_extracted' | 'user_confirmed' | 'follow_up_question' | 'default';
+  source: 'ai_extracted' | 'user_confirmed' | 'follow_up_question' | 'default' | 'rule';
+  // Name of the workspace rule that set the value, when source is 'rule'
+  rule?: string;
 }
 
 export interface ExtractedParameters {
@@ -13,21 +20,41 @@ export interface ExtractedParameters {
   project: ExtractedParameter;
   priority: ExtractedParameter;
   description: ExtractedParameter;
+  // Optional fields; never asked for in follow-up questions
+  labels: ExtractedParameter<string[]>;
+  components: ExtractedParameter<string[]>;
+  assignee: ExtractedParameter;
+  reporter: ExtractedParameter;
+  fixVersions: ExtractedParameter<string[]>;
+  dueDate: ExtractedParameter;
+  storyPoints: ExtractedParameter<number>;
+  customFields: ExtractedParameter<{ [fieldName: string]: string }>;
+}
+
+// A proposed epic and its child issues, validated like any other extraction
+export interface EpicBreakdown {
+  epic: ExtractedParameters;
+  children: Array<{ parameters: ExtractedParameters; acceptanceCriteria: string[] }>;
 }
 
 export class AIParameterExtractor {
   private openai: OpenAI;
+  private projectRegistry: ProjectRegistry;
 
-  constructor() {
+  constructor(projectRegistry: ProjectRegistry = new ProjectRegistry()) {
     this.openai = new OpenAI({ apiKey: OPENAI_API_KEY });
+    this.projectRegistry = projectRegistry;
   }
 
   async extractParameters(userInput: string): Promise<ExtractedParameters> {
+    // A pasted stack trace is summarized so the AI reads the prose around it, not the frames
+    const { input: traceFreeInput, trace } = this.preprocessStackTrace(userInput);
+
     try {
       console.log('🤖 Analyzing user input with AI...');
       
       // Pre-process input to help AI better identify project location
-      const preprocessedInput = this.preprocessProjectMentions(userInput);
+      const preprocessedInput = this.preprocessProjectMentions(traceFreeInput);
       
       const extractionPrompt = this.buildExtractionPrompt(preprocessedInput);
       
@@ -43,7 +70,7 @@ export class AIParameterExtractor {
             content: extractionPrompt
           }
         ],
-        max_tokens: 800,
+        max_tokens: 1000,
         temperature: 0.1, // Low temperature for consistent extraction
       });
 
@@ -57,7 +84,7 @@ export class AIParameterExtractor {
       const extracted = this.parseAIResponse(response);
       
       // Apply defaults for missing parameters
-      const extractedWithDefaults = this.applyDefaults(extracted);
+      const extractedWithDefaults = this.applyDefaults(trace ? this.applyStackTrace(extracted, trace) : extracted);
       
       this.logExtractionResults(extractedWithDefaults);
       
@@ -65,78 +92,387 @@ export class AIParameterExtractor {
 
     } catch (error) {
       console.error('❌ AI extraction failed:', error);
-      return this.createDefaultExtraction();
+      // The trace alone still gives a title and description
+      return trace ? this.applyDefaults(this.applyStackTrace(this.createEmptyExtraction(), trace)) : this.createDefaultExtraction();
+    }
+  }
+
+  // Extract one set of parameters per item (retro action items, list lines), in the same order.
+  // Items are sent in chunks; a chunk that fails falls back to using each item's text as its title.
+  async extractBatch(items: string[]): Promise<ExtractedParameters[]> {
+    const results: ExtractedParameters[] = [];
+
+    for (let start = 0; start < items.length; start += BULK_CONFIG.EXTRACTION_BATCH_SIZE) {
+      const chunk = items.slice(start, start + BULK_CONFIG.EXTRACTION_BATCH_SIZE);
+      console.log(`🤖 Extracting items ${start + 1}-${start + chunk.length} of ${items.length}...`);
+
+      let parsedItems: any[] = [];
+      try {
+        const completion = await this.openai.chat.completions.create({
+          model: 'gpt-4o-mini',
+          messages: [
+            {
+              role: 'system',
+              content: 'You turn lists of action items into structured Jira issue fields. Always respond with valid JSON only.'
+            },
+            {
+              role: 'user',
+              content: this.buildBatchExtractionPrompt(chunk.map(item => this.preprocessProjectMentions(item)))
+            }
+          ],
+          max_tokens: 300 * chunk.length,
+          temperature: 0.1,
+        });
+
+        const response = completion.choices[0]?.message?.content || '';
+        const jsonMatch = response.replace(/```json\n?/g, '').replace(/```\n?/g, '').match(/\{[\s\S]*\}/);
+        const parsed = jsonMatch ? JSON.parse(jsonMatch[0]) : {};
+        parsedItems = Array.isArray(parsed.items) ? parsed.items : [];
+      } catch (error) {
+        console.error('❌ Batch extraction failed, using item text as titles:', error);
+      }
+
+      chunk.forEach((item, index) => {
+        const extracted = parsedItems[index] ? this.toExtractedParameters(parsedItems[index]) : this.createEmptyExtraction();
+        if (!extracted.title.value) {
+          extracted.title = { value: item.length > 120 ? `${item.substring(0, 117)}...` : item, confidence: 1.0, source: 'ai_extracted' };
+        }
+        results.push(this.validateExtractedParameters(this.applyDefaults(extracted)));
+      });
+    }
+
+    return results;
+  }
+
+  // Same validation and defaults as extraction, for fields that are already known (CSV columns)
+  extractFromFields(fields: Partial<IssueData>): ExtractedParameters {
+    const known = (value: any) => ({ value: value === undefined ? null : value, confidence: value === undefined ? 0 : 1.0 });
+    const extracted = this.toExtractedParameters({
+      title: known(fields.title),
+      type: known(fields.issueType),
+      project: known(fields.project),
+      priority: known(fields.priority),
+      description: known(fields.description),
+      labels: known(fields.labels),
+      components: known(fields.components),
+      assignee: known(fields.assignee),
+      reporter: known(fields.reporter),
+      fixVersions: known(fields.fixVersions),
+      dueDate: known(fields.dueDate),
+      storyPoints: known(fields.storyPoints),
+      customFields: known(fields.customFields)
+    });
+    return this.validateExtractedParameters(this.applyDefaults(extracted));
+  }
+
+  // Split a request into a template's sections; null when the AI call fails so callers can fall back
+  // to TemplateRegistry.parseSections
+  async extractTemplateSections(userInput: string, template: IssueTemplate): Promise<TemplateExtraction | null> {
+    try {
+      console.log(`📑 Filling "${template.name}" template sections with AI...`);
+
+      const completion = await this.openai.chat.completions.create({
+        model: 'gpt-4o-mini',
+        messages: [
+          {
+            role: 'system',
+            content: 'You split Jira issue requests into the sections of a description template. Always respond with valid JSON only.'
+          },
+          {
+            role: 'user',
+            content: this.buildTemplateSectionsPrompt(userInput, template)
+          }
+        ],
+        max_tokens: 800,
+        temperature: 0.1,
+      });
+
+      const response = completion.choices[0]?.message?.content || '';
+      const jsonMatch = response.replace(/```json\n?/g, '').replace(/```\n?/g, '').match(/\{[\s\S]*\}/);
+      const parsed = jsonMatch ? JSON.parse(jsonMatch[0]) : null;
+      if (!parsed || typeof parsed !== 'object') {
+        return null;
+      }
+
+      const sections: { [sectionId: string]: string } = {};
+      for (const section of template.sections) {
+        const value = parsed.sections?.[section.id];
+        if (Array.isArray(value)) {
+          sections[section.id] = value.filter(item => typeof item === 'string').join('\n');
+        } else if (typeof value === 'string' && value.trim()) {
+          sections[section.id] = value.trim();
+        }
+      }
+
+      return { summary: typeof parsed.summary === 'string' && parsed.summary.trim() ? parsed.summary.trim() : null, sections };
+
+    } catch (error) {
+      console.error('❌ Template section extraction failed:', error);
+      return null;
+    }
+  }
+
+  private buildTemplateSectionsPrompt(userInput: string, template: IssueTemplate): string {
+    const sectionLines = template.sections.map(section => {
+      const list = section.style === 'numbered' || section.style === 'bulleted';
+      return `- "${section.id}": ${section.heading}${list ? ' (a list of strings, one per item)' : ''}`;
+    });
+
+    return `Split this Jira issue request into the sections of the "${template.name}" template.
+
+Request: "${userInput}"
+
+Sections:
+${sectionLines.join('\n')}
+
+Rules:
+- Only use what the request says; use null for any section it doesn't cover. DO NOT invent steps, results or criteria.
+- "summary": one or two sentences of context that don't belong in any section (not the request wording itself, e.g. drop "create a bug"), or null
+- Keep the user's wording where possible
+
+RESPOND WITH VALID JSON ONLY:
+{
+  "summary": "...",
+  "sections": { ${template.sections.map(section => `"${section.id}": null`).join(', ')} }
+}`;
+  }
+
+  // Propose an epic plus child stories/tasks for a feature description; null when the AI gives nothing usable.
+  // Children always go in the epic's project.
+  async proposeEpicBreakdown(featureRequest: string): Promise<EpicBreakdown | null> {
+    try {
+      console.log('🧩 Drafting an epic breakdown with AI...');
+
+      const completion = await this.openai.chat.completions.create({
+        model: 'gpt-4o-mini',
+        messages: [
+          {
+            role: 'system',
+            content: 'You are an experienced product owner who breaks features into well-scoped Jira epics and stories. Always respond with valid JSON only.'
+          },
+          {
+            role: 'user',
+            content: this.buildEpicBreakdownPrompt(this.preprocessProjectMentions(featureRequest))
+          }
+        ],
+        max_tokens: 2500,
+        temperature: 0.4,
+      });
+
+      const response = completion.choices[0]?.message?.content || '';
+      const jsonMatch = response.replace(/```json\n?/g, '').replace(/```\n?/g, '').match(/\{[\s\S]*\}/);
+      const parsed = jsonMatch ? JSON.parse(jsonMatch[0]) : null;
+      if (!parsed || !parsed.epic || typeof parsed.epic.title !== 'string' || !parsed.epic.title.trim()) {
+        console.error('❌ Epic breakdown response had no epic:', response);
+        return null;
+      }
+
+      const epic = this.extractFromFields({
+        title: parsed.epic.title.trim(),
+        description: typeof parsed.epic.description === 'string' ? parsed.epic.description : undefined,
+        project: typeof parsed.epic.project === 'string' ? parsed.epic.project : undefined,
+        priority: typeof parsed.epic.priority === 'string' ? parsed.epic.priority : undefined,
+        issueType: 'Epic'
+      });
+
+      const children = (Array.isArray(parsed.children) ? parsed.children : [])
+        .filter((child: any) => child && typeof child.title === 'string' && child.title.trim())
+        .map((child: any) => {
+          // Epics can't nest and sub-tasks need a story, so anything else becomes a Story
+          const type = ['Story', 'Task', 'Bug'].includes(child.type) ? child.type : 'Story';
+          const points = typeof child.storyPoints === 'number' ? child.storyPoints : undefined;
+          return {
+            parameters: this.extractFromFields({
+              title: child.title.trim(),
+              description: typeof child.description === 'string' ? child.description : undefined,
+              issueType: type,
+              project: epic.project.value || undefined,
+              storyPoints: points
+            }),
+            acceptanceCriteria: Array.isArray(child.acceptanceCriteria)
+              ? child.acceptanceCriteria.filter((criterion: any) => typeof criterion === 'string' && criterion.trim()).map((criterion: string) => criterion.trim())
+              : []
+          };
+        });
+
+      return { epic, children };
+
+    } catch (error) {
+      console.error('❌ Epic breakdown failed:', error);
+      return null;
+    }
+  }
+
+  private buildEpicBreakdownPrompt(featureRequest: string): string {
+    return `Break the feature below into one Jira epic and the child issues needed to deliver it.
+
+Feature request: "${featureRequest}"
+
+Guidelines:
+- epic.title: a short name for the feature (under 60 characters), without the word "epic"
+- epic.description: 2-4 sentences on the goal and scope
+- epic.project: only if the request names one ("[PROJECT:name]" markers are already resolved); otherwise null
+- epic.priority: one of Lowest, Low, Medium, High, Highest, only if stated; otherwise null
+- children: 3-8 independently deliverable items, in a sensible build order
+- each child's type is Story for user-facing behaviour or Task for technical work
+- each child's title is under 80 characters; user stories may use "As a ..., I can ..." style
+- each child has 2-5 acceptanceCriteria: short, testable statements
+- storyPoints: a Fibonacci estimate (1, 2, 3, 5, 8, 13), or null if you can't tell
+${this.describeProjectsForPrompt()}
+
+RESPOND WITH VALID JSON ONLY:
+{
+  "epic": { "title": "Single sign-on", "description": "...", "project": null, "priority": null },
+  "children": [
+    {
+      "title": "As a user, I can sign in with my company Google account",
+      "type": "Story",
+      "description": "...",
+      "acceptanceCriteria": ["Sign-in page shows a Google button", "Users outside the company domain are rejected"],
+      "storyPoints": 5
+    }
+  ]
+}`;
+  }
+
+  private buildBatchExtractionPrompt(items: string[]): string {
+    const today = new Date();
+    const weekday = today.toLocaleDateString('en-US', { weekday: 'long' });
+
+    return `Turn each numbered action item below into one Jira issue.
+
+${items.map((item, index) => `${index + 1}. ${item}`).join('\n')}
+
+Today is ${weekday}, ${this.formatDate(today)}.
+
+For every item, in the same order:
+- title: a concise summary (under 80 characters), rephrased as an action where it helps
+- description: extra detail from the item, or null
+- type: exactly one of Bug, Task, Story, Epic, Subtask; null if unclear
+- priority: exactly one of Lowest, Low, Medium, High, Highest; only if stated or clearly urgent
+- project: only if the item names one ("[PROJECT:name]" markers are already resolved)
+- labels, components, fixVersions: lists; assignee, reporter: a name or email ("@sam", "owner: Priya")
+- dueDate: YYYY-MM-DD, resolving relative dates against today; storyPoints: a number
+${this.describeProjectsForPrompt()}
+
+RESPOND WITH VALID JSON ONLY, one entry per item, each field as { "value": ..., "confidence": 0.0-1.0 }:
+{
+  "items": [
+    {
+      "title": { "value": "Add retry to payment webhook", "confidence": 0.9 },
+      "type": { "value": "Task", "confidence": 0.8 },
+      "priority": { "value": null, "confidence": 0 },
+      "project": { "value": null, "confidence": 0 },
+      "description": { "value": null, "confidence": 0 },
+      "assignee": { "value": "Sam", "confidence": 0.9 }
     }
+  ]
+}
+
+DO NOT invent information. Use null for anything not present in the item.`;
   }
 
   // NEW: Preprocess input to highlight project mentions for better AI extraction
   private preprocessProjectMentions(userInput: string): string {
-    let processed = userInput;
-    
-    // Add explicit markers around project mentions to help AI identify them
-    const projectPatterns = [
-      { pattern: /\bin\s+(fv\s+demo\s+product)\b/gi, replacement: 'in [PROJECT:FV Demo Product]' },
-      { pattern: /\bin\s+(demo\s+product)\b/gi, replacement: 'in [PROJECT:FV Demo Product]' },
-      { pattern: /\bin\s+(fv\s+product)\b/gi, replacement: 'in [PROJECT:FV Product]' },
-      { pattern: /\bin\s+(fv\s+engineering)\b/gi, replacement: 'in [PROJECT:FV Engineering]' },
-      { pattern: /\bin\s+(engineering)\b/gi, replacement: 'in [PROJECT:FV Engineering]' },
-      { pattern: /\bin\s+(fv\s+demo\s+issues)\b/gi, replacement: 'in [PROJECT:FV Demo Issues]' },
-      { pattern: /\bin\s+(demo\s+issues)\b/gi, replacement: 'in [PROJECT:FV Demo Issues]' },
-      { pattern: /\bin\s+(demo)\b/gi, replacement: 'in [PROJECT:FV Demo Issues]' },
-      
-      // Handle "for" and "to" patterns as well
-      { pattern: /\bfor\s+(fv\s+demo\s+product)\b/gi, replacement: 'for [PROJECT:FV Demo Product]' },
-      { pattern: /\bfor\s+(demo\s+product)\b/gi, replacement: 'for [PROJECT:FV Demo Product]' },
-      { pattern: /\bfor\s+(fv\s+product)\b/gi, replacement: 'for [PROJECT:FV Product]' },
-      { pattern: /\bfor\s+(fv\s+engineering)\b/gi, replacement: 'for [PROJECT:FV Engineering]' },
-      { pattern: /\bfor\s+(engineering)\b/gi, replacement: 'for [PROJECT:FV Engineering]' },
-      
-      { pattern: /\bto\s+(fv\s+demo\s+product)\b/gi, replacement: 'to [PROJECT:FV Demo Product]' },
-      { pattern: /\bto\s+(demo\s+product)\b/gi, replacement: 'to [PROJECT:FV Demo Product]' },
-      { pattern: /\bto\s+(fv\s+product)\b/gi, replacement: 'to [PROJECT:FV Product]' },
-      { pattern: /\bto\s+(fv\s+engineering)\b/gi, replacement: 'to [PROJECT:FV Engineering]' },
-      { pattern: /\bto\s+(engineering)\b/gi, replacement: 'to [PROJECT:FV Engineering]' }
-    ];
-    
-    for (const { pattern, replacement } of projectPatterns) {
-      if (pattern.test(processed)) {
-        processed = processed.replace(pattern, replacement);
-        console.log(`🔍 Preprocessed: "${userInput}" → "${processed}"`);
-        break; // Only apply the first match to avoid conflicts
+    // Look at the words following each location keyword and mark the first known project
+    const locationPattern = /\b(in|for|to)(\s+(?:the\s+)?)((?:[\w()-]+\s*){1,5})/gi;
+    let match: RegExpExecArray | null;
+
+    while ((match = locationPattern.exec(userInput)) !== null) {
+      const words = match[3].trim().split(/\s+/);
+
+      // Prefer the longest run of words that names a project ("fv demo product" over "fv demo")
+      for (let length = words.length; length > 0; length--) {
+        const phrase = words.slice(0, length).join(' ');
+        const project = this.projectRegistry.resolve(phrase);
+        if (project) {
+          // The words as typed, which may be split by several spaces or a line break
+          const start = match.index + match[1].length + match[2].length;
+          const typed = userInput.slice(start).match(new RegExp(`^${words.slice(0, length).map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('\\s+')}`))!;
+          const processed = `${userInput.slice(0, match.index)}${match[1]} [PROJECT:${project.name}]${userInput.slice(start + typed[0].length)}`;
+          console.log(`🔍 Preprocessed: "${userInput}" → "${processed}"`);
+          return processed; // Only apply the first match to avoid conflicts
+        }
       }
     }
     
-    return processed;
+    return userInput;
+  }
+
+  // NEW: Replace a pasted stack trace with a one-line marker; applyStackTrace puts the trace itself in the description
+  private preprocessStackTrace(userInput: string): { input: string; trace: StackTrace | null } {
+    const trace = detectStackTrace(userInput);
+    if (!trace) {
+      return { input: userInput, trace: null };
+    }
+
+    const summary = summarizeStackTrace(trace);
+    console.log(`🧵 Found a ${trace.language} stack trace: ${summary}`);
+    return { input: `${trace.context}\n[STACK TRACE: ${summary}]`.trim(), trace };
+  }
+
+  // The trace summary is the title unless the user named one, the type defaults to Bug,
+  // and the description ends with the error details and the full trace as a code block
+  private applyStackTrace(extracted: ExtractedParameters, trace: StackTrace): ExtractedParameters {
+    const result = { ...extracted };
+
+    if (!result.title.value || result.title.confidence < 0.8) {
+      result.title = { value: summarizeStackTrace(trace), confidence: 1.0, source: 'ai_extracted' };
+    }
+
+    if (!result.type.value || result.type.confidence < 0.6) {
+      result.type = { value: 'Bug', confidence: 0.9, source: 'ai_extracted' };
+    }
+
+    const lead = result.description.value && result.description.confidence >= 0.6 ? result.description.value : null;
+    result.description = {
+      value: [lead, stackTraceToMarkdown(trace)].filter(Boolean).join('\n\n'),
+      confidence: 1.0,
+      source: 'ai_extracted'
+    };
+
+    return result;
   }
 
   private buildExtractionPrompt(userInput: string): string {
+    const today = new Date();
+    const weekday = today.toLocaleDateString('en-US', { weekday: 'long' });
+
     return `Analyze this user request for creating a Jira issue and extract parameters:
 
 "${userInput}"
 
+Today is ${weekday}, ${this.formatDate(today)}.
+
 Extract these parameters ONLY if they are clearly and explicitly mentioned:
 
 TITLE: The issue title/summary (exact text in quotes, or clear subject)
-TYPE: Must be exactly one of: Bug, Task, Story, Epic (case-sensitive)
+TYPE: Must be exactly one of: Bug, Task, Story, Epic, Subtask (case-sensitive)
 PROJECT: Project name ONLY if mentioned with "in", "for", "to" keywords. Look for these exact patterns:
 - "in [project name]" or "in the [project name]" 
 - "for [project name]" or "for the [project name]"
 - "to [project name]" or "to the [project name]"
-Valid project names: "FV Demo Product", "FV Demo Issues", "FV Engineering", "FV Product", "demo product", "demo issues", "engineering", "product"
-PRIORITY: Must be exactly one of: Lowest, Low, Medium, High, Highest (case-sensitive)  
-DESCRIPTION: Detailed explanation, steps to reproduce, or additional context (usually after "description is" or "whose description is")
-
-CRITICAL: When extracting PROJECT, pay close attention to the exact phrase after "in", "for", or "to":
-- "in fv demo product" → "FV Demo Product" 
-- "in fv product" → "FV Product"
-- "in fv demo issues" → "FV Demo Issues" 
-- "in fv engineering" → "FV Engineering"
-- "in engineering" → "FV Engineering"
-- "in demo product" → "FV Demo Product"
-- "in demo issues" → "FV Demo Issues"
+- "[PROJECT:name]" markers are already-resolved project names; use them verbatim
+${this.describeProjectsForPrompt()}
+
+CRITICAL: When extracting PROJECT, pay close attention to the exact phrase after "in", "for", or "to" and return the matching full project name from the list above.
 
 DO NOT extract project from description text or other parts of the sentence. Only from location indicators.
 
+Optional fields (extract only when stated; never move them into the title or description):
+LABELS: list of labels ("label backend", "tag it frontend and ui")
+COMPONENTS: list of component names ("component API", "in the auth component")
+ASSIGNEE: name or email of the person to assign ("assign to Priya", "give it to sam@example.com")
+REPORTER: name or email of the reporter ("reported by Sam", "reporter Alex")
+FIX_VERSIONS: list of release or version names ("fix version 2.4", "target release 3.1")
+DUE_DATE: date in YYYY-MM-DD; resolve relative dates against today ("due Friday" = the next Friday on or after today, "due tomorrow", "due in 2 weeks")
+STORY_POINTS: number ("3 points", "estimate 5 SP")
+CUSTOM_FIELDS: any other Jira field set explicitly by name, as an object of field name → value ("set Severity to S2" → {"Severity": "S2"})
+
+Parent and link phrases ("under epic ENG-5", "sub-task of DPI-3", "blocks ENG-12", "duplicates DPI-9") are handled separately: leave them out of every field, including the title.
+
+A "[STACK TRACE: ...]" marker stands for a pasted stack trace that is added to the description separately. Don't copy it into the description; describe only the text around it, and use null for the title unless the request names the problem in its own words.
+
 Confidence scoring (0.0-1.0):
 - 1.0: Explicitly stated with clear keywords
 - 0.8: Strongly implied with high certainty
@@ -149,20 +485,56 @@ RESPOND WITH VALID JSON ONLY:
 {
   "title": { "value": "extracted title" | null, "confidence": 0.9 },
   "type": { "value": "Bug" | null, "confidence": 0.8 },
-  "project": { "value": "FV Demo Product" | null, "confidence": 0.7 },
+  "project": { "value": "project name" | null, "confidence": 0.7 },
   "priority": { "value": "High" | null, "confidence": 0.6 },
-  "description": { "value": "extracted description" | null, "confidence": 0.5 }
+  "description": { "value": "extracted description" | null, "confidence": 0.5 },
+  "labels": { "value": ["backend"] | null, "confidence": 0.9 },
+  "components": { "value": ["API"] | null, "confidence": 0.9 },
+  "assignee": { "value": "Priya" | null, "confidence": 0.9 },
+  "reporter": { "value": "Sam" | null, "confidence": 0.9 },
+  "fixVersions": { "value": ["2.4"] | null, "confidence": 0.9 },
+  "dueDate": { "value": "2025-01-31" | null, "confidence": 0.9 },
+  "storyPoints": { "value": 3 | null, "confidence": 0.9 },
+  "customFields": { "value": { "Severity": "S2" } | null, "confidence": 0.9 }
 }
 
 Examples:
 - "Create a bug called 'Login broken'" → title: "Login broken", type: "Bug"
 - "High priority task for demo project" → type: "Task", priority: "High", project: null
-- "Make an issue in FV Engineering about API timeout" → title: "API timeout", project: "FV Engineering"
-- "Create issue in fv demo product called test" → title: "test", project: "FV Demo Product"
+- "Make an issue in [project] about API timeout" → title: "API timeout", project: "[project]"
+- "Create issue in [project] called test" → title: "test", project: "[project]"
+- "Bug 'Checkout fails', assign to Priya, label backend, due Friday" → title: "Checkout fails", assignee: "Priya", labels: ["backend"], dueDate: the coming Friday
 
 DO NOT invent information. Only extract what is clearly present. Use null for missing parameters.`;
   }
 
+  private describeProjectsForPrompt(): string {
+    const projects = this.projectRegistry.getProjects();
+    if (projects.length === 0) {
+      return 'Valid project names: any Jira project name or key the user mentions';
+    }
+
+    const lines = projects.map(project => {
+      const aliases = this.projectRegistry.getAliases(project)
+        .filter(alias => alias !== project.name.toLowerCase())
+        .slice(0, 4);
+      return `- "${project.name}" (key ${project.key})${aliases.length ? `, also called: ${aliases.map(a => `"${a}"`).join(', ')}` : ''}`;
+    });
+    return `Valid project names:\n${lines.join('\n')}`;
+  }
+
+  // Configured default project if it exists in this workspace, otherwise the first known project.
+  // Empty when neither is known, so the creation flow asks for one.
+  private getDefaultProject(): string {
+    const configuredProject = WORKSPACE_CONFIG.defaults.project;
+    const configured = configuredProject ? this.projectRegistry.resolve(configuredProject) : null;
+    if (configured) {
+      return configured.name;
+    }
+    const projects = this.projectRegistry.getProjects();
+    return projects.length > 0 ? projects[0].name : configuredProject || '';
+  }
+
   private parseAIResponse(response: string): ExtractedParameters {
     try {
       // Clean the response to ensure valid JSON
@@ -180,13 +552,7 @@ DO NOT invent information. Only extract what is clearly present. Use null for mi
       const parsed = JSON.parse(cleanResponse);
       
       // Validate and normalize the structure
-      return {
-        title: this.normalizeParameter(parsed.title),
-        type: this.normalizeParameter(parsed.type),
-        project: this.normalizeParameter(parsed.project),
-        priority: this.normalizeParameter(parsed.priority),
-        description: this.normalizeParameter(parsed.description)
-      };
+      return this.toExtractedParameters(parsed);
 
     } catch (error) {
       console.error('❌ Failed to parse AI response:', error);
@@ -195,6 +561,24 @@ DO NOT invent information. Only extract what is clearly present. Use null for mi
     }
   }
 
+  private toExtractedParameters(parsed: any): ExtractedParameters {
+    return {
+      title: this.normalizeParameter(parsed.title),
+      type: this.normalizeParameter(parsed.type),
+      project: this.normalizeParameter(parsed.project),
+      priority: this.normalizeParameter(parsed.priority),
+      description: this.normalizeParameter(parsed.description),
+      labels: this.normalizeListParameter(parsed.labels),
+      components: this.normalizeListParameter(parsed.components),
+      assignee: this.normalizeParameter(parsed.assignee),
+      reporter: this.normalizeParameter(parsed.reporter),
+      fixVersions: this.normalizeListParameter(parsed.fixVersions),
+      dueDate: this.normalizeParameter(parsed.dueDate),
+      storyPoints: this.normalizeNumberParameter(parsed.storyPoints),
+      customFields: this.normalizeFieldsParameter(parsed.customFields)
+    };
+  }
+
   private normalizeParameter(param: any): ExtractedParameter {
     if (!param || typeof param !== 'object') {
       return { value: null, confidence: 0, source: 'ai_extracted' };
@@ -207,23 +591,86 @@ DO NOT invent information. Only extract what is clearly present. Use null for mi
     };
   }
 
+  // Accepts ["a", "b"] or "a, b"
+  private normalizeListParameter(param: any): ExtractedParameter<string[]> {
+    if (!param || typeof param !== 'object') {
+      return { value: null, confidence: 0, source: 'ai_extracted' };
+    }
+
+    const raw = Array.isArray(param.value) ? param.value : typeof param.value === 'string' ? param.value.split(',') : [];
+    const items = raw.map((item: any) => String(item).trim()).filter((item: string) => item.length > 0);
+
+    return {
+      value: items.length > 0 ? items : null,
+      confidence: Math.max(0, Math.min(1, param.confidence || 0)),
+      source: 'ai_extracted'
+    };
+  }
+
+  private normalizeNumberParameter(param: any): ExtractedParameter<number> {
+    if (!param || typeof param !== 'object') {
+      return { value: null, confidence: 0, source: 'ai_extracted' };
+    }
+
+    const value = typeof param.value === 'number' ? param.value : parseFloat(param.value);
+    return {
+      value: isFinite(value) ? value : null,
+      confidence: Math.max(0, Math.min(1, param.confidence || 0)),
+      source: 'ai_extracted'
+    };
+  }
+
+  private normalizeFieldsParameter(param: any): ExtractedParameter<{ [fieldName: string]: string }> {
+    if (!param || typeof param !== 'object' || !param.value || typeof param.value !== 'object' || Array.isArray(param.value)) {
+      return { value: null, confidence: 0, source: 'ai_extracted' };
+    }
+
+    const fields: { [fieldName: string]: string } = {};
+    for (const [name, value] of Object.entries(param.value)) {
+      if (name.trim() && value !== null && value !== undefined && String(value).trim()) {
+        fields[name.trim()] = String(value).trim();
+      }
+    }
+
+    return {
+      value: Object.keys(fields).length > 0 ? fields : null,
+      confidence: Math.max(0, Math.min(1, param.confidence || 0)),
+      source: 'ai_extracted'
+    };
+  }
+
+  private createEmptyOptionalFields() {
+    return {
+      labels: { value: null, confidence: 0, source: 'ai_extracted' as const },
+      components: { value: null, confidence: 0, source: 'ai_extracted' as const },
+      assignee: { value: null, confidence: 0, source: 'ai_extracted' as const },
+      reporter: { value: null, confidence: 0, source: 'ai_extracted' as const },
+      fixVersions: { value: null, confidence: 0, source: 'ai_extracted' as const },
+      dueDate: { value: null, confidence: 0, source: 'ai_extracted' as const },
+      storyPoints: { value: null, confidence: 0, source: 'ai_extracted' as const },
+      customFields: { value: null, confidence: 0, source: 'ai_extracted' as const }
+    };
+  }
+
   private createEmptyExtraction(): ExtractedParameters {
     return {
       title: { value: null, confidence: 0, source: 'ai_extracted' },
       type: { value: null, confidence: 0, source: 'ai_extracted' },
       project: { value: null, confidence: 0, source: 'ai_extracted' },
       priority: { value: null, confidence: 0, source: 'ai_extracted' },
-      description: { value: null, confidence: 0, source: 'ai_extracted' }
+      description: { value: null, confidence: 0, source: 'ai_extracted' },
+      ...this.createEmptyOptionalFields()
     };
   }
 
   private createDefaultExtraction(): ExtractedParameters {
     return {
       title: { value: null, confidence: 0, source: 'ai_extracted' },
-      type: { value: 'Bug', confidence: 1.0, source: 'default' },
-      project: { value: 'FV Demo (Issues)', confidence: 1.0, source: 'default' },
-      priority: { value: 'Medium', confidence: 1.0, source: 'default' },
-      description: { value: null, confidence: 0, source: 'ai_extracted' }
+      type: { value: WORKSPACE_CONFIG.defaults.issueType, confidence: 1.0, source: 'default' },
+      project: { value: this.getDefaultProject(), confidence: 1.0, source: 'default' },
+      priority: { value: WORKSPACE_CONFIG.defaults.priority, confidence: 1.0, source: 'default' },
+      description: { value: null, confidence: 0, source: 'ai_extracted' },
+      ...this.createEmptyOptionalFields()
     };
   }
 
@@ -233,18 +680,21 @@ DO NOT invent information. Only extract what is clearly present. Use null for mi
 
     // Apply defaults for type, project, and priority if not extracted with high confidence
     if (!result.type.value || result.type.confidence < 0.6) {
-      result.type = { value: 'Bug', confidence: 1.0, source: 'default' };
-      console.log('🔧 Applied default type: Bug');
+      result.type = { value: WORKSPACE_CONFIG.defaults.issueType, confidence: 1.0, source: 'default' };
+      console.log(`🔧 Applied default type: ${WORKSPACE_CONFIG.defaults.issueType}`);
     }
 
     if (!result.project.value || result.project.confidence < 0.6) {
-      result.project = { value: 'FV Demo (Issues)', confidence: 1.0, source: 'default' };
-      console.log('🔧 Applied default project: FV Demo (Issues)');
+      const defaultProject = this.getDefaultProject();
+      result.project = { value: defaultProject, confidence: 1.0, source: 'default' };
+      if (defaultProject) {
+        console.log(`🔧 Applied default project: ${defaultProject}`);
+      }
     }
 
     if (!result.priority.value || result.priority.confidence < 0.6) {
-      result.priority = { value: 'Medium', confidence: 1.0, source: 'default' };
-      console.log('🔧 Applied default priority: Medium');
+      result.priority = { value: WORKSPACE_CONFIG.defaults.priority, confidence: 1.0, source: 'default' };
+      console.log(`🔧 Applied default priority: ${WORKSPACE_CONFIG.defaults.priority}`);
     }
 
     return result;
@@ -253,8 +703,10 @@ DO NOT invent information. Only extract what is clearly present. Use null for mi
   private logExtractionResults(extracted: ExtractedParameters): void {
     console.log('🎯 AI Extraction Results:');
     
-    Object.entries(extracted).forEach(([key, param]) => {
-      if (param.value) {
+    const requiredFields = ['title', 'type', 'project', 'priority', 'description'];
+
+    Object.entries(extracted).forEach(([key, param]: [string, ExtractedParameter<any>]) => {
+      if (param.value !== null && param.value !== '') {
         let icon = '❌';
         if (param.source === 'default') {
           icon = '🔧'; // Default value
@@ -267,8 +719,9 @@ DO NOT invent information. Only extract what is clearly present. Use null for mi
         }
         
         const sourceLabel = param.source === 'default' ? ' (default)' : ` (${(param.confidence * 100).toFixed(0)}%)`;
-        console.log(`   ${icon} ${key}: "${param.value}"${sourceLabel}`);
-      } else {
+        const display = typeof param.value === 'string' ? `"${param.value}"` : JSON.stringify(param.value);
+        console.log(`   ${icon} ${key}: ${display}${sourceLabel}`);
+      } else if (requiredFields.includes(key)) {
         console.log(`   ❌ ${key}: not detected`);
       }
     });
@@ -299,85 +752,72 @@ DO NOT invent information. Only extract what is clearly present. Use null for mi
 
     // Validate issue type
     if (validated.type.value) {
-      const validTypes = ['Bug', 'Task', 'Story', 'Epic'];
-      if (!validTypes.includes(validated.type.value)) {
-        console.log(`⚠️  Invalid type "${validated.type.value}", using default: Bug`);
-        validated.type = { value: 'Bug', confidence: 1.0, source: 'default' };
+      if (!VALID_ISSUE_TYPES.includes(validated.type.value)) {
+        console.log(`⚠️  Invalid type "${validated.type.value}", using default: ${WORKSPACE_CONFIG.defaults.issueType}`);
+        validated.type = { value: WORKSPACE_CONFIG.defaults.issueType, confidence: 1.0, source: 'default' };
       }
     }
 
     // Validate priority
     if (validated.priority.value) {
-      const validPriorities = ['Lowest', 'Low', 'Medium', 'High', 'Highest'];
-      if (!validPriorities.includes(validated.priority.value)) {
-        console.log(`⚠️  Invalid priority "${validated.priority.value}", using default: Medium`);
-        validated.priority = { value: 'Medium', confidence: 1.0, source: 'default' };
+      if (!VALID_PRIORITIES.includes(validated.priority.value)) {
+        console.log(`⚠️  Invalid priority "${validated.priority.value}", using default: ${WORKSPACE_CONFIG.defaults.priority}`);
+        validated.priority = { value: WORKSPACE_CONFIG.defaults.priority, confidence: 1.0, source: 'default' };
       }
     }
 
-    // Validate project with enhanced precision mapping
+    // Validate project against the registry's names, keys and aliases
     if (validated.project.value) {
-      const normalizedProject = validated.project.value.toLowerCase().trim();
-      
-      // Precise project mapping with exact matching
-      const projectMapping: { [key: string]: string } = {
-        // FV Demo Product variations
-        'fv demo product': 'FV Demo (Product)',
-        'demo product': 'FV Demo (Product)',
-        'fv demo (product)': 'FV Demo (Product)',
-        'dpd': 'FV Demo (Product)',
-        
-        // FV Demo Issues variations  
-        'fv demo issues': 'FV Demo (Issues)',
-        'demo issues': 'FV Demo (Issues)',
-        'fv demo (issues)': 'FV Demo (Issues)',
-        'demo': 'FV Demo (Issues)',
-        'fvdemo': 'FV Demo (Issues)',
-        'dpi': 'FV Demo (Issues)',
-        'issues': 'FV Demo (Issues)',
-        
-        // FV Engineering variations
-        'fv engineering': 'FV Engineering',
-        'engineering': 'FV Engineering',
-        'eng': 'FV Engineering',
-        
-        // FV Product variations (distinct from demo product)
-        'fv product': 'FV Product',
-        'prod': 'FV Product'
-      };
-
-      // Check for exact matches first
-      if (projectMapping[normalizedProject]) {
-        const mappedProject = projectMapping[normalizedProject];
-        console.log(`📂 Mapped project "${normalizedProject}" → "${mappedProject}"`);
-        validated.project.value = mappedProject;
+      const project = this.projectRegistry.resolve(validated.project.value);
+
+      if (project) {
+        console.log(`📂 Mapped project "${validated.project.value}" → "${project.name}"`);
+        validated.project = { ...validated.project, value: project.name };
+      } else if (!this.projectRegistry.isLoaded()) {
+        // Nothing to validate against; ZapierService will check it at creation time
+        console.log(`📂 Keeping project "${validated.project.value}" (project list not loaded)`);
       } else {
-        // If no exact match, check if it's already a valid full project name
-        const validFullNames = ['FV Demo (Product)', 'FV Demo (Issues)', 'FV Engineering', 'FV Product'];
-        const matchingFullName = validFullNames.find(name => 
-          name.toLowerCase() === normalizedProject || 
-          normalizedProject === name
-        );
-        
-        if (matchingFullName) {
-          console.log(`📂 Validated full project name: "${matchingFullName}"`);
-          validated.project.value = matchingFullName;
-        } else {
-          // Handle special cases for partial matches that might be ambiguous
-          if (normalizedProject === 'product' || normalizedProject === 'fv') {
-            console.log(`⚠️  Ambiguous project "${normalizedProject}", using default: FV Demo (Issues)`);
-            validated.project = { value: 'FV Demo (Issues)', confidence: 1.0, source: 'default' };
-          } else {
-            console.log(`⚠️  Unknown project "${normalizedProject}", using default: FV Demo (Issues)`);
-            validated.project = { value: 'FV Demo (Issues)', confidence: 1.0, source: 'default' };
-          }
-        }
+        const defaultProject = this.getDefaultProject();
+        const candidates = this.projectRegistry.findCandidates(validated.project.value);
+        const reason = candidates.length > 1 ? 'Ambiguous' : 'Unknown';
+        console.log(`⚠️  ${reason} project "${validated.project.value}", using default: ${defaultProject}`);
+        validated.project = { value: defaultProject, confidence: 1.0, source: 'default' };
       }
     }
 
+    // Jira labels cannot contain spaces
+    if (validated.labels.value) {
+      validated.labels = { ...validated.labels, value: validated.labels.value.map(label => label.replace(/\s+/g, '-')) };
+    }
+
+    if (validated.dueDate.value && !this.isValidDate(validated.dueDate.value)) {
+      console.log(`⚠️  Ignoring due date "${validated.dueDate.value}" (expected YYYY-MM-DD)`);
+      validated.dueDate = { value: null, confidence: 0, source: 'ai_extracted' };
+    }
+
+    if (validated.storyPoints.value !== null && validated.storyPoints.value < 0) {
+      console.log(`⚠️  Ignoring negative story points: ${validated.storyPoints.value}`);
+      validated.storyPoints = { value: null, confidence: 0, source: 'ai_extracted' };
+    }
+
     return validated;
   }
 
+  private isValidDate(value: string): boolean {
+    const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (!match) {
+      return false;
+    }
+    const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+    return date.getFullYear() === Number(match[1]) && date.getMonth() === Number(match[2]) - 1 && date.getDate() === Number(match[3]);
+  }
+
+  // Local calendar date as YYYY-MM-DD
+  private formatDate(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+
   // Build a context phrase for follow-up questions
   buildContextPhrase(extracted: ExtractedParameters): string {
     const parts: string[] = [];
@@ -0,0 +1,173 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { TextDecoder } from 'util';
+import { IssueAttachment } from './types';
+import { ATTACHMENT_CONFIG } from './config';
+
+// Extensions treated as text without looking inside the file, with their code block language
+const TEXT_EXTENSIONS: { [extension: string]: string | undefined } = {
+  '.log': undefined,
+  '.txt': undefined,
+  '.out': undefined,
+  '.csv': undefined,
+  '.md': undefined,
+  '.json': 'json',
+  '.yaml': 'yaml',
+  '.yml': 'yaml',
+  '.xml': 'xml',
+  '.html': 'html',
+  '.css': 'css',
+  '.sql': 'sql',
+  '.sh': 'bash',
+  '.js': 'javascript',
+  '.ts': 'typescript',
+  '.py': 'python',
+  '.java': 'java',
+  '.go': 'go',
+  '.rb': 'ruby',
+  '.diff': 'diff',
+  '.patch': 'diff'
+};
+
+// Never inlined, however small: a PDF or PNG without a zero byte would otherwise pass the content check
+const BINARY_EXTENSIONS = [
+  '.png', '.jpg', '.jpeg', '.gif', '.webp', '.bmp', '.ico', '.tif', '.tiff', '.heic',
+  '.pdf', '.doc', '.docx', '.xls', '.xlsx', '.ppt', '.pptx', '.odt', '.ods',
+  '.zip', '.gz', '.tgz', '.tar', '.bz2', '.xz', '.7z', '.rar', '.jar',
+  '.mp3', '.mp4', '.mov', '.wav', '.webm', '.exe', '.dll', '.so', '.dylib', '.bin', '.class', '.wasm'
+];
+
+const CONTENT_TYPES: { [extension: string]: string } = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.pdf': 'application/pdf',
+  '.zip': 'application/zip',
+  '.gz': 'application/gzip',
+  '.json': 'application/json',
+  '.xml': 'application/xml',
+  '.html': 'text/html',
+  '.csv': 'text/csv'
+};
+
+export function resolveAttachmentPath(filePath: string): string {
+  return path.resolve(filePath.replace(/^~(?=\/)/, process.env.HOME || '~'));
+}
+
+// A file name whose extension this module knows, text or binary ("error.log", "shot.png"; not "v1.2")
+export function hasKnownFileExtension(name: string): boolean {
+  const extension = path.extname(name).toLowerCase();
+  return extension in TEXT_EXTENSIONS || extension in CONTENT_TYPES || BINARY_EXTENSIONS.includes(extension);
+}
+
+// Checks each referenced file: missing, unreadable or oversized files become problems
+// ("./missing.log: file not found"), the rest are inlined or queued for upload.
+export function inspectAttachments(paths: string[]): { attachments: IssueAttachment[]; problems: string[] } {
+  const attachments: IssueAttachment[] = [];
+  const problems: string[] = [];
+
+  for (const filePath of paths) {
+    const resolvedPath = resolveAttachmentPath(filePath);
+    let stats: fs.Stats;
+    try {
+      stats = fs.statSync(resolvedPath);
+    } catch {
+      problems.push(`${filePath}: file not found`);
+      continue;
+    }
+
+    if (!stats.isFile()) {
+      problems.push(`${filePath}: not a file`);
+      continue;
+    }
+    if (stats.size === 0) {
+      problems.push(`${filePath}: file is empty`);
+      continue;
+    }
+    if (stats.size > ATTACHMENT_CONFIG.MAX_UPLOAD_BYTES) {
+      problems.push(`${filePath}: ${formatBytes(stats.size)} is over the ${formatBytes(ATTACHMENT_CONFIG.MAX_UPLOAD_BYTES)} upload limit`);
+      continue;
+    }
+    if (attachments.some(attachment => attachment.resolvedPath === resolvedPath)) {
+      continue;
+    }
+
+    const extension = path.extname(resolvedPath).toLowerCase();
+    const attachment: IssueAttachment = {
+      path: filePath,
+      resolvedPath,
+      name: path.basename(resolvedPath),
+      size: stats.size,
+      mode: 'upload'
+    };
+
+    if (stats.size <= ATTACHMENT_CONFIG.INLINE_MAX_BYTES) {
+      try {
+        const buffer = fs.readFileSync(resolvedPath);
+        if (extension in TEXT_EXTENSIONS || (!BINARY_EXTENSIONS.includes(extension) && isUtf8Text(buffer))) {
+          attachment.mode = 'inline';
+          attachment.content = buffer.toString('utf8').replace(/\s+$/, '');
+          attachment.language = TEXT_EXTENSIONS[extension];
+        }
+      } catch (error) {
+        problems.push(`${filePath}: ${error instanceof Error ? error.message : 'could not be read'}`);
+        continue;
+      }
+    }
+
+    attachments.push(attachment);
+  }
+
+  return { attachments, problems };
+}
+
+// No NUL bytes and valid UTF-8; a binary file of another type almost never passes both
+function isUtf8Text(buffer: Buffer): boolean {
+  if (buffer.includes(0)) {
+    return false;
+  }
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Inline attachments as Markdown code blocks, each under the file name
+export function attachmentsToMarkdown(attachments: IssueAttachment[] = []): string | undefined {
+  const blocks = attachments
+    .filter(attachment => attachment.mode === 'inline' && attachment.content)
+    .map(attachment => {
+      const fence = attachment.content!.includes('```') ? '~~~' : '```';
+      return `**${attachment.name}**\n\n${fence}${attachment.language || ''}\n${attachment.content}\n${fence}`;
+    });
+  return blocks.length > 0 ? blocks.join('\n\n') : undefined;
+}
+
+// Summary lines for confirmations: "error.log (2.1 KB) · inline in description"
+export function describeAttachments(attachments: IssueAttachment[] = []): string[] {
+  return attachments.map(attachment =>
+    `${attachment.name} (${formatBytes(attachment.size)}) · ${attachment.mode === 'inline' ? 'inline in description' : 'uploaded as attachment'}`
+  );
+}
+
+export function contentTypeFor(name: string): string {
+  const extension = path.extname(name).toLowerCase();
+  if (CONTENT_TYPES[extension]) {
+    return CONTENT_TYPES[extension];
+  }
+  return extension in TEXT_EXTENSIONS ? 'text/plain' : 'application/octet-stream';
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
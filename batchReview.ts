@@ -0,0 +1,191 @@
+import { EditableField, IssueData } from './types';
+import { ProjectRegistry } from './projectRegistry';
+import { VALID_ISSUE_TYPES, VALID_PRIORITIES } from './workspaceConfig';
+
+export interface ReviewCommandResult {
+  // False when the input isn't an edit/drop command
+  handled: boolean;
+  message?: string;
+}
+
+// Field names accepted by "edit N <field> <value>"
+const FIELD_NAMES: { [name: string]: EditableField } = {
+  'title': 'title',
+  'summary': 'title',
+  'description': 'description',
+  'desc': 'description',
+  'type': 'issueType',
+  'priority': 'priority',
+  'project': 'project',
+  'labels': 'labels',
+  'label': 'labels',
+  'components': 'components',
+  'component': 'components',
+  'assignee': 'assignee',
+  'reporter': 'reporter',
+  'due': 'dueDate',
+  'duedate': 'dueDate',
+  'points': 'storyPoints',
+  'storypoints': 'storyPoints',
+  'parent': 'parent',
+  'fixversion': 'fixVersions',
+  'fixversions': 'fixVersions',
+  'criteria': 'acceptanceCriteria',
+  'ac': 'acceptanceCriteria'
+};
+
+// Review-table editing shared by bulk creation and the epic planner:
+//   edit 3 priority High · edit 2-4 type Task · edit all project ENG · drop 2 · drop 2,5
+export class BatchReview {
+  constructor(private projectRegistry: ProjectRegistry = new ProjectRegistry()) {}
+
+  apply(items: IssueData[], input: string, options: { fixedRows?: number[] } = {}): ReviewCommandResult {
+    const trimmed = input.trim();
+
+    const drop = trimmed.match(/^(?:drop|remove|delete)\s+(.+)$/i);
+    if (drop) {
+      const rows = this.parseRows(drop[1], items.length);
+      if (!rows) {
+        return { handled: true, message: `I couldn't read "${drop[1]}" as row numbers (1-${items.length}).` };
+      }
+      const fixed = rows.filter(row => (options.fixedRows || []).includes(row));
+      if (fixed.length > 0) {
+        return { handled: true, message: `Row ${fixed.join(', ')} can't be dropped.` };
+      }
+      // Remove from the end so earlier indexes stay valid
+      [...rows].sort((a, b) => b - a).forEach(row => items.splice(row - 1, 1));
+      return { handled: true, message: `Dropped ${rows.length === 1 ? `row ${rows[0]}` : `rows ${rows.join(', ')}`}.` };
+    }
+
+    const edit = trimmed.match(/^(?:edit|set|change)\s+(all|[\d,\s-]+?)\s+(due\s*date|story\s*points|fix\s*versions?|[a-z]+)\s*(?:to\s+|=\s*|:\s*)?(.+)$/i);
+    if (edit) {
+      const rows = edit[1].toLowerCase() === 'all'
+        ? items.map((_, index) => index + 1)
+        : this.parseRows(edit[1], items.length);
+      if (!rows) {
+        return { handled: true, message: `I couldn't read "${edit[1]}" as row numbers (1-${items.length}).` };
+      }
+
+      const field = FIELD_NAMES[edit[2].toLowerCase().replace(/\s+/g, '')];
+      if (!field) {
+        return { handled: true, message: `I don't know the field "${edit[2]}". Try: ${Object.keys(FIELD_NAMES).slice(0, 12).join(', ')}.` };
+      }
+
+      const change = this.parseValue(field, edit[3].trim().replace(/^["']|["']$/g, ''));
+      if ('error' in change) {
+        return { handled: true, message: change.error };
+      }
+
+      for (const row of rows) {
+        Object.assign(items[row - 1], change);
+        // A new name needs resolving again
+        if (field === 'assignee') items[row - 1].assigneeId = undefined;
+        if (field === 'reporter') items[row - 1].reporterId = undefined;
+      }
+      return { handled: true, message: `Updated ${field} on ${rows.length === items.length ? 'all rows' : `row ${rows.join(', ')}`}.` };
+    }
+
+    return { handled: false };
+  }
+
+  formatTable(items: IssueData[]): string[] {
+    const columns = [
+      { header: '#', width: 3, value: (_: IssueData, index: number) => String(index + 1) },
+      { header: 'Type', width: 8, value: (item: IssueData) => item.issueType || '' },
+      { header: 'Priority', width: 8, value: (item: IssueData) => item.priority || '' },
+      { header: 'Project', width: 18, value: (item: IssueData) => item.project || '' },
+      { header: 'Title', width: 48, value: (item: IssueData) => item.title || '(no title)' },
+      { header: 'Extras', width: 30, value: (item: IssueData) => this.describeExtras(item) }
+    ];
+
+    const fit = (text: string, width: number) =>
+      text.length > width ? `${text.substring(0, width - 1)}…` : text + ' '.repeat(width - text.length);
+
+    const lines = [
+      columns.map(column => fit(column.header, column.width)).join(' │ '),
+      columns.map(column => '─'.repeat(column.width)).join('─┼─')
+    ];
+    items.forEach((item, index) => {
+      lines.push(columns.map(column => fit(column.value(item, index), column.width)).join(' │ '));
+    });
+    return lines;
+  }
+
+  private describeExtras(item: IssueData): string {
+    const extras: string[] = [];
+    if (item.assignee) extras.push(`@${item.assignee}`);
+    if (item.labels && item.labels.length > 0) extras.push(item.labels.map(label => `#${label}`).join(' '));
+    if (item.dueDate) extras.push(`due ${item.dueDate}`);
+    if (item.storyPoints !== undefined) extras.push(`${item.storyPoints}pt`);
+    if (item.parent) extras.push(`↑${item.parent}`);
+    if (item.acceptanceCriteria && item.acceptanceCriteria.length > 0) extras.push(`${item.acceptanceCriteria.length} AC`);
+    return extras.join(' ');
+  }
+
+  // "3", "2,5", "2-4", "1, 3-5"; null when any part is out of range
+  private parseRows(spec: string, count: number): number[] | null {
+    const rows = new Set<number>();
+    for (const part of spec.split(/[,\s]+/).filter(Boolean)) {
+      const range = part.match(/^(\d+)(?:-(\d+))?$/);
+      if (!range) {
+        return null;
+      }
+      const start = parseInt(range[1], 10);
+      const end = range[2] ? parseInt(range[2], 10) : start;
+      if (start < 1 || end > count || start > end) {
+        return null;
+      }
+      for (let row = start; row <= end; row++) {
+        rows.add(row);
+      }
+    }
+    return rows.size > 0 ? [...rows].sort((a, b) => a - b) : null;
+  }
+
+  // The change to apply to each row, or why the value doesn't fit the field
+  private parseValue(field: EditableField, raw: string): Partial<IssueData> | { error: string } {
+    const matchCase = (value: string, valid: string[]) =>
+      valid.find(candidate => candidate.toLowerCase() === value.toLowerCase().replace(/[\s-]/g, ''));
+
+    switch (field) {
+      case 'issueType': {
+        const type = matchCase(raw, VALID_ISSUE_TYPES);
+        return type ? { issueType: type } : { error: `Type must be one of: ${VALID_ISSUE_TYPES.join(', ')}` };
+      }
+      case 'priority': {
+        const priority = matchCase(raw, VALID_PRIORITIES);
+        return priority ? { priority } : { error: `Priority must be one of: ${VALID_PRIORITIES.join(', ')}` };
+      }
+      case 'project': {
+        const project = this.projectRegistry.resolve(raw);
+        if (project) {
+          return { project: project.name };
+        }
+        return this.projectRegistry.isLoaded() ? { error: `I don't know the project "${raw}".` } : { project: raw };
+      }
+      case 'labels':
+        return { labels: raw.split(/[,\s]+/).filter(Boolean) };
+      case 'acceptanceCriteria':
+        return { acceptanceCriteria: raw.split(';').map(item => item.trim()).filter(Boolean) };
+      case 'components':
+      case 'fixVersions': {
+        const change: Partial<IssueData> = {};
+        change[field] = raw.split(',').map(item => item.trim()).filter(Boolean);
+        return change;
+      }
+      case 'storyPoints': {
+        const points = parseFloat(raw);
+        return isFinite(points) && points >= 0 ? { storyPoints: points } : { error: 'Story points must be a number.' };
+      }
+      case 'dueDate':
+        return /^\d{4}-\d{2}-\d{2}$/.test(raw) ? { dueDate: raw } : { error: 'Due dates must be written as YYYY-MM-DD.' };
+      case 'parent':
+        return /^[A-Z][A-Z0-9]*-\d+$/i.test(raw) ? { parent: raw.toUpperCase() } : { error: 'Parent must be an issue key like ENG-5.' };
+      default: {
+        const change: Partial<IssueData> = {};
+        change[field] = raw;
+        return change;
+      }
+    }
+  }
+}
@@ -0,0 +1,168 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { EditableField, IssueData } from './types';
+import { isListField } from './issueFields';
+
+// One row of a bulk import: free text for the AI, plus any fields given in CSV/table columns
+export interface BulkSourceItem {
+  text: string;
+  fields: Partial<IssueData>;
+}
+
+// Column headers (lowercased, spaces removed) → IssueData fields
+const COLUMN_FIELDS: { [header: string]: EditableField } = {
+  'title': 'title',
+  'summary': 'title',
+  'description': 'description',
+  'details': 'description',
+  'type': 'issueType',
+  'issuetype': 'issueType',
+  'priority': 'priority',
+  'project': 'project',
+  'labels': 'labels',
+  'label': 'labels',
+  'components': 'components',
+  'component': 'components',
+  'assignee': 'assignee',
+  'owner': 'assignee',
+  'reporter': 'reporter',
+  'fixversions': 'fixVersions',
+  'fixversion': 'fixVersions',
+  'duedate': 'dueDate',
+  'due': 'dueDate',
+  'storypoints': 'storyPoints',
+  'points': 'storyPoints',
+  'parent': 'parent',
+  'epic': 'parent'
+};
+
+export function loadBulkItemsFromFile(filePath: string): BulkSourceItem[] {
+  const resolvedPath = path.resolve(filePath.replace(/^~(?=\/)/, process.env.HOME || '~'));
+  if (!fs.existsSync(resolvedPath)) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+
+  const text = fs.readFileSync(resolvedPath, 'utf8');
+  const extension = path.extname(resolvedPath).toLowerCase();
+
+  if (extension === '.csv') {
+    return rowsToItems(parseCsv(text));
+  }
+
+  const tableRows = parseMarkdownTable(text);
+  return tableRows.length > 0 ? rowsToItems(tableRows) : parseListItems(text).map(item => ({ text: item, fields: {} }));
+}
+
+// Bulleted, numbered or checkbox lists; plain lines count as items when there are no bullets
+export function parseListItems(text: string): string[] {
+  const bulletPattern = /^\s*(?:[-*+•]|\d+[.)])\s+(?:\[[ xX]?\]\s+)?(.*)$/;
+  const lines = text.split(/\r?\n/).filter(line => line.trim() && !/^\s*#/.test(line));
+  const hasBullets = lines.some(line => bulletPattern.test(line));
+
+  const items: string[] = [];
+  for (const line of lines) {
+    const bullet = line.match(bulletPattern);
+    if (bullet) {
+      items.push(bullet[1].trim());
+    } else if (!hasBullets) {
+      items.push(line.trim());
+    } else if (items.length > 0) {
+      // Indented continuation of the previous bullet
+      items[items.length - 1] += ` ${line.trim()}`;
+    }
+  }
+
+  return items.filter(item => item.length > 0);
+}
+
+// Minimal RFC 4180 parser: quoted fields, escaped quotes and newlines inside quotes
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+// | Title | Type | rows; the separator row (|---|---|) is dropped
+export function parseMarkdownTable(text: string): string[][] {
+  const lines = text.split(/\r?\n/).filter(line => /^\s*\|.*\|\s*$/.test(line));
+  return lines
+    .filter(line => !/^\s*\|(?:\s*:?-+:?\s*\|)+\s*$/.test(line))
+    .map(line => line.trim().replace(/^\||\|$/g, '').split('|').map(cell => cell.trim()));
+}
+
+// With a recognizable header row, known columns become fields; otherwise each row is free text
+function rowsToItems(rows: string[][]): BulkSourceItem[] {
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const headers = rows[0].map(header => COLUMN_FIELDS[header.toLowerCase().replace(/[\s_-]+/g, '')]);
+  if (!headers.some(Boolean)) {
+    return rows.map(cells => ({ text: cells.filter(Boolean).join(' - '), fields: {} }));
+  }
+
+  return rows.slice(1).map(cells => {
+    const fields: Partial<IssueData> = {};
+    const unmapped: string[] = [];
+
+    cells.forEach((cell, index) => {
+      const field = headers[index];
+      const value = cell.trim();
+      if (!value) {
+        return;
+      }
+      if (!field) {
+        unmapped.push(value);
+      } else if (isListField(field)) {
+        fields[field] = value.split(/[,;]/).map(item => item.trim()).filter(Boolean);
+      } else if (field === 'storyPoints') {
+        const points = parseFloat(value);
+        if (isFinite(points)) {
+          fields.storyPoints = points;
+        }
+      } else {
+        fields[field] = value;
+      }
+    });
+
+    return { text: [fields.title, fields.description, ...unmapped].filter(Boolean).join(' - '), fields };
+  }).filter(item => item.text || Object.keys(item.fields).length > 0);
+}
@@ -30,6 +30,29 @@ export class Chatbot {
     });
   }
 
+  // Reads lines until one equals the terminator; pasted blocks arrive as many lines at once.
+  // Resolves to null when the user types "cancel".
+  async getMultilineInput(prompt: string, terminator: string = 'done'): Promise<string[] | null> {
+    console.log(prompt);
+    this.rl.setPrompt('… ');
+    this.rl.prompt();
+
+    return new Promise((resolve) => {
+      const lines: string[] = [];
+      const onLine = (line: string) => {
+        const command = line.trim().toLowerCase();
+        if (command === terminator || command === 'cancel') {
+          this.rl.removeListener('line', onLine);
+          resolve(command === 'cancel' ? null : lines);
+          return;
+        }
+        lines.push(line);
+        this.rl.prompt();
+      };
+      this.rl.on('line', onLine);
+    });
+  }
+
   async getAIResponse(): Promise<string | null> {
     try {
       console.log('🤔 Thinking...');
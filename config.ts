@@ -1,19 +1,83 @@
 import dotenv from 'dotenv';
+import { loadWorkspaceConfig, resolveMcpServer } from './workspaceConfig';
 
 // Load environment variables
 dotenv.config();
 
 export const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-export const ZAPIER_MCP_URL = process.env.ZAPIER_MCP_URL;
 
 if (!OPENAI_API_KEY) {
   throw new Error('OPENAI_API_KEY is required. Please set it in your .env file.');
 }
 
-if (!ZAPIER_MCP_URL) {
-  throw new Error('ZAPIER_MCP_URL is required. Please set it in your .env file.');
+// Whole-number settings from the environment; a value that isn't one stops startup instead of becoming NaN
+function envInteger(name: string, fallback: number, min: number): number {
+  const value = process.env[name];
+  if (value === undefined || value.trim() === '') {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) {
+    throw new Error(`${name} must be a whole number of at least ${min} (got ${JSON.stringify(value)}). Please fix it in your .env file.`);
+  }
+  return parsed;
 }
 
+// MCP connection: reconnects use exponential backoff with jitter; read-only tools (the Jira lookups, and
+// other tools whose names contain one of IDEMPOTENT_VERBS) are retried after a dropped session
+export const MCP_CONFIG = {
+  MAX_CONNECT_ATTEMPTS: envInteger('MCP_MAX_CONNECT_ATTEMPTS', 5, 1),
+  BACKOFF_BASE_MS: envInteger('MCP_BACKOFF_BASE_MS', 500, 0),
+  BACKOFF_MAX_MS: envInteger('MCP_BACKOFF_MAX_MS', 15000, 0),
+  REQUEST_TIMEOUT_MS: envInteger('MCP_REQUEST_TIMEOUT_MS', 60000, 1),
+  HEALTH_CHECK_TIMEOUT_MS: 5000,
+  TOOL_RETRIES: envInteger('MCP_TOOL_RETRIES', 2, 0),
+  IDEMPOTENT_VERBS: (process.env.MCP_IDEMPOTENT_VERBS || 'find,search,list,get').split(',').map(verb => verb.trim()).filter(Boolean)
+};
+
+// Site URL, defaults, project aliases and write permissions for this Jira workspace
+export const WORKSPACE_CONFIG_PATH = process.env.JIRA_AGENT_CONFIG || 'jira-agent.config.json';
+export const WORKSPACE_CONFIG = loadWorkspaceConfig(WORKSPACE_CONFIG_PATH);
+
+// The MCP server that provides the Jira tools: Zapier at ZAPIER_MCP_URL unless configured otherwise
+export const MCP_SERVER = resolveMcpServer(WORKSPACE_CONFIG.mcp);
+
+// Duplicate detection: 'tfidf' works offline, 'embedding' uses the OpenAI embeddings API
+export const SIMILARITY_CONFIG = {
+  BACKEND: (process.env.SIMILARITY_BACKEND || 'tfidf') as 'tfidf' | 'embedding',
+  EMBEDDING_MODEL: process.env.EMBEDDING_MODEL || 'text-embedding-3-small',
+  EMBEDDING_CACHE_PATH: process.env.EMBEDDING_CACHE_PATH || '.jira-agent/embeddings.json',
+  TFIDF_THRESHOLD: 0.3,
+  EMBEDDING_THRESHOLD: 0.6
+};
+
+// Duplicate protection on retry: each creation is recorded locally and given a LABEL_PREFIX marker label
+// in Jira, so an attempt that timed out can be found instead of created twice
+export const IDEMPOTENCY_CONFIG = {
+  ENABLED: process.env.IDEMPOTENCY !== 'off',
+  LEDGER_PATH: process.env.CREATION_LEDGER_PATH || '.jira-agent/creations.json',
+  LABEL_PREFIX: 'jira-agent-',
+  TTL_DAYS: 7
+};
+
+// Issues confirmed while the MCP server is unreachable wait here until the "sync" command
+export const QUEUE_CONFIG = {
+  PATH: process.env.OFFLINE_QUEUE_PATH || '.jira-agent/queue.json'
+};
+
+// Bulk creation: items per AI extraction call and issues created in parallel
+export const BULK_CONFIG = {
+  EXTRACTION_BATCH_SIZE: 15,
+  CONCURRENCY: envInteger('BULK_CONCURRENCY', 3, 1),
+  MAX_ITEMS: 100
+};
+
+// Attachments: text files up to INLINE_MAX_BYTES go into the description, anything else is uploaded
+export const ATTACHMENT_CONFIG = {
+  INLINE_MAX_BYTES: envInteger('ATTACHMENT_INLINE_MAX_BYTES', 8192, 0),
+  MAX_UPLOAD_BYTES: envInteger('ATTACHMENT_MAX_MB', 10, 1) * 1024 * 1024
+};
+
 export const SYSTEM_PROMPT = `You are a helpful AI assistant that specializes in managing Jira issues. Your primary role is to help users create new Jira issues by gathering the necessary information in a conversational way.
 
 When a user wants to create a Jira issue, you should gather the following information:
@@ -35,7 +99,11 @@ export const APP_CONFIG = {
   TEMPERATURE: 0.7,
   WELCOME_MESSAGE: `🤖 Welcome to the Jira AI Agent!
 I can help you create Jira issues and manage your project tasks.
-Type "exit" to quit, or start by telling me what you'd like to do.\n`,
+Type "exit" to quit, "status" to check the Jira connection, "queue" to see issues saved while offline,
+or start by telling me what you'd like to do.\n`,
   GOODBYE_MESSAGE: '\n👋 Goodbye! Thanks for using the Jira AI Agent.',
-  EXIT_COMMAND: 'exit'
+  EXIT_COMMAND: 'exit',
+  STATUS_COMMAND: 'status',
+  QUEUE_COMMAND: 'queue',
+  SYNC_COMMAND: 'sync'
 };
\ No newline at end of file
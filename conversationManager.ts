@@ -1,45 +1,320 @@
-import { ConversationState, IssueCreationStep } from './types';
+import { BulkCreateResult, ConversationState, ConversationResult, CreatedIssue, DuplicateCheck, EpicPlan, IssueCreationStep, IssueData, IssueUpdateRequest, JiraFailure, JiraFeature, JiraUser, PendingUserChoice, UpdateIssueResult } from './types';
 import { InformationExtractor } from './informationExtractor';
 import { IssueCreationFlow } from './issueCreationFlow';
-import { AIParameterExtractor, ExtractedParameters } from './aiParameterExtractor';
+import { AIParameterExtractor, ExtractedParameter, ExtractedParameters } from './aiParameterExtractor';
 import { Chatbot } from './chatbot';
+import { JqlBuilder } from './jqlBuilder';
+import { ProjectRegistry } from './projectRegistry';
+import { composeDescription, describeExtendedFields, describeLinks, previewDescription } from './issueFields';
+import { isPlainText, previewMarkdown } from './markdown';
+import { DefaultRuleEngine } from './defaultRules';
+import { APP_CONFIG, BULK_CONFIG, WORKSPACE_CONFIG } from './config';
+import { BatchReview, ReviewCommandResult } from './batchReview';
+import { BulkSourceItem, loadBulkItemsFromFile, parseListItems } from './bulkImport';
+import { describeSections, TemplateRegistry } from './issueTemplates';
+import { IssueTemplate } from './workspaceConfig';
+import { describeAttachments, inspectAttachments } from './attachments';
+import { detectStackTrace, stackTraceToMarkdown } from './stackTrace';
+import { QueuedIssue } from './offlineQueue';
+import { describeJiraError } from './jiraErrors';
 
 export class ConversationManager {
   private extractor: InformationExtractor;
   private issueFlow: IssueCreationFlow;
   private aiExtractor: AIParameterExtractor;
+  private jqlBuilder: JqlBuilder;
+  private ruleEngine: DefaultRuleEngine;
+  private batchReview: BatchReview;
+  private templates: TemplateRegistry;
+  private projectRegistry: ProjectRegistry;
+  // Features the MCP server has no tools for, with the reason
+  private unavailableFeatures: { [feature in JiraFeature]?: string } = {};
 
-  constructor() {
-    this.extractor = new InformationExtractor();
-    this.issueFlow = new IssueCreationFlow();
-    this.aiExtractor = new AIParameterExtractor();
+  constructor(projectRegistry: ProjectRegistry = new ProjectRegistry()) {
+    this.projectRegistry = projectRegistry;
+    this.extractor = new InformationExtractor(projectRegistry);
+    this.templates = new TemplateRegistry(WORKSPACE_CONFIG.templates, projectRegistry);
+    this.issueFlow = new IssueCreationFlow(projectRegistry, this.templates);
+    this.aiExtractor = new AIParameterExtractor(projectRegistry);
+    this.jqlBuilder = new JqlBuilder(phrase => projectRegistry.resolve(phrase)?.name || null);
+    this.ruleEngine = new DefaultRuleEngine(WORKSPACE_CONFIG.rules, projectRegistry);
+    this.batchReview = new BatchReview(projectRegistry);
+  }
+
+  setUnavailableFeatures(unavailable: { [feature in JiraFeature]?: string }): void {
+    this.unavailableFeatures = unavailable;
   }
 
   async processUserInput(
     userInput: string, 
     state: ConversationState, 
     chatbot: Chatbot
-  ): Promise<{
-    action: 'continue' | 'create_issue' | 'search' | 'cancel' | 'regular_chat';
-    message?: string;
-    searchQuery?: string;
-  }> {
+  ): Promise<ConversationResult> {
+    // A name matched several Jira users; checked first because it pauses a create or update
+    if (state.pendingUserChoice) {
+      return this.handleUserChoice(userInput, state);
+    }
+
+    // An issue edit is waiting for the user's yes/no
+    if (state.pendingUpdate) {
+      return this.handleUpdateConfirmation(userInput, state);
+    }
+
+    // A comment is waiting for its text or the user's yes/no
+    if (state.pendingComment) {
+      return this.handleCommentConfirmation(userInput, state);
+    }
+
+    // Similar issues were found and the user must choose how to proceed
+    if (state.duplicateCheck && !state.duplicateCheck.resolved) {
+      return this.handleDuplicateChoice(userInput, state);
+    }
+
+    // A batch of issues is being reviewed before bulk creation
+    if (state.bulk) {
+      return this.handleBulkReview(userInput, state);
+    }
+
+    // A proposed epic breakdown is being reviewed before creation
+    if (state.epicPlan) {
+      return this.handleEpicReview(userInput, state);
+    }
+
     // If we're in issue creation mode, handle the flow
     if (state.isCreatingIssue) {
       return await this.handleIssueCreationFlow(userInput, state, chatbot);
     } else {
       // Check what the user wants to do
-      if (this.extractor.detectsIssueCreationIntent(userInput)) {
-        return await this.startIssueCreationWithAI(userInput, state, chatbot);
+      // A feature the MCP server can't support is declined up front, not after its questions
+      if (this.extractor.detectsBulkIntent(userInput)) {
+        return this.declineUnavailable('create') || await this.startBulkCreation(userInput, state, chatbot);
+      } else if (this.extractor.detectsEpicBreakdownIntent(userInput)) {
+        return this.declineUnavailable('create') || await this.startEpicBreakdown(userInput, state);
+      } else if (this.extractor.detectsViewIntent(userInput)) {
+        return this.declineUnavailable('view') || { action: 'view_issue', issueKey: this.extractor.extractIssueKey(userInput)! };
+      } else if (this.extractor.detectsCommentIntent(userInput)) {
+        return this.declineUnavailable('comment') || this.startComment(userInput, state);
+      } else if (this.extractor.detectsTransitionIntent(userInput)) {
+        return this.declineUnavailable('transition') || this.startIssueTransition(userInput);
+      } else if (this.extractor.detectsUpdateIntent(userInput)) {
+        return this.declineUnavailable('update') || this.startIssueUpdate(userInput, state);
+      } else if (this.extractor.detectsIssueCreationIntent(userInput)) {
+        return this.declineUnavailable('create') || await this.startIssueCreationWithAI(userInput, state, chatbot);
       } else if (this.extractor.detectsSearchIntent(userInput)) {
-        const searchQuery = this.extractor.extractSearchQuery(userInput);
-        return { action: 'search', searchQuery };
+        return this.declineUnavailable('search') || this.buildSearch(userInput);
       } else {
         return { action: 'regular_chat' };
       }
     }
   }
 
+  private declineUnavailable(feature: JiraFeature): ConversationResult | null {
+    const reason = this.unavailableFeatures[feature];
+    return reason ? { action: 'continue', message: `❌ ${reason}, so I can't do that with this server.` } : null;
+  }
+
+  // Raw JQL is passed through; prose with recognizable filters is translated to JQL
+  private buildSearch(userInput: string): ConversationResult {
+    const rawJql = this.jqlBuilder.extractRawJql(userInput);
+    if (rawJql) {
+      return { action: 'search', searchQuery: rawJql, jql: rawJql };
+    }
+
+    const translation = this.jqlBuilder.fromNaturalLanguage(userInput);
+    if (translation.hasFilters) {
+      console.log(`🧭 Translated search to JQL: ${translation.jql}`);
+      return { action: 'search', searchQuery: userInput, jql: translation.jql };
+    }
+
+    const searchQuery = this.extractor.extractSearchQuery(userInput);
+    return { action: 'search', searchQuery };
+  }
+
+  private startComment(userInput: string, state: ConversationState): ConversationResult {
+    const { issueKey, body } = this.extractor.extractCommentRequest(userInput);
+
+    if (!issueKey) {
+      return {
+        action: 'continue',
+        message: "Which issue should I comment on? Please include its key, for example ENG-88."
+      };
+    }
+
+    state.pendingComment = { issueKey, body: body || '' };
+
+    if (!body) {
+      return {
+        action: 'continue',
+        message: `What should the comment on ${issueKey} say?`
+      };
+    }
+
+    return {
+      action: 'continue',
+      message: this.formatCommentPreview(state.pendingComment)
+    };
+  }
+
+  private handleCommentConfirmation(userInput: string, state: ConversationState): ConversationResult {
+    const comment = state.pendingComment!;
+
+    // Still waiting for the comment text itself
+    if (!comment.body) {
+      if (this.issueFlow.checkForCancellation(userInput)) {
+        state.pendingComment = undefined;
+        return { action: 'cancel', message: "No problem! The comment has been discarded." };
+      }
+      comment.body = userInput.trim();
+      return { action: 'continue', message: this.formatCommentPreview(comment) };
+    }
+
+    const answer = this.extractor.parseConfirmation(userInput, ['post', 'add']);
+    if (answer === 'yes') {
+      return { action: 'add_comment' };
+    } else if (answer === 'no') {
+      state.pendingComment = undefined;
+      return {
+        action: 'cancel',
+        message: "No problem! The comment has been discarded. Let me know if you need help with anything else."
+      };
+    } else {
+      return {
+        action: 'continue',
+        message: `Please confirm by saying 'yes' to post the comment on ${comment.issueKey}, or 'no' to cancel.`
+      };
+    }
+  }
+
+  private formatCommentPreview(comment: { issueKey: string; body: string }): string {
+    const rendered = isPlainText(comment.body)
+      ? ''
+      : `\n\n   📐 Formatted as:\n${previewMarkdown(comment.body).map(line => `   │ ${line}`).join('\n')}`;
+    return `I'll add this comment to ${comment.issueKey}:\n\n   💬 "${comment.body}"${rendered}\n\nShall I post it? (yes/no)`;
+  }
+
+  // NEW: Resolve the "create anyway / cancel / comment instead" choice. Replies must be one of the
+  // commands; a negative reply ("no, don't create it") cancels and anything else asks again.
+  private handleDuplicateChoice(userInput: string, state: ConversationState): ConversationResult {
+    const command = userInput.trim().toLowerCase().replace(/[.!]+$/, '');
+    const matches = state.duplicateCheck!.matches;
+
+    const commentMatch = command.match(/^(?:add\s+(?:it\s+as\s+)?(?:a\s+)?)?comment(?:\s+(?:instead\s+)?(?:on\s+)?(?:#?(\d+)|([a-z][a-z0-9]*-\d+)))?(?:\s+instead)?$/);
+    if (commentMatch) {
+      const key = (commentMatch[2] ? commentMatch[2].toUpperCase() : null) ||
+                  (commentMatch[1] ? matches[parseInt(commentMatch[1], 10) - 1]?.key : null) ||
+                  (matches.length === 1 && !commentMatch[1] ? matches[0].key : null);
+
+      if (!key) {
+        return {
+          action: 'continue',
+          message: `Which issue should I comment on? Say 'comment 1' to 'comment ${matches.length}', or give the issue key.`
+        };
+      }
+
+      const unavailable = this.declineUnavailable('comment');
+      if (unavailable) {
+        return { action: 'continue', message: `${unavailable.message}\n\n${this.formatDuplicatePrompt(matches.length)}` };
+      }
+
+      // The comment gets the description as it would have been filed: template sections, acceptance criteria, inline files
+      const details = composeDescription(state.issueData);
+      const body = details ? `Also reported: ${state.issueData.title}\n\n${details}` : `Also reported: ${state.issueData.title}`;
+      this.issueFlow.resetState(state);
+      state.pendingComment = { issueKey: key, body };
+      return { action: 'continue', message: this.formatCommentPreview(state.pendingComment) };
+    }
+
+    if (/^(?:create|create\s+it|(?:create\s+(?:it\s+)?)?anyway|yes)$/.test(command)) {
+      state.duplicateCheck!.resolved = true;
+      return { action: 'create_issue' };
+    }
+
+    if (/^(?:cancel|no|stop)$/.test(command) || (this.extractor.parseConfirmation(userInput) === 'no' && !/\bcomment/.test(command))) {
+      this.issueFlow.resetState(state);
+      return {
+        action: 'cancel',
+        message: "No problem! Issue creation has been cancelled. Let me know if you need help with anything else."
+      };
+    }
+
+    return {
+      action: 'continue',
+      message: this.formatDuplicatePrompt(matches.length)
+    };
+  }
+
+  formatDuplicatePrompt(matchCount: number): string {
+    const commentHint = matchCount === 1 ? "'comment'" : `'comment <number>'`;
+    return `This might already be tracked. Reply 'create' to create it anyway, 'cancel' to stop, or ${commentHint} to add your details as a comment on the existing issue instead.`;
+  }
+
+  displaySimilarIssues(matches: DuplicateCheck['matches']): void {
+    console.log(`\n🔎 Found ${matches.length} similar issue(s):`);
+    console.log('══════════════════════════════════════');
+    matches.forEach((issue, index) => {
+      console.log(`  ${index + 1}. ${issue.key}: ${issue.summary} (${Math.round(issue.similarity * 100)}% similar)`);
+    });
+    console.log('══════════════════════════════════════');
+  }
+
+  private startIssueTransition(userInput: string): ConversationResult {
+    const { issueKey, targetStatus } = this.extractor.extractTransitionRequest(userInput);
+
+    if (!issueKey || !targetStatus) {
+      return {
+        action: 'continue',
+        message: `Which status should ${issueKey || 'the issue'} move to? For example: "move ${issueKey || 'ENG-42'} to In Progress".`
+      };
+    }
+
+    console.log(`🔀 Transition requested: ${issueKey} → ${targetStatus}`);
+    return { action: 'transition_issue', issueKey, targetStatus };
+  }
+
+  // NEW: Parse an edit request and hand it to the agent for the before/after preview
+  private startIssueUpdate(userInput: string, state: ConversationState): ConversationResult {
+    const { issueKey, changes } = this.extractor.extractIssueUpdate(userInput);
+
+    if (!issueKey) {
+      return {
+        action: 'continue',
+        message: "Which issue should I update? Please include its key, for example ENG-123."
+      };
+    }
+
+    if (Object.keys(changes).length === 0) {
+      return {
+        action: 'continue',
+        message: `I couldn't tell what to change on ${issueKey}. Try something like "set ${issueKey} priority to High" or "change the title of ${issueKey} to ...".`
+      };
+    }
+
+    console.log(`✏️  Update requested for ${issueKey}:`, changes);
+    state.pendingUpdate = { issueKey, changes, confirmed: false };
+    return { action: 'update_issue' };
+  }
+
+  private handleUpdateConfirmation(userInput: string, state: ConversationState): ConversationResult {
+    const answer = this.extractor.parseConfirmation(userInput, ['apply', 'update', 'save']);
+    const issueKey = state.pendingUpdate!.issueKey;
+
+    if (answer === 'yes') {
+      state.pendingUpdate!.confirmed = true;
+      return { action: 'update_issue' };
+    } else if (answer === 'no') {
+      state.pendingUpdate = undefined;
+      return {
+        action: 'cancel',
+        message: `No problem! ${issueKey} was left unchanged. Let me know if you need help with anything else.`
+      };
+    } else {
+      return {
+        action: 'continue',
+        message: `Please confirm by saying 'yes' to apply the changes to ${issueKey}, or 'no' to cancel.`
+      };
+    }
+  }
+
   private async startIssueCreationWithAI(
     userInput: string, 
     state: ConversationState, 
@@ -53,14 +328,21 @@ export class ConversationManager {
     state.isCreatingIssue = true;
     state.currentStep = IssueCreationStep.AI_EXTRACTING;
 
+    // Files are checked up front; extraction only sees the request without the "attach ..." phrases
+    const attachmentRequest = this.extractor.extractAttachmentPaths(userInput);
+    const attachmentProblems = this.attachFiles(attachmentRequest.paths, state);
+    if (attachmentRequest.paths.length > 0) {
+      userInput = attachmentRequest.text;
+    }
+
     try {
       // Phase 1: AI Parameter Extraction
       console.log('🤖 Extracting parameters with AI...');
       const extracted = await this.aiExtractor.extractParameters(userInput);
-      const validated = this.aiExtractor.validateExtractedParameters(extracted);
+      const validated = this.ruleEngine.apply(this.aiExtractor.validateExtractedParameters(extracted));
       
       // Phase 2: Identify Missing Parameters (ONLY title and description now)
-      const missing = this.aiExtractor.identifyMissingParameters(validated, 0.6);
+      let missing = this.aiExtractor.identifyMissingParameters(validated, 0.6);
       
       // Store extraction results
       state.extractedParameters = validated;
@@ -68,9 +350,33 @@ export class ConversationManager {
       
       // Phase 3: Convert extracted parameters to issueData
       this.convertExtractedToIssueData(validated, state);
+
+      // Parent and links are matched by pattern rather than by the AI
+      const relations = this.extractor.extractIssueRelations(userInput);
+      state.issueData.parent = relations.parent;
+      state.issueData.links = relations.links.length > 0 ? relations.links : undefined;
+
+      // Templated descriptions: fill the sections the request covers, then ask only for the rest
+      const template = this.templates.find(state.issueData);
+      if (template) {
+        await this.startTemplate(template, userInput, state);
+        missing = [
+          ...missing.filter(parameter => parameter !== 'description'),
+          ...this.templates.missingSections(state.issueData, state.hasAskedFor).map(section => `section:${section.id}`)
+        ];
+        state.missingParameters = missing;
+      }
       
       // Phase 4: Route Based on Completeness
-      if (missing.length === 0) {
+      if (missing.length === 0 && attachmentProblems.length > 0) {
+        // Don't create the issue without a file the user asked for unless they say so
+        this.displayAIExtractedSummary(state);
+        state.currentStep = IssueCreationStep.CONFIRMING_DETAILS;
+        return {
+          action: 'continue',
+          message: `${this.formatAttachmentProblems(attachmentProblems)} Would you like me to create the issue anyway? (yes/no)`
+        };
+      } else if (missing.length === 0) {
         console.log('🎉 All parameters available! Ready to create issue.');
         return { action: 'create_issue' };
       } else {
@@ -78,14 +384,14 @@ export class ConversationManager {
         
         // Start collecting missing parameters
         const contextPhrase = this.aiExtractor.buildContextPhrase(validated);
-        const firstQuestion = this.generateQuestionForParameter(missing[0], contextPhrase);
+        const firstQuestion = this.generateQuestionForParameter(missing[0], contextPhrase, state.issueData);
         
         state.currentStep = this.getStepForParameter(missing[0]);
         state.hasAskedFor.add(missing[0]);
         
         return {
           action: 'continue',
-          message: firstQuestion
+          message: attachmentProblems.length > 0 ? `${this.formatAttachmentProblems(attachmentProblems)} ${firstQuestion}` : firstQuestion
         };
       }
 
@@ -95,7 +401,7 @@ export class ConversationManager {
       // Fallback to traditional step-by-step flow
       this.issueFlow.startIssueCreation(userInput, state);
       const nextStep = this.issueFlow.determineNextStep(state);
-      const question = this.issueFlow.getQuestionForStep(nextStep);
+      const question = this.issueFlow.getQuestionForStep(nextStep, state);
       
       state.currentStep = nextStep;
       this.markStepAsAsked(nextStep, state);
@@ -126,6 +432,17 @@ export class ConversationManager {
 
     // Handle confirmation step in AI flow
     if (state.currentStep === IssueCreationStep.CONFIRMING_DETAILS && state.extractedParameters) {
+      // "attach ./logs/error.log" before confirming adds the file and shows the summary again
+      const attachmentRequest = this.extractor.extractAttachmentPaths(userInput);
+      if (attachmentRequest.paths.length > 0) {
+        const problems = this.attachFiles(attachmentRequest.paths, state);
+        this.displayAIExtractedSummary(state);
+        return {
+          action: 'continue',
+          message: `${problems.length > 0 ? `${this.formatAttachmentProblems(problems)} ` : ''}Would you like me to create this issue? (yes/no)`
+        };
+      }
+
       const lowerInput = userInput.toLowerCase();
       if (lowerInput.includes('yes') || lowerInput.includes('confirm') || lowerInput.includes('create')) {
         return { action: 'create_issue' };
@@ -178,7 +495,7 @@ export class ConversationManager {
       
       return {
         action: 'continue',
-        message: this.issueFlow.getQuestionForStep(nextStep)
+        message: this.issueFlow.getQuestionForStep(nextStep, state)
       };
     } else if (nextStep === IssueCreationStep.READY_TO_CREATE) {
       return { action: 'create_issue' };
@@ -188,7 +505,7 @@ export class ConversationManager {
       
       return {
         action: 'continue',
-        message: this.issueFlow.getQuestionForStep(nextStep)
+        message: this.issueFlow.getQuestionForStep(nextStep, state)
       };
     }
   }
@@ -210,7 +527,7 @@ export class ConversationManager {
       const contextPhrase = this.aiExtractor.buildContextPhrase(state.extractedParameters!);
       return {
         action: 'continue',
-        message: this.generateQuestionForParameter(currentMissing, contextPhrase) + ' Please provide a valid response.'
+        message: this.generateQuestionForParameter(currentMissing, contextPhrase, state.issueData) + ' Please provide a valid response.'
       };
     }
 
@@ -220,6 +537,9 @@ export class ConversationManager {
     // Check if we have more missing parameters
     if (state.missingParameters.length === 0) {
       console.log('🎉 All missing parameters collected! Ready to create issue.');
+
+      // Keyword rules can only match once the title and description are known
+      this.reapplyDefaultRules(state);
       
       // Show confirmation summary
       this.displayAIExtractedSummary(state);
@@ -233,7 +553,7 @@ export class ConversationManager {
       // Ask for the next missing parameter
       const nextMissing = state.missingParameters[0];
       const contextPhrase = this.aiExtractor.buildContextPhrase(state.extractedParameters!);
-      const nextQuestion = this.generateQuestionForParameter(nextMissing, contextPhrase);
+      const nextQuestion = this.generateQuestionForParameter(nextMissing, contextPhrase, state.issueData);
       
       state.currentStep = this.getStepForParameter(nextMissing);
       
@@ -244,27 +564,441 @@ export class ConversationManager {
     }
   }
 
+  // Checks the referenced files and keeps the usable ones on the issue; returns what couldn't be attached
+  private attachFiles(paths: string[], state: ConversationState): string[] {
+    if (paths.length === 0) {
+      return [];
+    }
+
+    const { attachments, problems } = inspectAttachments(paths);
+    const existing = state.issueData.attachments || [];
+    const added = attachments.filter(attachment => !existing.some(other => other.resolvedPath === attachment.resolvedPath));
+    state.issueData.attachments = existing.length + added.length > 0 ? [...existing, ...added] : undefined;
+
+    for (const line of describeAttachments(added)) {
+      console.log(`📎 ${line}`);
+    }
+    for (const problem of problems) {
+      console.log(`⚠️  Can't attach ${problem}`);
+    }
+    return problems;
+  }
+
+  private formatAttachmentProblems(problems: string[]): string {
+    return `I couldn't attach ${problems.length === 1 ? 'this file' : 'these files'}: ${problems.join('; ')}.`;
+  }
+
+  private async startTemplate(template: IssueTemplate, userInput: string, state: ConversationState): Promise<void> {
+    console.log(`📑 Using the "${template.name}" description template`);
+
+    // A pasted stack trace stays out of section extraction and is put back under the summary
+    const trace = detectStackTrace(userInput);
+    const extraction = await this.aiExtractor.extractTemplateSections(trace ? trace.context : userInput, template);
+    if (extraction) {
+      this.templates.apply(state.issueData, template, extraction.sections);
+      // The summary replaces the free-text description so the sections aren't repeated above themselves
+      state.issueData.description = [extraction.summary, trace && stackTraceToMarkdown(trace)].filter(Boolean).join('\n\n') || undefined;
+    } else {
+      // The request wording would make a poor lead paragraph, so only the labelled sections are kept
+      this.templates.apply(state.issueData, template, this.templates.parseSections(trace ? trace.context : userInput, template).sections);
+    }
+
+    // The exception answers "what happened instead?"
+    if (trace && !state.issueData.sections?.find(section => section.id === 'actual')?.content) {
+      this.templates.setSection(state.issueData, 'actual', trace.message ? `${trace.exceptionType}: ${trace.message}` : trace.exceptionType);
+    }
+  }
+
   private convertExtractedToIssueData(extracted: ExtractedParameters, state: ConversationState): void {
-    // Convert extracted parameters to issueData
+    Object.assign(state.issueData, this.toIssueData(extracted));
+  }
+
+  private toIssueData(extracted: ExtractedParameters): IssueData {
+    const issueData: IssueData = {};
+
     // Always include values (with defaults already applied by AIParameterExtractor)
     if (extracted.title.value) {
-      state.issueData.title = extracted.title.value;
+      issueData.title = extracted.title.value;
     }
     if (extracted.type.value) {
-      state.issueData.issueType = extracted.type.value;
+      issueData.issueType = extracted.type.value;
     }
     if (extracted.project.value) {
-      state.issueData.project = extracted.project.value;
+      issueData.project = extracted.project.value;
     }
     if (extracted.priority.value) {
-      state.issueData.priority = extracted.priority.value;
+      issueData.priority = extracted.priority.value;
     }
     if (extracted.description.value) {
-      state.issueData.description = extracted.description.value;
+      issueData.description = extracted.description.value;
+    }
+
+    // Optional fields are never asked for, so only keep confident extractions
+    const confident = <T>(param: ExtractedParameter<T>): T | undefined =>
+      param.value !== null && param.confidence >= 0.6 ? param.value : undefined;
+
+    issueData.labels = confident(extracted.labels);
+    issueData.components = confident(extracted.components);
+    issueData.assignee = confident(extracted.assignee);
+    issueData.reporter = confident(extracted.reporter);
+    issueData.fixVersions = confident(extracted.fixVersions);
+    issueData.dueDate = confident(extracted.dueDate);
+    issueData.storyPoints = confident(extracted.storyPoints);
+    issueData.customFields = confident(extracted.customFields);
+
+    return issueData;
+  }
+
+  // NEW: Bulk creation from a pasted list or a CSV/Markdown file
+  private async startBulkCreation(userInput: string, state: ConversationState, chatbot: Chatbot): Promise<ConversationResult> {
+    const filePath = this.extractor.extractBulkFilePath(userInput);
+    let sources: BulkSourceItem[];
+    let source: string;
+
+    if (filePath) {
+      try {
+        sources = loadBulkItemsFromFile(filePath);
+      } catch (error) {
+        return { action: 'continue', message: `I couldn't read ${filePath}: ${error instanceof Error ? error.message : error}` };
+      }
+      source = filePath;
+    } else {
+      // Items can follow a colon on the same line: "bulk create: fix login; update docs"
+      const inline = userInput.split(':').slice(1).join(':').trim();
+      let lines = inline ? inline.split(';') : [];
+
+      if (lines.length === 0) {
+        const pasted = await chatbot.getMultilineInput(
+          '\n📋 Paste your items, one per line (bullets are fine). Type "done" on its own line when finished, or "cancel".'
+        );
+        if (pasted === null) {
+          return { action: 'cancel', message: 'Bulk creation cancelled.' };
+        }
+        lines = pasted;
+      }
+
+      sources = parseListItems(lines.join('\n')).map(text => ({ text, fields: {} }));
+      source = 'pasted list';
+    }
+
+    if (sources.length === 0) {
+      return { action: 'continue', message: "I didn't find any items to create. Use one item per line, or a CSV with a title column." };
+    }
+    if (sources.length > BULK_CONFIG.MAX_ITEMS) {
+      return { action: 'continue', message: `That's ${sources.length} items; bulk creation is limited to ${BULK_CONFIG.MAX_ITEMS} at a time. Please split the list.` };
+    }
+
+    console.log(`📥 ${sources.length} item(s) from ${source}`);
+
+    // Rows that already have a title (CSV/table columns) skip the AI
+    const freeText = sources.filter(item => !item.fields.title);
+    const extracted = freeText.length > 0 ? await this.aiExtractor.extractBatch(freeText.map(item => item.text)) : [];
+
+    let next = 0;
+    const items = sources.map(item => {
+      const parameters = item.fields.title ? this.aiExtractor.extractFromFields(item.fields) : extracted[next++];
+      const issueData = this.toIssueData(this.ruleEngine.apply(parameters));
+      if (!item.fields.title) {
+        // Columns the AI saw only as text still take precedence over what it extracted
+        Object.assign(issueData, item.fields);
+      }
+      const relations = this.extractor.extractIssueRelations(item.text);
+      issueData.parent = item.fields.parent || relations.parent;
+      issueData.links = relations.links.length > 0 ? relations.links : undefined;
+      return issueData;
+    });
+
+    state.bulk = { items, source };
+    this.displayBulkReview(state.bulk.items, source);
+
+    return { action: 'continue', message: this.formatBulkReviewHelp(items.length) };
+  }
+
+  private handleBulkReview(userInput: string, state: ConversationState): ConversationResult {
+    const session = state.bulk!;
+    const lowerInput = userInput.trim().toLowerCase();
+
+    if (lowerInput === 'cancel' || lowerInput === 'no') {
+      state.bulk = undefined;
+      return { action: 'cancel', message: 'Bulk creation cancelled. Nothing was created.' };
+    }
+
+    if (lowerInput === 'show' || lowerInput === 'list') {
+      this.displayBulkReview(session.items, session.source);
+      return { action: 'continue', message: this.formatBulkReviewHelp(session.items.length) };
+    }
+
+    if (['create', 'create all', 'yes', 'go', 'confirm'].includes(lowerInput)) {
+      const incomplete = session.items
+        .map((item, index) => (!item.title || !item.project ? index + 1 : 0))
+        .filter(row => row > 0);
+      if (session.items.length === 0) {
+        state.bulk = undefined;
+        return { action: 'cancel', message: 'Every row was dropped, so there is nothing to create.' };
+      }
+      if (incomplete.length > 0) {
+        return { action: 'continue', message: `Row ${incomplete.join(', ')} still needs a title and project. Use "edit N title ..." or "edit N project ...".` };
+      }
+      return { action: 'bulk_create' };
+    }
+
+    const result = this.batchReview.apply(session.items, userInput);
+    if (!result.handled) {
+      return { action: 'continue', message: this.formatBulkReviewHelp(session.items.length) };
+    }
+
+    this.displayBulkReview(session.items, session.source);
+    return { action: 'continue', message: `${result.message} ${session.items.length > 0 ? 'Anything else, or "create"?' : 'Every row has been dropped; say "cancel" to leave.'}` };
+  }
+
+  private formatBulkReviewHelp(count: number): string {
+    return `Review the ${count} issue(s) above. You can "edit 3 priority High", "edit all project ENG", "drop 2" or "drop 4-6". ` +
+           `Say "create" to create them all, "show" to see the table again, or "cancel".`;
+  }
+
+  displayBulkReview(items: IssueData[], source: string): void {
+    console.log(`\n📋 ${items.length} issue(s) from ${source}:`);
+    for (const line of this.batchReview.formatTable(items)) {
+      console.log(`   ${line}`);
+    }
+    console.log('');
+  }
+
+  displayBulkReport(results: BulkCreateResult[]): void {
+    const created = results.filter(result => result.success).length;
+
+    console.log(`\n📊 Bulk creation report: ${created} of ${results.length} created`);
+    console.log('═'.repeat(50));
+    for (const result of results) {
+      const title = this.truncate(result.issueData.title || '(no title)', 60);
+      if (result.success) {
+        console.log(`✅ ${result.row}. ${result.key}: ${title}${result.url ? ` — ${result.url}` : ''}`);
+      } else {
+        console.log(`❌ ${result.row}. ${title} — ${result.error || 'Unknown error'}`);
+      }
+      for (const linkResult of result.links || []) {
+        if (!linkResult.success) {
+          console.log(`   ⚠️  Link failed: ${linkResult.link.relation} ${linkResult.link.issueKey} (${linkResult.error || 'failed'})`);
+        }
+      }
+    }
+    console.log('═'.repeat(50));
+  }
+
+  formatBulkSummary(results: BulkCreateResult[]): string {
+    const created = results.filter(result => result.success);
+    const failed = results.filter(result => !result.success);
+    const keys = created.map(result => result.key).filter(Boolean).join(', ');
+    return failed.length === 0
+      ? `✅ Created all ${created.length} issues: ${keys}.`
+      : `⚠️ Created ${created.length} of ${results.length} issues${keys ? ` (${keys})` : ''}. Rows ${failed.map(result => result.row).join(', ')} failed; see the report above for the errors.`;
+  }
+
+  // NEW: Issues saved while offline, shown and edited like the bulk review table
+  displayQueue(entries: QueuedIssue[]): void {
+    if (entries.length === 0) {
+      console.log('\n📭 The offline queue is empty.\n');
+      return;
+    }
+
+    console.log(`\n📥 ${entries.length} issue(s) waiting for "${APP_CONFIG.SYNC_COMMAND}":`);
+    for (const line of this.batchReview.formatTable(entries.map(entry => entry.issueData))) {
+      console.log(`   ${line}`);
+    }
+    entries.forEach((entry, index) => {
+      if (entry.lastError) {
+        console.log(`   ⚠️  ${index + 1}. Sync failed ${entry.attempts === 1 ? 'once' : `${entry.attempts} times`}: ${entry.lastError}`);
+      }
+    });
+    console.log('');
+  }
+
+  // "edit 2 priority High" / "drop 3" on the queued issues; changes items in place like the bulk review
+  editQueue(items: IssueData[], command: string): ReviewCommandResult {
+    const result = this.batchReview.apply(items, command);
+    return result.handled ? result : {
+      handled: false,
+      message: `You can "${APP_CONFIG.QUEUE_COMMAND} edit 2 priority High", "${APP_CONFIG.QUEUE_COMMAND} edit all project ENG" or "${APP_CONFIG.QUEUE_COMMAND} drop 3". ` +
+               `Type "${APP_CONFIG.SYNC_COMMAND}" to create the queued issues.`
+    };
+  }
+
+  // NEW: Epic breakdown; the epic is row 1 of the review table and can be edited but not dropped
+  private async startEpicBreakdown(userInput: string, state: ConversationState): Promise<ConversationResult> {
+    const breakdown = await this.aiExtractor.proposeEpicBreakdown(userInput);
+    if (!breakdown) {
+      return {
+        action: 'continue',
+        message: "I couldn't put together a breakdown for that. Try describing the feature in a sentence or two, or ask for the epic on its own."
+      };
+    }
+
+    const epic = this.toIssueData(this.ruleEngine.apply(breakdown.epic));
+    const children = breakdown.children.map(child => {
+      const issueData = this.toIssueData(this.ruleEngine.apply(child.parameters));
+      issueData.acceptanceCriteria = child.acceptanceCriteria;
+      return issueData;
+    });
+
+    state.epicPlan = { epic, children };
+    this.displayEpicPlan(state.epicPlan);
+
+    return { action: 'continue', message: this.formatEpicReviewHelp(children.length) };
+  }
+
+  private handleEpicReview(userInput: string, state: ConversationState): ConversationResult {
+    const plan = state.epicPlan!;
+    const lowerInput = userInput.trim().toLowerCase();
+    const rows = [plan.epic, ...plan.children];
+
+    if (lowerInput === 'cancel' || lowerInput === 'no') {
+      state.epicPlan = undefined;
+      return { action: 'cancel', message: 'Epic breakdown discarded. Nothing was created.' };
+    }
+
+    if (lowerInput === 'show' || lowerInput === 'list') {
+      this.displayEpicPlan(plan);
+      return { action: 'continue', message: this.formatEpicReviewHelp(plan.children.length) };
+    }
+
+    const detail = lowerInput.match(/^(?:show|details?|view)\s+(\d+)$/);
+    if (detail) {
+      const row = parseInt(detail[1], 10);
+      if (row < 1 || row > rows.length) {
+        return { action: 'continue', message: `There is no row ${row}; the plan has rows 1-${rows.length}.` };
+      }
+      this.displayPlanRow(rows[row - 1], row);
+      return { action: 'continue', message: 'Anything to change, or "create"?' };
+    }
+
+    if (['create', 'create all', 'yes', 'go', 'confirm', 'accept'].includes(lowerInput)) {
+      const incomplete = rows
+        .map((item, index) => (!item.title || !item.project ? index + 1 : 0))
+        .filter(row => row > 0);
+      if (incomplete.length > 0) {
+        return { action: 'continue', message: `Row ${incomplete.join(', ')} still needs a title and project. Use "edit N title ..." or "edit N project ...".` };
+      }
+      const misplaced = plan.children
+        .map((item, index) => (item.issueType === 'Epic' || item.issueType === 'Subtask' ? index + 2 : 0))
+        .filter(row => row > 0);
+      if (misplaced.length > 0) {
+        return { action: 'continue', message: `Row ${misplaced.join(', ')} can't sit under an epic as an Epic or Subtask. Use "edit N type Story" or "edit N type Task".` };
+      }
+      if (plan.epic.issueType !== 'Epic') {
+        return { action: 'continue', message: 'Row 1 is the epic and must keep the Epic type.' };
+      }
+      return { action: 'create_epic' };
+    }
+
+    const result = this.batchReview.apply(rows, userInput, { fixedRows: [1] });
+    if (!result.handled) {
+      return { action: 'continue', message: this.formatEpicReviewHelp(plan.children.length) };
+    }
+
+    plan.children = rows.slice(1);
+    this.displayEpicPlan(plan);
+    return { action: 'continue', message: `${result.message} Anything else, or "create"?` };
+  }
+
+  private formatEpicReviewHelp(childCount: number): string {
+    return `Here's a proposed epic with ${childCount} child issue(s). You can "edit 3 title ...", "edit 2 criteria first; second", ` +
+           `"edit all priority High", "drop 4" or "show 2" for details. Say "create" to create the epic and its children, or "cancel".`;
+  }
+
+  displayEpicPlan(plan: EpicPlan): void {
+    const rows = [plan.epic, ...plan.children];
+    console.log(`\n🧩 Proposed epic: ${plan.epic.title}`);
+    if (plan.epic.description) {
+      console.log(`   ${plan.epic.description}`);
+    }
+    console.log('');
+    for (const line of this.batchReview.formatTable(rows)) {
+      console.log(`   ${line}`);
+    }
+
+    plan.children.forEach((child, index) => {
+      if (child.acceptanceCriteria && child.acceptanceCriteria.length > 0) {
+        console.log(`\n   ${index + 2}. ${this.truncate(child.title || '(no title)', 70)}`);
+        for (const criterion of child.acceptanceCriteria) {
+          console.log(`      ✓ ${criterion}`);
+        }
+      }
+    });
+    console.log('');
+  }
+
+  private displayPlanRow(item: IssueData, row: number): void {
+    console.log(`\n📄 Row ${row}: ${item.issueType || 'Issue'} — ${item.title || '(no title)'}`);
+    console.log(`   📂 Project: ${item.project || '(none)'}`);
+    console.log(`   ⚡ Priority: ${item.priority || '(default)'}`);
+    for (const [label, value] of describeExtendedFields(item)) {
+      console.log(`   ➕ ${label}: ${value}`);
+    }
+    if (item.description) {
+      console.log(`   📄 ${item.description}`);
+    }
+    for (const criterion of item.acceptanceCriteria || []) {
+      console.log(`      ✓ ${criterion}`);
+    }
+    console.log('');
+  }
+
+  displayEpicReport(epic: { key: string; url?: string }, epicData: IssueData, results: BulkCreateResult[]): void {
+    const created = results.filter(result => result.success).length;
+
+    console.log(`\n📊 Epic ${epic.key} created with ${created} of ${results.length} child issue(s)`);
+    console.log('═'.repeat(50));
+    console.log(`🧩 ${epic.key}: ${this.truncate(epicData.title || '', 60)}${epic.url ? ` — ${epic.url}` : ''}`);
+    for (const result of results) {
+      const title = this.truncate(result.issueData.title || '(no title)', 60);
+      if (result.success) {
+        console.log(`   ✅ ${result.key}: ${title}`);
+      } else {
+        console.log(`   ❌ ${title} — ${result.error || 'Unknown error'}`);
+      }
+    }
+    console.log('═'.repeat(50));
+  }
+
+  formatEpicSummary(epicKey: string, results: BulkCreateResult[]): string {
+    const created = results.filter(result => result.success);
+    const failed = results.filter(result => !result.success);
+    const keys = created.map(result => result.key).filter(Boolean).join(', ');
+
+    if (failed.length === 0) {
+      return `✅ Created epic ${epicKey}${created.length > 0 ? ` with ${created.length} child issue(s): ${keys}` : ''}.`;
+    }
+    return `⚠️ Created epic ${epicKey}, but only ${created.length} of ${results.length} child issues${keys ? ` (${keys})` : ''}. ` +
+           `These failed: ${failed.map(result => `"${result.issueData.title}"`).join(', ')}. See the report above for the errors.`;
+  }
+
+  private reapplyDefaultRules(state: ConversationState): void {
+    const updated = this.ruleEngine.apply(state.extractedParameters!, {
+      title: state.issueData.title,
+      description: state.issueData.description
+    });
+    state.extractedParameters = updated;
+
+    if (updated.project.source === 'rule' && updated.project.value) {
+      state.issueData.project = updated.project.value;
+    }
+    if (updated.type.source === 'rule' && updated.type.value) {
+      state.issueData.issueType = updated.type.value;
+    }
+    if (updated.priority.source === 'rule' && updated.priority.value) {
+      state.issueData.priority = updated.priority.value;
     }
   }
 
   private processParameterResponse(userInput: string, parameter: string, state: ConversationState): boolean {
+    if (parameter.startsWith('section:')) {
+      const sectionId = parameter.slice('section:'.length);
+      const content = this.extractor.extractDescriptionFromResponse(userInput);
+      this.templates.setSection(state.issueData, sectionId, content);
+      console.log(`📑 Section "${sectionId}" collected: ${content ? 'provided' : 'skipped'}`);
+      return true;
+    }
+
     switch (parameter) {
       case 'title':
         const title = this.extractor.extractTitleFromResponse(userInput);
@@ -314,7 +1048,14 @@ export class ConversationManager {
     return false;
   }
 
-  private generateQuestionForParameter(parameter: string, contextPhrase: string): string {
+  private generateQuestionForParameter(parameter: string, contextPhrase: string, issueData?: IssueData): string {
+    if (parameter.startsWith('section:') && issueData) {
+      const section = this.templates.getSection(issueData, parameter.slice('section:'.length));
+      if (section) {
+        return `${contextPhrase}. ${section.question} (or say 'skip')`;
+      }
+    }
+
     switch (parameter) {
       case 'title':
         return `${contextPhrase}. What should be the title of this issue?`;
@@ -322,7 +1063,10 @@ export class ConversationManager {
         return `${contextPhrase}. Please provide a description for this issue (or say 'skip' to leave it empty).`;
       // Keep these for backward compatibility, though they shouldn't be called in the new flow
       case 'project':
-        return `${contextPhrase}. Which project should this go in? (FV Product, FV Engineering, FV Demo (Issues), or FV Demo (Product))`;
+        const projectNames = this.projectRegistry.getProjectNames();
+        return projectNames.length > 0
+          ? `${contextPhrase}. Which project should this go in? (${projectNames.join(', ')})`
+          : `${contextPhrase}. Which project should this go in? Please give the project name or key.`;
       case 'type':
         return `${contextPhrase}. What type of issue should this be? (Bug, Task, Story, or Epic)`;
       case 'priority':
@@ -339,7 +1083,7 @@ export class ConversationManager {
       case 'title': return IssueCreationStep.ASKING_TITLE;
       case 'description': return IssueCreationStep.ASKING_DESCRIPTION;
       case 'priority': return IssueCreationStep.ASKING_PRIORITY;
-      default: return IssueCreationStep.ASKING_TITLE;
+      default: return parameter.startsWith('section:') ? IssueCreationStep.ASKING_SECTION : IssueCreationStep.ASKING_TITLE;
     }
   }
 
@@ -360,57 +1104,198 @@ export class ConversationManager {
       case IssueCreationStep.ASKING_PRIORITY:
         state.hasAskedFor.add('priority');
         break;
+      case IssueCreationStep.ASKING_SECTION:
+        state.hasAskedFor.add(`section:${state.currentSection}`);
+        break;
     }
   }
 
   private displayAIExtractedSummary(state: ConversationState): void {
+    const params = state.extractedParameters;
+    const sourceOf = (param?: ExtractedParameter): string => {
+      if (param?.source === 'rule') {
+        return `📏 (rule: ${param.rule})`;
+      }
+      if (param?.source === 'default') {
+        return '🔧';
+      }
+      return param && param.confidence >= 0.6 ? '🤖' : '💬';
+    };
+
     console.log('\n📋 Issue Summary:');
     console.log('══════════════════════════════════════');
     
     if (state.issueData.project) {
-      const source = state.extractedParameters?.project?.source === 'default' ? '🔧' :
-                     state.extractedParameters?.project?.confidence >= 0.6 ? '🤖' : '💬';
-      console.log(`📂 Project: ${state.issueData.project} ${source}`);
+      console.log(`📂 Project: ${state.issueData.project} ${sourceOf(params?.project)}`);
     }
     
     if (state.issueData.issueType) {
-      const source = state.extractedParameters?.type?.source === 'default' ? '🔧' :
-                     state.extractedParameters?.type?.confidence >= 0.6 ? '🤖' : '💬';
-      console.log(`🏷️  Type: ${state.issueData.issueType} ${source}`);
+      console.log(`🏷️  Type: ${state.issueData.issueType} ${sourceOf(params?.type)}`);
     }
     
     if (state.issueData.title) {
-      const source = state.extractedParameters?.title?.confidence >= 0.6 ? '🤖' : '💬';
-      console.log(`📝 Title: ${state.issueData.title} ${source}`);
+      console.log(`📝 Title: ${state.issueData.title} ${sourceOf(params?.title)}`);
     }
     
     if (state.issueData.priority) {
-      const source = state.extractedParameters?.priority?.source === 'default' ? '🔧' :
-                     state.extractedParameters?.priority?.confidence >= 0.6 ? '🤖' : '💬';
-      console.log(`⚡ Priority: ${state.issueData.priority} ${source}`);
+      console.log(`⚡ Priority: ${state.issueData.priority} ${sourceOf(params?.priority)}`);
     }
     
     if (state.issueData.description) {
-      const source = state.extractedParameters?.description?.confidence >= 0.6 ? '🤖' : '💬';
       const truncated = state.issueData.description.length > 100 
         ? state.issueData.description.substring(0, 100) + '...' 
         : state.issueData.description;
-      console.log(`📄 Description: ${truncated} ${source}`);
+      console.log(`📄 Description: ${truncated} ${sourceOf(params?.description)}`);
+    }
+
+    if (state.issueData.template) {
+      console.log(`📑 Template: ${state.issueData.template}`);
+      for (const line of describeSections(state.issueData)) {
+        console.log(`   ${line}`);
+      }
+    }
+
+    const preview = previewDescription(state.issueData);
+    if (preview.length > 0) {
+      console.log(`📐 Description as Jira will show it (${WORKSPACE_CONFIG.descriptionFormat}):`);
+      for (const line of preview) {
+        console.log(`   │ ${line}`);
+      }
+    }
+
+    for (const [label, value] of describeExtendedFields(state.issueData)) {
+      console.log(`➕ ${label}: ${value}`);
+    }
+
+    for (const link of describeLinks(state.issueData.links)) {
+      console.log(`🔗 Link: ${link}`);
+    }
+
+    for (const attachment of describeAttachments(state.issueData.attachments)) {
+      console.log(`📎 Attachment: ${attachment}`);
     }
     
     console.log('══════════════════════════════════════');
-    console.log('🤖 = AI extracted, 🔧 = Default value, 💬 = Follow-up question');
+    console.log('🤖 = AI extracted, 🔧 = Default value, 📏 = Workspace rule, 💬 = Follow-up question');
   }
 
-  formatSuccessMessage(result: any, issueData: any): string {
-    return `✅ Perfect! I've successfully created your Jira issue with key ${result.key || 'N/A'}. The issue "${result.summary || issueData.title}" has been added to your ${result.project || issueData.project} project. You can view it at the link provided above. Is there anything else you'd like me to help you with?`;
+  displayUpdateDiff(request: IssueUpdateRequest): void {
+    const current = request.current;
+    const fields: Array<{ label: string; before?: string; after?: string }> = [
+      { label: '📝 Title', before: current?.summary, after: request.changes.title },
+      { label: '🏷️  Type', before: current?.issueType, after: request.changes.issueType },
+      { label: '⚡ Priority', before: current?.priority, after: request.changes.priority },
+      { label: '📄 Description', before: current?.description, after: request.changes.description },
+      { label: '👤 Assignee', before: current?.assignee, after: request.changes.assignee },
+      { label: '📣 Reporter', before: current?.reporter, after: request.changes.reporter }
+    ];
+
+    console.log(`\n✏️  Proposed changes to ${request.issueKey}:`);
+    console.log('══════════════════════════════════════');
+
+    for (const field of fields) {
+      if (field.after === undefined) {
+        continue;
+      }
+      const before = this.truncate(field.before || '(empty)', 100);
+      const after = this.truncate(field.after || '(empty)', 100);
+      if (before === after) {
+        console.log(`${field.label}: ${after} (unchanged)`);
+      } else {
+        console.log(`${field.label}: ${before} → ${after}`);
+      }
+    }
+
+    console.log('══════════════════════════════════════');
   }
 
-  formatErrorMessage(result: any): string {
-    return `❌ I encountered an issue while creating your Jira ticket. The error was: ${result.error || result.response || 'Unknown error'}. Would you like to try again?`;
+  // Accepts a number from the list, a unique part of a name or email, "none" or "cancel"
+  private handleUserChoice(userInput: string, state: ConversationState): ConversationResult {
+    const choice = state.pendingUserChoice!;
+    const answer = userInput.trim().toLowerCase();
+    const target = choice.resumeAction === 'update_issue' ? state.pendingUpdate?.changes : state.issueData;
+
+    if (!target || answer === 'cancel') {
+      state.pendingUserChoice = undefined;
+      state.pendingUpdate = undefined;
+      this.resetConversationState(state);
+      return { action: 'cancel', message: "No problem, I've cancelled that." };
+    }
+
+    if (['none', 'skip', 'nobody', 'no one'].includes(answer)) {
+      state.pendingUserChoice = undefined;
+      target[choice.field] = undefined;
+      console.log(`👤 Leaving ${choice.field} empty`);
+      return { action: choice.resumeAction };
+    }
+
+    const index = parseInt(answer, 10);
+    const byNumber = !isNaN(index) && index >= 1 && index <= choice.candidates.length ? [choice.candidates[index - 1]] : [];
+    const byName = choice.candidates.filter(user =>
+      user.displayName.toLowerCase().includes(answer) || (user.emailAddress || '').toLowerCase().includes(answer)
+    );
+    const picked = byNumber.length === 1 ? byNumber : byName;
+
+    if (picked.length !== 1) {
+      return {
+        action: 'continue',
+        message: `Please pick one of the users above by number (1-${choice.candidates.length}), say "none" to leave the ${choice.field} empty, or "cancel".`
+      };
+    }
+
+    const user = picked[0];
+    state.pendingUserChoice = undefined;
+    if (choice.field === 'assignee') {
+      target.assignee = user.displayName;
+      target.assigneeId = user.accountId;
+    } else {
+      target.reporter = user.displayName;
+      target.reporterId = user.accountId;
+    }
+    console.log(`👤 ${choice.field} set to ${user.displayName}`);
+    return { action: choice.resumeAction };
+  }
+
+  formatUserChoicePrompt(choice: PendingUserChoice): string {
+    const lines = choice.candidates.map((user, i) => `   ${i + 1}. ${this.describeUser(user)}`);
+    return `"${choice.query}" matches more than one person. Who should be the ${choice.field}?\n${lines.join('\n')}\n(Reply with a number, "none" to leave it empty, or "cancel".)`;
+  }
+
+  private describeUser(user: JiraUser): string {
+    return user.emailAddress ? `${user.displayName} <${user.emailAddress}>` : user.displayName;
+  }
+
+  private truncate(text: string, maxLength: number): string {
+    return text.length > maxLength ? text.substring(0, maxLength) + '...' : text;
+  }
+
+  formatSuccessMessage(result: CreatedIssue, issueData: IssueData): string {
+    const { issue } = result;
+    const failedLinks = (result.links || []).filter(linkResult => !linkResult.success);
+    const linkNote = failedLinks.length > 0
+      ? ` However, I couldn't create ${failedLinks.length === 1 ? 'this link' : 'these links'}: ${failedLinks.map(l => `${l.link.relation} ${l.link.issueKey}`).join(', ')}.`
+      : '';
+    // Failed uploads are reported on their own: the issue itself was created
+    const failedUploads = (result.attachments || []).filter(upload => !upload.success);
+    const attachmentNote = failedUploads.length > 0
+      ? ` ${failedUploads.length === 1 ? 'One attachment' : `${failedUploads.length} attachments`} failed to upload (${failedUploads.map(upload => upload.attachment.name).join(', ')}); you can add ${failedUploads.length === 1 ? 'it' : 'them'} in Jira.`
+      : '';
+    if (result.recovered) {
+      return `✅ ${issue.key} already existed: an earlier attempt created "${issue.summary || issueData.title}" but didn't report back, so I didn't create a duplicate.${linkNote}${attachmentNote} You can view it at the link provided above.`;
+    }
+    return `✅ Perfect! I've successfully created your Jira issue with key ${issue.key || 'N/A'}. The issue "${issue.summary || issueData.title}" has been added to your ${issue.project || issueData.project} project.${linkNote}${attachmentNote} You can view it at the link provided above. Is there anything else you'd like me to help you with?`;
+  }
+
+  // Worded by error kind: a rejected field can be fixed and retried, an expired token can't
+  formatErrorMessage(result: JiraFailure): string {
+    const { error } = result;
+    const next = error.kind === 'validation' ? 'Fix that and ask me again.'
+      : error.kind === 'auth' || error.kind === 'permission' ? 'This needs fixing in Jira or Zapier before I can create it.'
+      : 'Would you like to try again?';
+    return `❌ I couldn't create your Jira ticket. ${describeJiraError(error)} ${next}`;
   }
 
-  displayCreationDetails(issueData: any): void {
+  displayCreationDetails(issueData: IssueData): void {
     console.log('🚀 Creating Jira issue with collected information...');
     console.log('📋 Issue Details:');
     console.log(`   Project: ${issueData.project}`);
@@ -420,57 +1305,109 @@ export class ConversationManager {
     if (issueData.description) {
       console.log(`   Description: ${issueData.description.substring(0, 100)}${issueData.description.length > 100 ? '...' : ''}`);
     }
+    for (const line of describeSections(issueData)) {
+      console.log(`   ${line}`);
+    }
+    for (const [label, value] of describeExtendedFields(issueData)) {
+      console.log(`   ${label}: ${value}`);
+    }
+    for (const link of describeLinks(issueData.links)) {
+      console.log(`   Link: ${link}`);
+    }
+    for (const attachment of describeAttachments(issueData.attachments)) {
+      console.log(`   Attachment: ${attachment}`);
+    }
     console.log('');
   }
 
-  displaySuccessResult(result: any): void {
-    console.log('🎉 SUCCESS! Jira issue has been created!');
+  displaySuccessResult(result: CreatedIssue): void {
+    const { issue } = result;
+    console.log(result.recovered
+      ? '♻️  Jira issue already exists: an earlier attempt created it without reporting back'
+      : '🎉 SUCCESS! Jira issue has been created!');
     console.log('═'.repeat(50));
     
-    if (result.key) {
-      console.log(`📝 Issue Key: ${result.key}`);
+    if (issue.key) {
+      console.log(`📝 Issue Key: ${issue.key}`);
     }
     
     if (result.url) {
       console.log(`🔗 Issue Link: ${result.url}`);
     }
     
-    if (result.project) {
-      console.log(`📂 Project: ${result.project}`);
+    if (issue.project) {
+      console.log(`📂 Project: ${issue.project}`);
     }
     
-    if (result.summary) {
-      console.log(`📋 Summary: ${result.summary}`);
+    if (issue.summary) {
+      console.log(`📋 Summary: ${issue.summary}`);
     }
     
-    if (result.issueType) {
-      console.log(`🏷️  Type: ${result.issueType}`);
+    if (issue.issueType) {
+      console.log(`🏷️  Type: ${issue.issueType}`);
     }
     
-    if (result.priority) {
-      console.log(`⚡ Priority: ${result.priority}`);
+    if (issue.priority) {
+      console.log(`⚡ Priority: ${issue.priority}`);
     }
     
-    if (result.status) {
-      console.log(`📊 Status: ${result.status}`);
+    if (issue.status) {
+      console.log(`📊 Status: ${issue.status}`);
+    }
+
+    if (result.links && result.links.length > 0) {
+      console.log('🔗 Links:');
+      for (const linkResult of result.links) {
+        const { relation, issueKey } = linkResult.link;
+        console.log(linkResult.success
+          ? `   ✅ ${relation} ${issueKey}`
+          : `   ❌ ${relation} ${issueKey} (${linkResult.error || 'failed'})`);
+      }
+    }
+
+    if (result.attachments && result.attachments.length > 0) {
+      console.log('📎 Attachments:');
+      for (const upload of result.attachments) {
+        console.log(upload.success
+          ? `   ✅ ${upload.attachment.name}`
+          : `   ❌ ${upload.attachment.name} (${upload.error || 'upload failed'})`);
+      }
     }
     
     console.log('═'.repeat(50));
-    console.log(`✨ ${result.response}`);
+    console.log(result.recovered
+      ? `✨ ${issue.key} was already created by an earlier attempt that didn't report back, so no duplicate was made`
+      : `✨ Issue ${issue.key || '(key not reported)'} created successfully`);
   }
 
-  displayFailureResult(result: any): void {
+  displayUpdateResult(issueKey: string, result: UpdateIssueResult): void {
+    if (result.ok === false) {
+      const { error } = result;
+      console.log(`❌ FAILED: ${issueKey} was not updated`);
+      console.log(`💥 Error (${error.kind.replace('_', ' ')}${error.status ? `, HTTP ${error.status}` : ''}): ${error.message}`);
+      for (const [field, problem] of Object.entries(error.fields || {})) {
+        console.log(`   • ${field}: ${problem}`);
+      }
+      return;
+    }
+
+    console.log(`🎉 SUCCESS! ${result.key} has been updated!`);
+    if (result.url) {
+      console.log(`🔗 Issue Link: ${result.url}`);
+    }
+  }
+
+  displayFailureResult(result: JiraFailure): void {
+    const { error } = result;
     console.log('❌ FAILED: Issue creation was not successful');
     console.log('═'.repeat(50));
-    
-    if (result.error) {
-      console.log(`💥 Error: ${result.error}`);
+    console.log(`💥 Error (${error.kind.replace('_', ' ')}${error.status ? `, HTTP ${error.status}` : ''}): ${error.message}`);
+    for (const [field, problem] of Object.entries(error.fields || {})) {
+      console.log(`   • ${field}: ${problem}`);
     }
-    
-    if (result.response) {
-      console.log(`📄 Details: ${result.response}`);
+    if (error.retryAfterSeconds !== undefined) {
+      console.log(`⏳ Retry after ${error.retryAfterSeconds}s`);
     }
-    
     console.log('═'.repeat(50));
   }
 
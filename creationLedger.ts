@@ -0,0 +1,99 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash, randomBytes } from 'crypto';
+import { IssueData } from './types';
+import { composeDescription } from './issueFields';
+
+export interface CreationRecord {
+  fingerprint: string;
+  // Label put on the issue in Jira. New for every attempt that isn't a retry, so creating the same
+  // issue again on purpose doesn't find the first copy.
+  marker: string;
+  project: string;
+  summary: string;
+  // 'pending' until Jira confirms the issue; an attempt that timed out stays pending
+  status: 'pending' | 'created';
+  issueKey?: string;
+  attemptedAt: string;
+}
+
+// Same project, type, summary and description → same fingerprint, so re-entering an issue after a
+// failed attempt finds that attempt. Case and whitespace don't count.
+export function issueFingerprint(issueData: IssueData, projectKey: string): string {
+  const normalize = (text: string | undefined) => (text || '').toLowerCase().replace(/\s+/g, ' ').trim();
+  const content = [
+    projectKey.toUpperCase(),
+    normalize(issueData.issueType || 'Task'),
+    normalize(issueData.title),
+    normalize(composeDescription(issueData))
+  ].join('\n');
+  return createHash('sha256').update(content).digest('hex').substring(0, 12);
+}
+
+// Local record of creation attempts, kept in .jira-agent/ so a retry after a crash or timeout knows
+// to look in Jira first. Records older than ttlDays are dropped when the file is loaded.
+export class CreationLedger {
+  private records: Map<string, CreationRecord> | null = null;
+
+  constructor(private filePath: string, private ttlDays: number) {}
+
+  get(fingerprint: string): CreationRecord | undefined {
+    return this.load().get(fingerprint);
+  }
+
+  // Records an attempt and returns the marker label for it. A retry of a pending attempt keeps its marker.
+  begin(fingerprint: string, markerPrefix: string, project: string, summary: string): string {
+    const existing = this.load().get(fingerprint);
+    const marker = existing && existing.status === 'pending' ? existing.marker : `${markerPrefix}${randomBytes(5).toString('hex')}`;
+    this.load().set(fingerprint, { fingerprint, marker, project, summary, status: 'pending', attemptedAt: new Date().toISOString() });
+    this.save();
+    return marker;
+  }
+
+  complete(fingerprint: string, issueKey: string): void {
+    const record = this.load().get(fingerprint);
+    if (record) {
+      record.status = 'created';
+      record.issueKey = issueKey;
+      this.save();
+    }
+  }
+
+  // Jira said no, so nothing was created and there is nothing to look for next time
+  discard(fingerprint: string): void {
+    if (this.load().delete(fingerprint)) {
+      this.save();
+    }
+  }
+
+  private load(): Map<string, CreationRecord> {
+    if (this.records) {
+      return this.records;
+    }
+
+    this.records = new Map();
+    try {
+      if (fs.existsSync(this.filePath)) {
+        const cutoff = Date.now() - this.ttlDays * 24 * 60 * 60 * 1000;
+        const data = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+        for (const record of Array.isArray(data) ? data : []) {
+          if (record && record.fingerprint && record.marker && Date.parse(record.attemptedAt) >= cutoff) {
+            this.records.set(record.fingerprint, record);
+          }
+        }
+      }
+    } catch (error) {
+      console.warn(`⚠️  Ignoring unreadable creation ledger at ${this.filePath}:`, error);
+    }
+    return this.records;
+  }
+
+  private save(): void {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(this.filePath, JSON.stringify(Array.from(this.records!.values()), null, 2));
+    } catch (error) {
+      console.warn(`⚠️  Could not write creation ledger to ${this.filePath}:`, error);
+    }
+  }
+}
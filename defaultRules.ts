@@ -0,0 +1,88 @@
+import { ExtractedParameter, ExtractedParameters } from './aiParameterExtractor';
+import { ProjectRegistry } from './projectRegistry';
+import { DefaultRule } from './workspaceConfig';
+
+export interface RuleContext {
+  // Title and description collected after extraction (follow-up answers)
+  title?: string;
+  description?: string;
+}
+
+const SETTABLE_FIELDS: Array<{ field: keyof DefaultRule['set']; parameter: 'project' | 'type' | 'priority' }> = [
+  { field: 'project', parameter: 'project' },
+  { field: 'issueType', parameter: 'type' },
+  { field: 'priority', parameter: 'priority' }
+];
+
+// Context-dependent defaults, evaluated after AIParameterExtractor.validateExtractedParameters.
+// Rules only replace values that came from the global defaults (or an earlier rule);
+// anything the user said explicitly is left alone. The first matching rule wins for each field.
+export class DefaultRuleEngine {
+  constructor(
+    private rules: DefaultRule[] = [],
+    private projectRegistry: ProjectRegistry = new ProjectRegistry()
+  ) {}
+
+  apply(extracted: ExtractedParameters, context: RuleContext = {}): ExtractedParameters {
+    const result = { ...extracted };
+    const claimed = new Set<string>();
+
+    for (const rule of this.rules) {
+      if (!this.matches(rule, result, context)) {
+        continue;
+      }
+
+      for (const { field, parameter } of SETTABLE_FIELDS) {
+        const value = rule.set[field];
+        if (!value || claimed.has(parameter) || !this.isOverridable(result[parameter])) {
+          continue;
+        }
+
+        const resolved = field === 'project' ? this.projectRegistry.resolve(value)?.name || value : value;
+        claimed.add(parameter);
+        if (result[parameter].value !== resolved || result[parameter].rule !== rule.name) {
+          console.log(`📏 Rule "${rule.name}" set ${parameter}: ${resolved}`);
+        }
+        result[parameter] = { value: resolved, confidence: 1.0, source: 'rule', rule: rule.name };
+      }
+    }
+
+    return result;
+  }
+
+  private matches(rule: DefaultRule, extracted: ExtractedParameters, context: RuleContext): boolean {
+    const { project, keywords, type } = rule.when;
+
+    if (project !== undefined &&
+        (!extracted.project.value || !this.projectRegistry.matchesAny(Array.isArray(project) ? project : [project], extracted.project.value))) {
+      return false;
+    }
+
+    if (type !== undefined) {
+      const types = (Array.isArray(type) ? type : [type]).map(t => t.toLowerCase());
+      if (!extracted.type.value || !types.includes(extracted.type.value.toLowerCase())) {
+        return false;
+      }
+    }
+
+    if (keywords !== undefined) {
+      const text = [context.title || extracted.title.value, context.description || extracted.description.value]
+        .filter(Boolean)
+        .join(' ')
+        .toLowerCase();
+      if (!keywords.some(keyword => new RegExp(`\\b${this.escape(keyword.toLowerCase())}\\b`).test(text))) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  private isOverridable(parameter: ExtractedParameter): boolean {
+    return !parameter.value || parameter.source === 'default' || parameter.source === 'rule';
+  }
+
+  private escape(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
@@ -1,11 +1,17 @@
-import { JiraAgent } from './jiraAgent';
+import { ConfigValidationError } from './workspaceConfig';
 
 // Main execution
 async function main() {
   try {
+    // Imported here: the config is read while the agent's modules load, and its errors are reported below
+    const { JiraAgent } = await import('./jiraAgent');
     const agent = new JiraAgent();
     await agent.start();
   } catch (error) {
+    if (error instanceof ConfigValidationError) {
+      console.error(`❌ ${error.message}`);
+      process.exit(1);
+    }
     console.error('Failed to start the Jira Agent:', error);
     process.exit(1);
   }
@@ -1,6 +1,37 @@
-import { IssueData } from './types';
+import * as fs from 'fs';
+import { IssueData, IssueLink } from './types';
+import { ProjectRegistry } from './projectRegistry';
+import { hasKnownFileExtension, resolveAttachmentPath } from './attachments';
+
+// Link phrases → Jira link types; inward phrases come first so "is blocked by" wins over "blocks"
+const LINK_PHRASES: Array<{ pattern: string; relation: string; type: string; direction: 'outward' | 'inward' }> = [
+  { pattern: '(?:is\\s+)?blocked\\s+by', relation: 'is blocked by', type: 'Blocks', direction: 'inward' },
+  { pattern: 'blocks', relation: 'blocks', type: 'Blocks', direction: 'outward' },
+  { pattern: 'is\\s+duplicated\\s+by', relation: 'is duplicated by', type: 'Duplicate', direction: 'inward' },
+  { pattern: '(?:duplicates|(?:is\\s+)?(?:a\\s+)?duplicate\\s+of)', relation: 'duplicates', type: 'Duplicate', direction: 'outward' },
+  { pattern: 'is\\s+cloned\\s+by', relation: 'is cloned by', type: 'Cloners', direction: 'inward' },
+  { pattern: '(?:clones|(?:is\\s+)?(?:a\\s+)?clone\\s+of)', relation: 'clones', type: 'Cloners', direction: 'outward' },
+  { pattern: '(?:is\\s+)?caused\\s+by', relation: 'is caused by', type: 'Causes', direction: 'inward' },
+  { pattern: 'causes', relation: 'causes', type: 'Causes', direction: 'outward' },
+  { pattern: '(?:relates|(?:is\\s+)?related)\\s+to', relation: 'relates to', type: 'Relates', direction: 'outward' }
+];
+
+// Common workflow status names. "set ENG-5 to done" is a transition only when the target is one of
+// these; "set ENG-5 to High" stays a field update.
+const WORKFLOW_STATUS = '(?:to\\s*do|todo|open|backlog|selected for development|in progress|in development|doing|started|in review|code review|review|in qa|qa|testing|blocked|on hold|done|complete|completed|closed|resolved|reopened)';
+
+// Words for answering a yes/no question. A reply with any negative word is a no; a yes must be made
+// of nothing but these words plus the action's own verbs ("yes, post it")
+const NEGATIVE_WORDS = ['no', 'nope', 'nah', 'not', 'dont', 'cannot', 'cancel', 'stop', 'abort', 'never'];
+const AFFIRMATIVE_WORDS = ['yes', 'y', 'yep', 'yeah', 'sure', 'ok', 'okay', 'confirm', 'confirmed'];
+const FILLER_WORDS = ['please', 'it', 'them', 'that', 'go', 'ahead', 'do', 'thanks'];
 
 export class InformationExtractor {
+  private projectRegistry: ProjectRegistry;
+
+  constructor(projectRegistry: ProjectRegistry = new ProjectRegistry()) {
+    this.projectRegistry = projectRegistry;
+  }
 
   extractExplicitInformation(userInput: string): Partial<IssueData> {
     const extractedData: Partial<IssueData> = {};
@@ -74,92 +105,17 @@ export class InformationExtractor {
   }
 
   extractProjectFromResponse(userInput: string): string | null {
-    // IMPROVED: Enhanced project mapping to handle all 4 projects
-    const projectMapping: { [key: string]: string } = {
-      // Demo projects
-      'demo': 'FV Demo (Issues)',
-      'fvdemo': 'FV Demo (Issues)', 
-      'fv demo': 'FV Demo (Issues)',
-      'demo issues': 'FV Demo (Issues)',
-      'issues': 'FV Demo (Issues)',
-      'dpi': 'FV Demo (Issues)',
-      
-      // Demo product
-      'demo product': 'FV Demo (Product)',
-      'fv demo product': 'FV Demo (Product)',
-      'product demo': 'FV Demo (Product)',
-      'dpd': 'FV Demo (Product)',
-      
-      // Engineering
-      'engineering': 'FV Engineering',
-      'eng': 'FV Engineering',
-      'fv engineering': 'FV Engineering',
-      'fv eng': 'FV Engineering',
-      
-      // Product
-      'product': 'FV Product',
-      'fv product': 'FV Product',
-      'prod': 'FV Product'
-    };
-    
-    const lowerInput = userInput.toLowerCase().trim();
-    
-    // Check for mapped abbreviations first
-    for (const [key, value] of Object.entries(projectMapping)) {
-      if (lowerInput.includes(key)) {
-        console.log(`📂 Mapped "${key}" → "${value}"`);
-        return value;
-      }
+    // Names, keys and derived aliases of the projects loaded from Jira
+    const project = this.projectRegistry.resolve(userInput) || this.projectRegistry.findInText(userInput);
+    if (project) {
+      console.log(`📂 Mapped "${userInput.trim()}" → "${project.name}"`);
+      return project.name;
     }
-    
-    // Check for exact full project names (case-insensitive)
-    const fullProjectNames = [
-      'FV Product',
-      'FV Engineering', 
-      'FV Demo (Issues)',
-      'FV Demo (Product)'
-    ];
-    
-    for (const projectName of fullProjectNames) {
-      if (lowerInput.includes(projectName.toLowerCase())) {
-        console.log(`📂 Found exact match: "${projectName}"`);
-        return projectName;
-      }
-    }
-    
-    // Try partial matches for project names
-    if (lowerInput.includes('fv product') || lowerInput.includes('fanvoice product')) {
-      return 'FV Product';
-    }
-    if (lowerInput.includes('fv engineering') || lowerInput.includes('fanvoice engineering')) {
-      return 'FV Engineering';
-    }
-    if (lowerInput.includes('fv demo') && lowerInput.includes('product')) {
-      return 'FV Demo (Product)';
-    }
-    if (lowerInput.includes('fv demo') && (lowerInput.includes('issues') || !lowerInput.includes('product'))) {
-      return 'FV Demo (Issues)';
-    }
-    
-    // Fallback to original logic for other cases (project keys)
+
+    // Fallback for project keys the registry doesn't know yet
     const projectMatch = userInput.match(/\b([A-Z]+[A-Z0-9]*)\b/);
     if (projectMatch) {
-      const match = projectMatch[1].toUpperCase();
-      // Map known legacy project codes
-      const legacyMapping: { [key: string]: string } = {
-        'DEMO': 'FV Demo (Issues)',
-        'DPI': 'FV Demo (Issues)',
-        'DPD': 'FV Demo (Product)',
-        'ENG': 'FV Engineering',
-        'PROD': 'FV Product'
-      };
-      
-      if (legacyMapping[match]) {
-        console.log(`📂 Mapped legacy code "${match}" → "${legacyMapping[match]}"`);
-        return legacyMapping[match];
-      }
-      
-      return match;
+      return projectMatch[1].toUpperCase();
     }
     
     return null;
@@ -168,6 +124,8 @@ export class InformationExtractor {
   extractIssueTypeFromResponse(userInput: string): string | null {
     const lowerInput = userInput.toLowerCase();
     const typeMapping: { [key: string]: string } = {
+      'subtask': 'Subtask',
+      'sub-task': 'Subtask',
       'bug': 'Bug',
       'task': 'Task', 
       'story': 'Story',
@@ -233,6 +191,7 @@ export class InformationExtractor {
       case 'task': return 'Task';
       case 'story': return 'Story';
       case 'epic': return 'Epic';
+      case 'subtask': case 'sub-task': case 'sub task': return 'Subtask';
       default: return type.charAt(0).toUpperCase() + type.slice(1);
     }
   }
@@ -249,6 +208,20 @@ export class InformationExtractor {
     }
   }
 
+  // Answer to a yes/no question, or null when it is neither and the question should be asked again.
+  // Negatives are checked first, so "no, don't post it" is a no even though it says "post".
+  parseConfirmation(userInput: string, actionWords: string[] = []): 'yes' | 'no' | null {
+    const words = userInput.toLowerCase().replace(/n['’]t\b/g, ' not').match(/[a-z]+/g) || [];
+    if (words.some(word => NEGATIVE_WORDS.includes(word))) {
+      return 'no';
+    }
+
+    const yesWords = [...AFFIRMATIVE_WORDS, ...actionWords];
+    const isYes = words.some(word => yesWords.includes(word)) &&
+                  words.every(word => yesWords.includes(word) || FILLER_WORDS.includes(word));
+    return isYes ? 'yes' : null;
+  }
+
   detectsIssueCreationIntent(userInput: string): boolean {
     const lowerInput = userInput.toLowerCase();
     const creationKeywords = [
@@ -268,10 +241,293 @@ export class InformationExtractor {
     return hasCreationKeyword && hasIssueKeyword;
   }
 
+  // NEW: Pull the first issue key (e.g. ENG-123) out of the input
+  extractIssueKey(userInput: string): string | null {
+    const issueKeyMatch = userInput.match(/\b([A-Z][A-Z0-9]*-\d+)\b/);
+    return issueKeyMatch ? issueKeyMatch[1] : null;
+  }
+
+  // NEW: "show me ENG-42", "open ENG-42", "show ENG-42 comments", "what's ENG-42 about?", or just "ENG-42"
+  detectsViewIntent(userInput: string): boolean {
+    if (!this.extractIssueKey(userInput)) {
+      return false;
+    }
+
+    const key = '[A-Z][A-Z0-9]*-\\d+';
+    const viewPatterns = [
+      new RegExp(`^\\s*(?:please\\s+)?(?:(?:can|could)\\s+you\\s+)?(?:open|show|view|display|pull\\s+up|bring\\s+up|look\\s+up|get|describe)\\s+(?:me\\s+)?(?:the\\s+)?(?:(?:details|comments)\\s+(?:of|for|on)\\s+|(?:issue|ticket)\\s+)?${key}(?:\\s+(?:details|in\\s+detail|(?:with\\s+(?:the\\s+)?|and\\s+(?:its\\s+)?)?comments))?(?:\\s+please)?\\s*[.!?]?\\s*$`, 'i'),
+      new RegExp(`^\\s*(?:what(?:'s|\\s+is)\\s+|details\\s+(?:of|for|on)\\s+)?${key}(?:\\s+about)?\\s*[.!?]?\\s*$`, 'i')
+    ];
+
+    return viewPatterns.some(pattern => pattern.test(userInput));
+  }
+
+  detectsCommentIntent(userInput: string): boolean {
+    const lowerInput = userInput.toLowerCase();
+    return /\bcomment\b/.test(lowerInput) && this.extractIssueKey(userInput) !== null;
+  }
+
+  // NEW: Extract the issue key and comment text from a comment request
+  // e.g. "add a comment to ENG-88 saying repro'd on staging"
+  extractCommentRequest(userInput: string): { issueKey: string | null; body: string | null } {
+    const issueKey = this.extractIssueKey(userInput);
+
+    const bodyMatch =
+      userInput.match(/[A-Z][A-Z0-9]*-\d+\s*(?:saying|that says|with|:|-)\s*([\s\S]+)$/i) ||
+      userInput.match(/\bcomment\s+(?:saying|that says|of)\s+([\s\S]+?)\s+(?:to|on)\s+[A-Z][A-Z0-9]*-\d+\s*$/i) ||
+      userInput.match(/\bcomment\s*:\s*([\s\S]+)$/i) ||
+      userInput.match(/"([^"]+)"/);
+
+    const body = bodyMatch ? this.stripQuotes(bodyMatch[1]) : null;
+    return { issueKey, body: body || null };
+  }
+
+  detectsTransitionIntent(userInput: string): boolean {
+    if (!this.extractIssueKey(userInput)) {
+      return false;
+    }
+
+    const key = '[A-Z][A-Z0-9]*-\\d+';
+    const transitionPatterns = [
+      new RegExp(`\\b(?:move|transition|shift|push)\\s+${key}\\s+(?:to|into)\\b`, 'i'),
+      new RegExp(`\\bmark\\s+${key}\\s+as\\b`, 'i'),
+      new RegExp(`\\b(?:set|change|switch)\\s+${key}\\s+(?:back\\s+)?to\\s+(?:the\\s+)?["']?${WORKFLOW_STATUS}["']?(?:\\s+(?:status|column|state))?\\s*[.!]?\\s*$`, 'i'),
+      new RegExp(`\\bstatus\\s+(?:of\\s+${key}\\s+)?(?:to|=|:)`, 'i'),
+      new RegExp(`\\b(?:close|resolve|reopen|start|finish|complete)\\s+${key}\\b`, 'i')
+    ];
+
+    return transitionPatterns.some(pattern => pattern.test(userInput));
+  }
+
+  // NEW: Extract the issue key and target workflow state from a transition request
+  // e.g. "move ENG-42 to In Progress", "mark ENG-7 as done", "set ENG-5 to done", "close ENG-9"
+  extractTransitionRequest(userInput: string): { issueKey: string | null; targetStatus: string | null } {
+    const issueKey = this.extractIssueKey(userInput);
+    const key = '[A-Z][A-Z0-9]*-\\d+';
+
+    const targetMatch =
+      userInput.match(new RegExp(`\\b(?:move|transition|shift|push)\\s+${key}\\s+(?:to|into)\\s+(.+)$`, 'i')) ||
+      userInput.match(new RegExp(`\\bmark\\s+${key}\\s+as\\s+(.+)$`, 'i')) ||
+      userInput.match(new RegExp(`\\b(?:set|change|switch)\\s+${key}\\s+(?:back\\s+)?to\\s+((?:the\\s+)?["']?${WORKFLOW_STATUS}["']?(?:\\s+(?:status|column|state))?)\\s*[.!]?\\s*$`, 'i')) ||
+      userInput.match(/\bstatus\s+(?:of\s+[A-Z][A-Z0-9]*-\d+\s+)?(?:to|=|:)\s*(.+)$/i);
+
+    if (targetMatch) {
+      const targetStatus = this.stripQuotes(targetMatch[1].replace(/^(?:the\s+)?/i, '').replace(/\s+(?:status|column|state)$/i, '').replace(/[.!]+$/, ''));
+      return { issueKey, targetStatus: targetStatus || null };
+    }
+
+    const verbMatch = userInput.match(new RegExp(`\\b(close|resolve|reopen|start|finish|complete)\\s+${key}\\b`, 'i'));
+    if (verbMatch) {
+      const verbTargets: { [key: string]: string } = {
+        'close': 'Closed',
+        'resolve': 'Resolved',
+        'finish': 'Done',
+        'complete': 'Done',
+        'reopen': 'Reopen',
+        'start': 'In Progress'
+      };
+      return { issueKey, targetStatus: verbTargets[verbMatch[1].toLowerCase()] };
+    }
+
+    return { issueKey, targetStatus: null };
+  }
+
+  detectsUpdateIntent(userInput: string): boolean {
+    const lowerInput = userInput.toLowerCase();
+    const updateKeywords = [
+      'update', 'change', 'edit', 'set', 'bump', 'raise', 'lower', 'rename', 'modify', 'convert',
+      'assign', 'reassign'
+    ];
+
+    const hasUpdateKeyword = updateKeywords.some(keyword =>
+      new RegExp(`\\b${keyword}\\b`).test(lowerInput)
+    );
+
+    const makesTypeChange = /\bmake\s+[A-Z][A-Z0-9]*-\d+\s+(?:a|an)\s+(?:bug|task|story|epic)\b/i.test(userInput);
+
+    // "Create a sub-task of ENG-5 to update docs" mentions a key but creates a new issue
+    const createsNewIssue = /^\s*(?:please\s+)?(?:create|new|log|file|open|add|make)\s+(?!it\b|[A-Z][A-Z0-9]*-\d+)(?:a|an|new)?\s*(?:[\w-]+\s+){0,2}(?:bug|task|sub-?task|story|epic|issue|ticket)\b/i.test(userInput);
+
+    return (hasUpdateKeyword || makesTypeChange) && !createsNewIssue && this.extractIssueKey(userInput) !== null;
+  }
+
+  // NEW: Extract the issue key and requested field changes from an edit request
+  // e.g. "bump ENG-123 to High and change the title to X"
+  extractIssueUpdate(userInput: string): { issueKey: string | null; changes: Partial<IssueData> } {
+    const issueKey = this.extractIssueKey(userInput);
+    const changes: Partial<IssueData> = {};
+    const clauseEnd = `(?=\\s+and\\s+(?:change|set|update|make|bump|raise|lower|rename|assign|reassign)\\b|$)`;
+
+    // Title / summary
+    const titleMatch = userInput.match(new RegExp(`\\b(?:title|summary)(?:\\s+of\\s+[A-Z][A-Z0-9]*-\\d+)?\\s+(?:to|as|is|=|:)\\s*(.+?)${clauseEnd}`, 'i')) ||
+                       userInput.match(new RegExp(`\\brename\\s+(?:[A-Z][A-Z0-9]*-\\d+|it)\\s+(?:to|as)\\s+(.+?)${clauseEnd}`, 'i'));
+    if (titleMatch) {
+      changes.title = this.stripQuotes(titleMatch[1]);
+    }
+
+    // Description
+    const descriptionMatch = userInput.match(new RegExp(`\\bdescription(?:\\s+of\\s+[A-Z][A-Z0-9]*-\\d+)?\\s+(?:to|as|is|=|:)\\s*(.+?)${clauseEnd}`, 'i'));
+    if (descriptionMatch) {
+      changes.description = this.stripQuotes(descriptionMatch[1]);
+    }
+
+    // Issue type
+    const typeMatch = userInput.match(/\b(?:type|it|[A-Z][A-Z0-9]*-\d+)\s+(?:to|into)\s+(?:a\s+|an\s+)?(bug|task|story|epic)\b/i) ||
+                      userInput.match(/\bmake\s+(?:it|[A-Z][A-Z0-9]*-\d+)\s+(?:a|an)\s+(bug|task|story|epic)\b/i);
+    if (typeMatch) {
+      changes.issueType = this.normalizeIssueType(typeMatch[1]);
+    }
+
+    // Priority: "priority to High", "bump ENG-1 to High", "high priority"
+    const validPriorities = ['Lowest', 'Low', 'Medium', 'High', 'Highest'];
+    const priorityCandidates = [
+      userInput.match(/\bpriority\s+(?:to\s+|of\s+|=\s*|:\s*)?(very low|\w+)/i),
+      userInput.match(/\b(?:bump|raise|lower|drop|set)\s+(?:[A-Z][A-Z0-9]*-\d+|it)\s+to\s+(very low|\w+)/i),
+      userInput.match(/\b(lowest|low|medium|high|highest|critical|urgent)\s+priority\b/i)
+    ];
+    for (const match of priorityCandidates) {
+      if (match) {
+        const priority = this.normalizePriority(match[1]);
+        if (validPriorities.includes(priority)) {
+          changes.priority = priority;
+          break;
+        }
+      }
+    }
+
+    // People: "assign ENG-1 to Sam", "set the reporter of ENG-1 to priya@company.com"
+    const assigneeMatch = userInput.match(new RegExp(`\\b(?:re)?assign\\s+(?:[A-Z][A-Z0-9]*-\\d+|it)\\s+to\\s+(.+?)${clauseEnd}`, 'i')) ||
+                          userInput.match(new RegExp(`\\bassignee(?:\\s+of\\s+[A-Z][A-Z0-9]*-\\d+)?\\s+(?:to|as|is|=|:)\\s*(.+?)${clauseEnd}`, 'i'));
+    if (assigneeMatch) {
+      changes.assignee = this.stripQuotes(assigneeMatch[1]);
+    }
+
+    const reporterMatch = userInput.match(new RegExp(`\\breporter(?:\\s+of\\s+[A-Z][A-Z0-9]*-\\d+)?\\s+(?:to|as|is|=|:)\\s*(.+?)${clauseEnd}`, 'i'));
+    if (reporterMatch) {
+      changes.reporter = this.stripQuotes(reporterMatch[1]);
+    }
+
+    return { issueKey, changes };
+  }
+
+  // NEW: Parent and link phrases on a new issue
+  // e.g. "under epic ENG-5", "sub-task of DPI-3", "blocks ENG-12 and ENG-13", "duplicates DPI-9"
+  extractIssueRelations(userInput: string): { parent?: string; links: IssueLink[] } {
+    const key = '[A-Z][A-Z0-9]*-\\d+';
+    // Only phrasings that name the parent role: "for issue ENG-12" or "to ENG-12" is a mention, not a parent
+    const parentMatch = userInput.match(new RegExp(`\\b(?:under|in|into)\\s+(?:the\\s+)?(?:epic|parent|story)\\s+(${key})\\b`, 'i')) ||
+                        userInput.match(new RegExp(`\\b(?:sub-?\\s?task|child)\\s+of\\s+(?:epic\\s+)?(${key})\\b|\\bpart\\s+of\\s+(?:the\\s+)?epic\\s+(${key})\\b`, 'i')) ||
+                        userInput.match(new RegExp(`\\b(?:parent|epic)\\s*(?:is|=|:)\\s*(${key})\\b`, 'i'));
+    const parent = parentMatch ? (parentMatch[1] || parentMatch[2]).toUpperCase() : undefined;
+
+    const links: IssueLink[] = [];
+    let remaining = userInput;
+    for (const phrase of LINK_PHRASES) {
+      const pattern = new RegExp(`\\b${phrase.pattern}\\s+((?:${key})(?:\\s*(?:,|and|&)\\s*${key})*)`, 'gi');
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(remaining)) !== null) {
+        for (const issueKey of match[1].match(new RegExp(key, 'gi')) || []) {
+          links.push({ relation: phrase.relation, type: phrase.type, direction: phrase.direction, issueKey: issueKey.toUpperCase() });
+        }
+      }
+      // Blank out what matched so a later, looser phrase can't pick up the same keys
+      remaining = remaining.replace(pattern, match => ' '.repeat(match.length));
+    }
+
+    return { parent, links };
+  }
+
+  // NEW: Local files to attach, and the input with those phrases removed so they don't end up in the title
+  // e.g. "attach ./logs/error.log and screenshot.png", "with ~/Desktop/trace.txt attached", "attaching 'crash report.txt'"
+  extractAttachmentPaths(userInput: string): { paths: string[]; text: string } {
+    const token = `(?:"[^"]+"|'[^']+'|[^\\s,;"']+)`;
+    const list = `(${token}(?:\\s*(?:,|and|&)\\s*${token})*)`;
+    const patterns = [
+      new RegExp(`\\b(?:attach(?:ing)?|upload(?:ing)?)\\s+(?:the\\s+)?(?:(?:log|file|screenshot|trace)s?\\s+)?${list}`, 'gi'),
+      new RegExp(`\\bwith\\s+(?:the\\s+)?(?:(?:log|file|screenshot|trace)s?\\s+)?${list}\\s+attached\\b`, 'gi')
+    ];
+
+    const paths: string[] = [];
+    let text = userInput;
+    for (const pattern of patterns) {
+      text = text.replace(pattern, (phrase, listText: string) => {
+        // Take paths up to the first word that isn't one: "attach ./a.log and fix the login" keeps "and fix the login"
+        const tokens = new RegExp(`,|&|\\band\\b|${token}`, 'gi');
+        let consumed = phrase.length - listText.length;
+        let tokenMatch: RegExpExecArray | null;
+        const found: string[] = [];
+        while ((tokenMatch = tokens.exec(listText)) !== null) {
+          if (/^(?:,|&|and)$/i.test(tokenMatch[0])) {
+            continue;
+          }
+          const candidate = this.stripQuotes(tokenMatch[0]).replace(/[.,;:!?)]+$/, '');
+          if (!this.looksLikeFilePath(candidate)) {
+            break;
+          }
+          found.push(candidate);
+          consumed = phrase.length - listText.length + tokenMatch.index + tokenMatch[0].length;
+        }
+        if (found.length === 0) {
+          return phrase;
+        }
+        paths.push(...found.filter(candidate => !paths.includes(candidate)));
+        return ` ${phrase.substring(consumed)}`;
+      });
+    }
+
+    return { paths, text: text.replace(/\s{2,}/g, ' ').replace(/\s+([.,;!?])/g, '$1').replace(/[\s,;]+$/, '').trim() };
+  }
+
+  // A path separator or a known file extension; another dotted word ("v1.2") only when that file exists
+  private looksLikeFilePath(candidate: string): boolean {
+    if (/[\/\\]/.test(candidate) || hasKnownFileExtension(candidate)) {
+      return true;
+    }
+    return /\.[A-Za-z0-9]{1,8}$/.test(candidate) && fs.existsSync(resolveAttachmentPath(candidate));
+  }
+
+  private stripQuotes(value: string): string {
+    return value.trim().replace(/^["']|["']$/g, '').trim();
+  }
+
+  // NEW: "create an epic for SSO support", "break checkout v2 down into stories";
+  // "create an epic for X without stories" stays a single issue
+  detectsEpicBreakdownIntent(userInput: string): boolean {
+    const lowerInput = userInput.toLowerCase();
+    if (/\b(?:without|no)\s+(?:child\s+)?(?:stories|tasks|children|breakdown)\b|\bjust\s+(?:the|an?)\s+epic\b/.test(lowerInput)) {
+      return false;
+    }
+    return /\bepic\s+breakdown\b|\bbreak\b.*\b(?:down|up)\b.*\binto\b.*\b(?:stories|tasks|an?\s+epic)\b/.test(lowerInput) ||
+           /^\s*(?:please\s+)?(?:create|new|make|draft|plan|propose)\s+(?:an?\s+)?(?:new\s+)?epic\s+(?:for|to|about|covering|around)\b/.test(lowerInput);
+  }
+
+  // NEW: "bulk create", "create issues from retro.md", "import tickets from items.csv"
+  detectsBulkIntent(userInput: string): boolean {
+    const lowerInput = userInput.toLowerCase();
+    if (/\b(?:bulk|batch)\s+(?:create|import|add)\b|\b(?:bulk|batch)\s+mode\b/.test(lowerInput)) {
+      return true;
+    }
+    if (/\b(?:create|import|add|make)\s+(?:these|multiple|several|many|all)\s+(?:issues|tickets|tasks|items|bugs|stories)\b/.test(lowerInput)) {
+      return true;
+    }
+    // A file only counts when it is the source: "create issues from retro.md", "import items.csv"
+    const filePath = this.extractBulkFilePath(userInput);
+    return filePath !== null &&
+           new RegExp(`\\b(?:from|import|load)\\s+["']?${filePath.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`, 'i').test(userInput);
+  }
+
+  extractBulkFilePath(userInput: string): string | null {
+    const match = userInput.match(/(?:^|\s)["']?((?:[~.\/\w-]+\/)?[\w.-]+\.(?:csv|md|markdown|txt))["']?(?=\s|$)/i);
+    return match ? match[1] : null;
+  }
+
   detectsSearchIntent(userInput: string): boolean {
     const lowerInput = userInput.toLowerCase();
-    return (lowerInput.includes('search') || lowerInput.includes('find')) &&
-           (lowerInput.includes('issue') || lowerInput.includes('ticket'));
+    if (/^\s*(?:search\s+|find\s+)?jql\b/.test(lowerInput)) {
+      return true;
+    }
+    return /\b(?:search|find|show|list)\b/.test(lowerInput) &&
+           /\b(?:issues?|tickets?|bugs|tasks|stories|epics)\b/.test(lowerInput);
   }
 
   extractSearchQuery(userInput: string): string {
@@ -1,11 +1,19 @@
 import { ConversationState, IssueData, IssueCreationStep } from './types';
 import { InformationExtractor } from './informationExtractor';
+import { ProjectRegistry } from './projectRegistry';
+import { describeSections, TemplateRegistry } from './issueTemplates';
+import { previewDescription } from './issueFields';
+import { describeAttachments } from './attachments';
 
 export class IssueCreationFlow {
   private extractor: InformationExtractor;
+  private projectRegistry: ProjectRegistry;
+  private templates: TemplateRegistry;
 
-  constructor() {
-    this.extractor = new InformationExtractor();
+  constructor(projectRegistry: ProjectRegistry = new ProjectRegistry(), templates: TemplateRegistry = new TemplateRegistry([], projectRegistry)) {
+    this.projectRegistry = projectRegistry;
+    this.templates = templates;
+    this.extractor = new InformationExtractor(projectRegistry);
   }
 
   startIssueCreation(userInput: string, state: ConversationState): void {
@@ -19,6 +27,13 @@ export class IssueCreationFlow {
   }
 
   determineNextStep(state: ConversationState): IssueCreationStep {
+    // Template sections are asked right after the description they belong to
+    const hasDescription = !!state.issueData.description || state.hasAskedFor.has('description');
+    if (hasDescription && !state.issueData.template) {
+      this.applyTemplate(state);
+    }
+    const missingSection = hasDescription ? this.templates.missingSections(state.issueData, state.hasAskedFor)[0] : undefined;
+
     if (!state.issueData.project && !state.hasAskedFor.has('project')) {
       return IssueCreationStep.ASKING_PROJECT;
     } else if (!state.issueData.issueType && !state.hasAskedFor.has('type')) {
@@ -27,6 +42,9 @@ export class IssueCreationFlow {
       return IssueCreationStep.ASKING_TITLE;
     } else if (!state.issueData.description && !state.hasAskedFor.has('description')) {
       return IssueCreationStep.ASKING_DESCRIPTION;
+    } else if (missingSection) {
+      state.currentSection = missingSection.id;
+      return IssueCreationStep.ASKING_SECTION;
     } else if (!state.issueData.priority && !state.hasAskedFor.has('priority')) {
       return IssueCreationStep.ASKING_PRIORITY;
     } else if (this.hasAllRequiredData(state.issueData)) {
@@ -35,10 +53,13 @@ export class IssueCreationFlow {
     return IssueCreationStep.READY_TO_CREATE;
   }
 
-  getQuestionForStep(step: IssueCreationStep): string {
+  getQuestionForStep(step: IssueCreationStep, state?: ConversationState): string {
     switch (step) {
       case IssueCreationStep.ASKING_PROJECT:
-        return "I'll help you create a Jira issue! First, which project should this issue be created in? Please choose from: FV Product, FV Engineering, FV Demo (Issues), or FV Demo (Product). You can also just say 'demo' for FV Demo (Issues).";
+        const projectNames = this.projectRegistry.getProjectNames();
+        return projectNames.length > 0
+          ? `I'll help you create a Jira issue! First, which project should this issue be created in? Please choose from: ${projectNames.join(', ')}. Short names and project keys work too.`
+          : "I'll help you create a Jira issue! First, which project should this issue be created in? Please give the project name or key.";
       
       case IssueCreationStep.ASKING_TYPE:
         return "What type of issue would you like to create? Please choose from: Bug, Task, Story, or Epic.";
@@ -49,6 +70,11 @@ export class IssueCreationFlow {
       case IssueCreationStep.ASKING_DESCRIPTION:
         return "Please provide a description for this issue. Include any relevant details, steps to reproduce (for bugs), or requirements (for features). You can also say 'skip' if you don't want to add a description.";
       
+      case IssueCreationStep.ASKING_SECTION: {
+        const section = state ? this.templates.getSection(state.issueData, state.currentSection) : null;
+        return section ? `${section.question} (or say 'skip')` : "Is there anything else the description should include? (or say 'skip')";
+      }
+
       case IssueCreationStep.ASKING_PRIORITY:
         return "What priority should this issue have? Please choose from: Lowest, Low, Medium, High, or Highest. (Note: Priority may not apply to all issue types in your Jira configuration)";
       
@@ -77,6 +103,9 @@ export class IssueCreationFlow {
       
       case IssueCreationStep.ASKING_DESCRIPTION:
         return this.handleDescriptionResponse(userInput, state);
+
+      case IssueCreationStep.ASKING_SECTION:
+        return this.handleSectionResponse(userInput, state);
       
       case IssueCreationStep.ASKING_PRIORITY:
         return this.handlePriorityResponse(userInput, state);
@@ -144,6 +173,28 @@ export class IssueCreationFlow {
     return { success: true };
   }
 
+  // Labelled parts of the description ("Expected: ...") fill the template; the rest stays as the lead
+  private applyTemplate(state: ConversationState): void {
+    const template = this.templates.find(state.issueData);
+    if (!template) {
+      return;
+    }
+
+    const parsed = this.templates.parseSections(state.issueData.description || '', template);
+    this.templates.apply(state.issueData, template, parsed.sections);
+    state.issueData.description = parsed.summary || '';
+    console.log(`📑 Using the "${template.name}" description template`);
+  }
+
+  private handleSectionResponse(userInput: string, state: ConversationState): { success: boolean; errorMessage?: string } {
+    const content = this.extractor.extractDescriptionFromResponse(userInput);
+    if (state.currentSection) {
+      this.templates.setSection(state.issueData, state.currentSection, content);
+      console.log(`📑 Section "${state.currentSection}" ${content ? 'added' : 'skipped'}`);
+    }
+    return { success: true };
+  }
+
   private handlePriorityResponse(userInput: string, state: ConversationState): { success: boolean; errorMessage?: string } {
     const priority = this.extractor.extractPriorityFromResponse(userInput);
     if (priority) {
@@ -191,6 +242,22 @@ export class IssueCreationFlow {
     if (issueData.description) {
       console.log(`📄 Description: ${issueData.description.substring(0, 100)}${issueData.description.length > 100 ? '...' : ''}`);
     }
+    if (issueData.template) {
+      console.log(`📑 Template: ${issueData.template}`);
+      for (const line of describeSections(issueData)) {
+        console.log(`   ${line}`);
+      }
+    }
+    const preview = previewDescription(issueData);
+    if (preview.length > 0) {
+      console.log('📐 Description as Jira will show it:');
+      for (const line of preview) {
+        console.log(`   │ ${line}`);
+      }
+    }
+    for (const attachment of describeAttachments(issueData.attachments)) {
+      console.log(`📎 Attachment: ${attachment}`);
+    }
     console.log('══════════════════════════════════════');
   }
 
@@ -208,6 +275,9 @@ export class IssueCreationFlow {
     state.extractedParameters = undefined;
     state.missingParameters = undefined;
     state.pendingValidation?.clear();
+    state.duplicateCheck = undefined;
+    state.pendingUserChoice = undefined;
+    state.currentSection = undefined;
     console.log('🔄 Ready for next operation\n');
   }
 }
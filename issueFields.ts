@@ -0,0 +1,75 @@
+import { EditableField, IssueData, IssueLink, ListField } from './types';
+import { sectionsToMarkdown } from './issueTemplates';
+import { attachmentsToMarkdown } from './attachments';
+import { isPlainText, previewMarkdown } from './markdown';
+
+// Optional fields beyond project/type/title/description/priority, as label/value pairs
+// for confirmation summaries and Zapier instructions. Empty fields are skipped.
+// Links are not included: they are created separately once the issue exists.
+export function describeExtendedFields(issueData: IssueData): Array<[string, string]> {
+  const fields: Array<[string, string]> = [];
+
+  if (issueData.parent) {
+    fields.push(['Parent', issueData.parent]);
+  }
+
+  if (issueData.labels && issueData.labels.length > 0) {
+    fields.push(['Labels', issueData.labels.join(', ')]);
+  }
+  if (issueData.components && issueData.components.length > 0) {
+    fields.push(['Components', issueData.components.join(', ')]);
+  }
+  if (issueData.assignee) {
+    fields.push(['Assignee', issueData.assignee]);
+  }
+  if (issueData.reporter) {
+    fields.push(['Reporter', issueData.reporter]);
+  }
+  if (issueData.fixVersions && issueData.fixVersions.length > 0) {
+    fields.push(['Fix Versions', issueData.fixVersions.join(', ')]);
+  }
+  if (issueData.dueDate) {
+    fields.push(['Due Date', issueData.dueDate]);
+  }
+  if (issueData.storyPoints !== undefined) {
+    fields.push(['Story Points', String(issueData.storyPoints)]);
+  }
+  if (issueData.customFields) {
+    for (const [name, value] of Object.entries(issueData.customFields)) {
+      fields.push([name, value]);
+    }
+  }
+
+  return fields;
+}
+
+// Full description as Markdown: the free text, then template sections, any acceptance criteria
+// and inline attachments. ZapierService converts it to the workspace's description format.
+export function composeDescription(issueData: IssueData): string | undefined {
+  const sections = [...(issueData.sections || [])];
+  const criteria = issueData.acceptanceCriteria || [];
+  if (criteria.length > 0) {
+    sections.push({ id: 'acceptanceCriteria', heading: 'Acceptance Criteria', style: 'bulleted', content: criteria.join('\n') });
+  }
+
+  const body = sectionsToMarkdown(issueData.description, sections);
+  const attachments = attachmentsToMarkdown(issueData.attachments);
+  return attachments ? [body, attachments].filter(Boolean).join('\n\n') : body;
+}
+
+// Outline of the description as Jira will render it; empty when it is a single plain paragraph
+export function previewDescription(issueData: IssueData): string[] {
+  const markdown = composeDescription(issueData);
+  return markdown && !isPlainText(markdown) ? previewMarkdown(markdown) : [];
+}
+
+const LIST_FIELDS: EditableField[] = ['labels', 'components', 'fixVersions', 'acceptanceCriteria'];
+
+export function isListField(field: EditableField): field is ListField {
+  return LIST_FIELDS.includes(field);
+}
+
+// "blocks ENG-12" style lines, as shown on the new issue
+export function describeLinks(links: IssueLink[] = []): string[] {
+  return links.map(link => `${link.relation} ${link.issueKey}`);
+}
@@ -0,0 +1,258 @@
+import { DescriptionSection, IssueData } from './types';
+import { ProjectRegistry } from './projectRegistry';
+import { IssueTemplate, TemplateSection } from './workspaceConfig';
+
+// Sections found in free text, plus whatever came before the first section label
+export interface TemplateExtraction {
+  summary: string | null;
+  sections: { [sectionId: string]: string };
+}
+
+export const BUILT_IN_TEMPLATES: IssueTemplate[] = [
+  {
+    name: 'bug-report',
+    when: { type: 'Bug' },
+    sections: [
+      {
+        id: 'stepsToReproduce',
+        heading: 'Steps to Reproduce',
+        question: 'What are the steps to reproduce it? One step per line is easiest.',
+        style: 'numbered',
+        aliases: ['steps', 'repro steps', 'repro', 'to reproduce', 'how to reproduce']
+      },
+      {
+        id: 'expected',
+        heading: 'Expected',
+        question: 'What did you expect to happen?',
+        aliases: ['expected result', 'expected behavior', 'expected behaviour', 'expectation']
+      },
+      {
+        id: 'actual',
+        heading: 'Actual',
+        question: 'What happened instead?',
+        aliases: ['actual result', 'actual behavior', 'actual behaviour', 'instead', 'observed']
+      },
+      {
+        id: 'environment',
+        heading: 'Environment',
+        question: 'Which environment is this in (browser, OS, app version, staging/production)?',
+        aliases: ['env', 'browser', 'platform', 'version']
+      }
+    ]
+  },
+  {
+    name: 'user-story',
+    when: { type: 'Story' },
+    sections: [
+      { id: 'asA', heading: 'As a', question: 'Who is this story for? (As a ...)', style: 'inline', aliases: ['persona', 'user'] },
+      { id: 'iWant', heading: 'I want', question: 'What do they want to do? (I want ...)', style: 'inline', aliases: ['i want to', 'want'] },
+      { id: 'soThat', heading: 'So that', question: 'Why do they want it? (So that ...)', style: 'inline', aliases: ['benefit', 'goal'] },
+      {
+        id: 'acceptanceCriteria',
+        heading: 'Acceptance Criteria',
+        question: 'What are the acceptance criteria? Put each one on its own line or separate them with semicolons.',
+        style: 'bulleted',
+        aliases: ['ac', 'criteria', 'acceptance']
+      }
+    ]
+  },
+  {
+    name: 'spike',
+    when: { type: 'Task', keywords: ['spike', 'investigate', 'investigation', 'research', 'explore', 'evaluate'] },
+    sections: [
+      { id: 'question', heading: 'Question', question: 'What question should this spike answer?', aliases: ['goal', 'problem'] },
+      { id: 'timebox', heading: 'Timebox', question: 'How long is the timebox (e.g. 2 days)?', style: 'inline', aliases: ['time box', 'time limit'] },
+      { id: 'approach', heading: 'Approach', question: 'How will you approach it?', optional: true, aliases: ['plan'] },
+      {
+        id: 'outcome',
+        heading: 'Expected Outcome',
+        question: 'What should the spike produce (a recommendation, a prototype, a design doc)?',
+        aliases: ['outcome', 'deliverable', 'deliverables', 'output']
+      }
+    ]
+  }
+];
+
+// Description templates keyed by issue type, project and keywords. Workspace templates are
+// checked first; one with the same name as a built-in replaces it.
+export class TemplateRegistry {
+  private templates: IssueTemplate[];
+
+  constructor(
+    customTemplates: IssueTemplate[] = [],
+    private projectRegistry: ProjectRegistry = new ProjectRegistry()
+  ) {
+    const customNames = new Set(customTemplates.map(template => template.name));
+    this.templates = [...customTemplates, ...BUILT_IN_TEMPLATES.filter(template => !customNames.has(template.name))];
+  }
+
+  get(name: string | undefined): IssueTemplate | null {
+    return this.templates.find(template => template.name === name) || null;
+  }
+
+  // First template whose conditions all match the issue
+  find(issueData: IssueData): IssueTemplate | null {
+    return this.templates.find(template => this.matches(template, issueData)) || null;
+  }
+
+  getSection(issueData: IssueData, sectionId: string | undefined): TemplateSection | null {
+    return this.get(issueData.template)?.sections.find(section => section.id === sectionId) || null;
+  }
+
+  // Starts the template on an issue; acceptance criteria already on the issue fill a matching section
+  apply(issueData: IssueData, template: IssueTemplate, values: { [sectionId: string]: string }): void {
+    issueData.template = template.name;
+    issueData.sections = template.sections.map(section => ({
+      id: section.id,
+      heading: section.heading,
+      style: section.style || 'paragraph',
+      content: (values[section.id] || '').trim()
+    }));
+
+    const criteria = issueData.sections.find(section => section.id === 'acceptanceCriteria');
+    if (criteria && issueData.acceptanceCriteria && issueData.acceptanceCriteria.length > 0) {
+      if (!criteria.content) {
+        criteria.content = issueData.acceptanceCriteria.join('\n');
+      }
+      issueData.acceptanceCriteria = undefined;
+    }
+  }
+
+  setSection(issueData: IssueData, sectionId: string, content: string): void {
+    const section = (issueData.sections || []).find(s => s.id === sectionId);
+    if (section) {
+      section.content = content.trim();
+    }
+  }
+
+  // Required sections that are still empty and haven't been asked for ("section:<id>" in askedFor)
+  missingSections(issueData: IssueData, askedFor: Set<string>): TemplateSection[] {
+    const template = this.get(issueData.template);
+    if (!template) {
+      return [];
+    }
+
+    return template.sections.filter(section => {
+      const filled = (issueData.sections || []).find(s => s.id === section.id)?.content;
+      return !section.optional && !filled && !askedFor.has(`section:${section.id}`);
+    });
+  }
+
+  // Finds "Label:" markers (heading, id or alias) anywhere in the text, on their own line or inline:
+  //   "Login fails. Steps: open /login, submit. Expected: dashboard. Actual: 500"
+  parseSections(text: string, template: IssueTemplate): TemplateExtraction {
+    const labels: Array<{ id: string; label: string }> = [];
+    for (const section of template.sections) {
+      for (const label of [section.heading, section.id, ...(section.aliases || [])]) {
+        labels.push({ id: section.id, label });
+      }
+    }
+    // Longest first so "expected result" wins over "expected"
+    labels.sort((a, b) => b.label.length - a.label.length);
+
+    const alternation = labels.map(({ label }) => this.escape(label).replace(/\s+/g, '\\s+')).join('|');
+    const pattern = new RegExp(`(?:^|[\\s.;,(])(?:#+\\s*|\\*\\*|\\*)?(${alternation})(?:\\*\\*|\\*)?\\s*:`, 'gi');
+
+    const markers: Array<{ id: string; start: number; end: number }> = [];
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      const label = labels.find(({ label }) => new RegExp(`^${this.escape(label).replace(/\s+/g, '\\s+')}$`, 'i').test(match![1]));
+      if (label) {
+        markers.push({ id: label.id, start: match.index, end: match.index + match[0].length });
+      }
+    }
+
+    const sections: { [sectionId: string]: string } = {};
+    markers.forEach((marker, index) => {
+      const content = text.substring(marker.end, index + 1 < markers.length ? markers[index + 1].start : text.length).trim();
+      if (content && !sections[marker.id]) {
+        sections[marker.id] = content.replace(/[.;,]$/, '').trim();
+      }
+    });
+
+    const summary = text.substring(0, markers.length > 0 ? markers[0].start : text.length).trim();
+    return { summary: summary || null, sections };
+  }
+
+  private matches(template: IssueTemplate, issueData: IssueData): boolean {
+    const types = (Array.isArray(template.when.type) ? template.when.type : [template.when.type]).map(type => type.toLowerCase());
+    if (!issueData.issueType || !types.includes(issueData.issueType.toLowerCase())) {
+      return false;
+    }
+
+    const { project, keywords } = template.when;
+    if (project !== undefined &&
+        (!issueData.project || !this.projectRegistry.matchesAny(Array.isArray(project) ? project : [project], issueData.project))) {
+      return false;
+    }
+
+    if (keywords !== undefined) {
+      const text = [issueData.title, issueData.description].filter(Boolean).join(' ').toLowerCase();
+      if (!keywords.some(keyword => new RegExp(`\\b${this.escape(keyword.toLowerCase())}\\b`).test(text))) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  private escape(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
+
+// Summary lines for confirmations: "✓ Expected: Dashboard loads", "– Environment (skipped)"
+export function describeSections(issueData: IssueData): string[] {
+  return (issueData.sections || []).map(section => {
+    if (!section.content) {
+      return `– ${section.heading} (not provided)`;
+    }
+    const items = listItems(section.content);
+    const preview = section.style === 'numbered' || section.style === 'bulleted'
+      ? `${items.length} item${items.length === 1 ? '' : 's'}`
+      : section.content.replace(/\s+/g, ' ');
+    return `✓ ${section.heading}: ${preview.length > 80 ? `${preview.substring(0, 77)}...` : preview}`;
+  });
+}
+
+// A free-text lead plus template sections as Markdown, ready for markdown.ts to convert
+export function sectionsToMarkdown(lead: string | undefined, sections: DescriptionSection[]): string | undefined {
+  const filled = sections.filter(section => section.content.trim());
+  if (!lead && filled.length === 0) {
+    return undefined;
+  }
+
+  const blocks: string[] = lead ? [lead] : [];
+  let previousStyle: string | undefined;
+  for (const section of filled) {
+    const content = section.content.trim();
+    switch (section.style) {
+      case 'inline':
+        // Consecutive inline sections ("As a / I want / So that") share one paragraph, one per line
+        if (previousStyle === 'inline') {
+          blocks[blocks.length - 1] += `\n**${section.heading}** ${content}`;
+        } else {
+          blocks.push(`**${section.heading}** ${content}`);
+        }
+        break;
+      case 'numbered':
+        blocks.push(`### ${section.heading}\n\n${listItems(content).map((item, index) => `${index + 1}. ${item}`).join('\n')}`);
+        break;
+      case 'bulleted':
+        blocks.push(`### ${section.heading}\n\n${listItems(content).map(item => `- ${item}`).join('\n')}`);
+        break;
+      default:
+        blocks.push(`### ${section.heading}\n\n${content}`);
+    }
+    previousStyle = section.style;
+  }
+
+  return blocks.join('\n\n');
+}
+
+// One item per line, or per semicolon when everything is on one line; bullets and numbers are stripped
+function listItems(content: string): string[] {
+  const lines = content.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  const items = lines.length === 1 ? lines[0].split(/;\s*|\s+(?=\d+[.)]\s)/) : lines;
+  return items.map(item => item.replace(/^(?:[-*+•]|\d+[.)])\s+/, '').trim()).filter(Boolean);
+}
@@ -0,0 +1,237 @@
+import { JiraIssue } from './types';
+
+export interface IssueViewOptions {
+  // Total line width, border included; defaults to the terminal width
+  width?: number;
+  // Defaults to supportsColor()
+  color?: boolean;
+  maxDescriptionLines?: number;
+  maxComments?: number;
+  maxCommentLines?: number;
+}
+
+const ANSI = {
+  reset: '\x1b[0m',
+  bold: '\x1b[1m',
+  dim: '\x1b[2m',
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  yellow: '\x1b[33m',
+  blue: '\x1b[34m',
+  cyan: '\x1b[36m',
+  gray: '\x1b[90m'
+};
+
+type Style = keyof typeof ANSI;
+
+// Colors only on an interactive terminal, and never when NO_COLOR is set (https://no-color.org)
+export function supportsColor(stream: NodeJS.WriteStream = process.stdout): boolean {
+  return Boolean(stream.isTTY) && !('NO_COLOR' in process.env) && process.env.TERM !== 'dumb';
+}
+
+// Boxed detail view of one issue, as lines ready for console.log:
+//   ╭─ ENG-42 · Bug ──────────
+//   │ Checkout fails on Safari
+//   │ Status  In Progress   Priority  ▲ High   Assignee  Priya
+//   ...
+//   ╰─ https://acme.atlassian.net/browse/ENG-42
+export function renderIssueView(issue: JiraIssue, options: IssueViewOptions = {}): string[] {
+  const width = Math.max(40, Math.min(options.width || process.stdout.columns || 80, 120));
+  const color = options.color ?? supportsColor();
+  const paint = (text: string, ...styles: Style[]) =>
+    color && styles.length > 0 ? `${styles.map(style => ANSI[style]).join('')}${text}${ANSI.reset}` : text;
+  const inner = width - 2;
+
+  const lines: string[] = [];
+  const row = (text: string = '') => lines.push(text ? `${paint('│', 'gray')} ${text}` : paint('│', 'gray'));
+  const blank = () => row();
+  const heading = (text: string) => {
+    blank();
+    row(paint(text, 'bold', 'cyan'));
+  };
+
+  const title = ` ${issue.key}${issue.issueType ? ` · ${issue.issueType}` : ''} `;
+  lines.push(paint(`╭─${title}${'─'.repeat(Math.max(0, width - title.length - 2))}`, 'gray'));
+  for (const line of wrap(clean(issue.summary) || '(no summary)', inner)) {
+    row(paint(line, 'bold'));
+  }
+  blank();
+
+  // Label/value pairs packed onto as few lines as fit
+  const facts: Array<[string, string, Style[]]> = [
+    ['Status', issue.status || 'Unknown', statusStyles(issue.status)],
+    ['Priority', issue.priority ? `${priorityMarker(issue.priority)} ${issue.priority}` : 'None', priorityStyles(issue.priority)],
+    ['Assignee', issue.assignee || 'Unassigned', issue.assignee ? [] : ['dim']],
+    ['Reporter', issue.reporter || 'Unknown', issue.reporter ? [] : ['dim']],
+    ['Project', issue.project, []],
+    ['Parent', issue.parent || '', []],
+    ['Due', issue.dueDate || '', []],
+    ['Labels', (issue.labels || []).join(', '), []],
+    ['Components', (issue.components || []).join(', '), []],
+    ['Created', formatDate(issue.created), ['dim']],
+    ['Updated', formatDate(issue.updated), ['dim']]
+  ];
+  let factLine = '';
+  let factLength = 0;
+  for (const [label, value, styles] of facts.filter(([, value]) => value)) {
+    const text = truncate(clean(value), inner - label.length - 2);
+    const length = label.length + 2 + text.length;
+    if (factLength > 0 && factLength + 3 + length > inner) {
+      row(factLine);
+      factLine = '';
+      factLength = 0;
+    }
+    factLine += `${factLength > 0 ? '   ' : ''}${paint(label, 'gray')}  ${paint(text, ...styles)}`;
+    factLength += (factLength > 0 ? 3 : 0) + length;
+  }
+  if (factLength > 0) {
+    row(factLine);
+  }
+
+  heading('Description');
+  const description = clean(issue.description);
+  if (description) {
+    const descriptionLines = wrap(description, inner - 2);
+    const limit = options.maxDescriptionLines ?? 15;
+    for (const line of descriptionLines.slice(0, limit)) {
+      row(`  ${line}`);
+    }
+    if (descriptionLines.length > limit) {
+      row(paint(`  … ${descriptionLines.length - limit} more line${descriptionLines.length - limit === 1 ? '' : 's'}`, 'dim'));
+    }
+  } else {
+    row(paint('  No description', 'dim'));
+  }
+
+  if (issue.links && issue.links.length > 0) {
+    heading(`Links (${issue.links.length})`);
+    for (const link of issue.links) {
+      const status = link.status ? `  [${link.status}]` : '';
+      const prefix = `${link.relation} ${link.key}`;
+      const summary = link.summary ? truncate(clean(link.summary), inner - 2 - prefix.length - status.length - 2) : '';
+      row(`  ${paint(link.relation, 'gray')} ${paint(link.key, 'bold')}${summary ? `  ${summary}` : ''}${link.status ? paint(status, ...statusStyles(link.status)) : ''}`);
+    }
+  }
+
+  if (issue.comments) {
+    const maxComments = options.maxComments ?? 3;
+    const shown = issue.comments.slice(-maxComments);
+    heading(issue.comments.length > shown.length
+      ? `Comments (latest ${shown.length} of ${issue.comments.length})`
+      : `Comments (${issue.comments.length})`);
+    if (shown.length === 0) {
+      row(paint('  No comments', 'dim'));
+    }
+    shown.forEach((comment, index) => {
+      if (index > 0) {
+        blank();
+      }
+      row(`  ${paint(truncate(clean(comment.author), inner - 20), 'bold')} ${paint(`· ${formatDate(comment.created)}`, 'dim')}`);
+      const body = wrap(clean(comment.body), inner - 4);
+      const limit = options.maxCommentLines ?? 6;
+      for (const line of body.slice(0, limit)) {
+        row(`    ${line}`);
+      }
+      if (body.length > limit) {
+        row(paint(`    … ${body.length - limit} more line${body.length - limit === 1 ? '' : 's'}`, 'dim'));
+      }
+    });
+  }
+
+  lines.push(paint(`╰─${issue.url ? ` ${issue.url}` : '─'.repeat(Math.max(0, width - 2))}`, 'gray'));
+  return lines;
+}
+
+// Jira text can carry its own escape sequences and control characters; they would break the layout
+function clean(text: string | undefined): string {
+  return (text || '')
+    .replace(/\x1b\[[0-9;?]*[A-Za-z]/g, '')
+    .replace(/\r\n?/g, '\n')
+    .replace(/\t/g, '    ')
+    .replace(/[\x00-\x08\x0b-\x1f\x7f]/g, '')
+    .trim();
+}
+
+// Word wrap that keeps blank lines and indentation, and hard-breaks words longer than the width (URLs)
+function wrap(text: string, width: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    const indent = (paragraph.match(/^\s*/) || [''])[0].substring(0, Math.floor(width / 2));
+    const words = paragraph.trim().split(/\s+/).filter(Boolean);
+    if (words.length === 0) {
+      // Collapse runs of blank lines to one
+      if (lines.length > 0 && lines[lines.length - 1] !== '') {
+        lines.push('');
+      }
+      continue;
+    }
+
+    let line = indent;
+    for (let word of words) {
+      while (indent.length + word.length > width) {
+        if (line.trim()) {
+          lines.push(line);
+        }
+        lines.push(indent + word.substring(0, width - indent.length));
+        word = word.substring(width - indent.length);
+        line = indent;
+      }
+      if (line.trim() && line.length + 1 + word.length > width) {
+        lines.push(line);
+        line = indent;
+      }
+      line += line.trim() ? ` ${word}` : word;
+    }
+    if (line.trim()) {
+      lines.push(line);
+    }
+  }
+
+  while (lines.length > 0 && lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+function truncate(text: string, maxLength: number): string {
+  const singleLine = text.replace(/\s+/g, ' ');
+  if (maxLength <= 1) {
+    return '';
+  }
+  return singleLine.length > maxLength ? `${singleLine.substring(0, maxLength - 1)}…` : singleLine;
+}
+
+// "2026-10-18T09:15:00.000+0000" → "2026-10-18 09:15"
+function formatDate(value: string): string {
+  const match = (value || '').match(/^(\d{4}-\d{2}-\d{2})(?:T(\d{2}:\d{2}))?/);
+  return match ? [match[1], match[2]].filter(Boolean).join(' ') : value || '';
+}
+
+function statusStyles(status: string | undefined): Style[] {
+  const lower = (status || '').toLowerCase();
+  if (/done|closed|resolved|complete|released/.test(lower)) return ['green'];
+  if (/progress|review|testing|qa|development/.test(lower)) return ['blue'];
+  if (/block|hold|waiting/.test(lower)) return ['red'];
+  return ['yellow'];
+}
+
+function priorityStyles(priority: string | undefined): Style[] {
+  switch ((priority || '').toLowerCase()) {
+    case 'highest': return ['red', 'bold'];
+    case 'high': return ['red'];
+    case 'medium': return ['yellow'];
+    case 'low':
+    case 'lowest': return ['green'];
+    default: return ['dim'];
+  }
+}
+
+function priorityMarker(priority: string): string {
+  switch (priority.toLowerCase()) {
+    case 'highest': return '⇈';
+    case 'high': return '▲';
+    case 'low': return '▼';
+    case 'lowest': return '⇊';
+    default: return '■';
+  }
+}
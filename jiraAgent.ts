@@ -1,13 +1,19 @@
 import { Chatbot } from './chatbot';
-import { ConversationState, IssueCreationStep } from './types';
-import { APP_CONFIG, OPENAI_API_KEY } from './config';
+import { ConnectionEvent, ConversationState, ConversationResult, CreateIssueResult, IssueCreationStep, IssueData } from './types';
+import { APP_CONFIG, BULK_CONFIG, OPENAI_API_KEY, QUEUE_CONFIG, WORKSPACE_CONFIG } from './config';
 import { ZapierService } from './zapierService';
 import { ConversationManager } from './conversationManager';
+import { ProjectRegistry } from './projectRegistry';
+import { renderIssueView } from './issueView';
+import { OfflineQueue } from './offlineQueue';
+import { describeJiraError } from './jiraErrors';
 
 export class JiraAgent {
   private chatbot: Chatbot;
   private zapierService: ZapierService;
   private conversationManager: ConversationManager;
+  private projectRegistry: ProjectRegistry;
+  private offlineQueue: OfflineQueue;
   private state: ConversationState = {
     isCreatingIssue: false,
     issueData: {},
@@ -15,13 +21,24 @@ export class JiraAgent {
     hasAskedFor: new Set(),
     extractedParameters: undefined,
     missingParameters: undefined,
-    pendingValidation: new Set()
+    pendingValidation: new Set(),
+    pendingUpdate: undefined,
+    pendingComment: undefined,
+    duplicateCheck: undefined,
+    pendingUserChoice: undefined,
+    bulk: undefined,
+    epicPlan: undefined
   };
+  private wasReconnecting: boolean = false;
 
   constructor() {
     this.chatbot = new Chatbot(OPENAI_API_KEY);
-    this.zapierService = new ZapierService();
-    this.conversationManager = new ConversationManager();
+    // Shared so every extractor sees the projects ZapierService loads at startup
+    this.projectRegistry = new ProjectRegistry(WORKSPACE_CONFIG.projectAliases);
+    this.zapierService = new ZapierService(this.projectRegistry);
+    this.conversationManager = new ConversationManager(this.projectRegistry);
+    this.offlineQueue = new OfflineQueue(QUEUE_CONFIG.PATH);
+    this.zapierService.onConnectionChange(event => this.reportConnection(event));
   }
 
   async start(): Promise<void> {
@@ -31,9 +48,11 @@ export class JiraAgent {
     try {
       await this.zapierService.initialize();
     } catch (error) {
-      console.error('⚠️  Warning: Could not connect to Zapier MCP server. Issue creation will not work.');
-      console.error('Please check your ZAPIER_MCP_URL in .env file.\n');
+      console.error('⚠️  Warning: Could not connect to the MCP server. Jira requests will retry the connection.');
+      console.error('Please check ZAPIER_MCP_URL in your .env file, or the "mcp" settings in your workspace config.');
+      console.error('Issues you confirm meanwhile are saved to the offline queue.\n');
     }
+    this.remindAboutQueue();
     
     await this.conversationLoop();
   }
@@ -41,13 +60,29 @@ export class JiraAgent {
   private async conversationLoop(): Promise<void> {
     while (true) {
       try {
-        const userInput = await this.chatbot.getUserInput('You: ');
+        const userInput = await this.chatbot.getUserInput(this.zapierService.isReady() ? 'You: ' : '[offline] You: ');
         
         if (userInput.toLowerCase().trim() === APP_CONFIG.EXIT_COMMAND) {
           console.log(APP_CONFIG.GOODBYE_MESSAGE);
           break;
         }
 
+        if (userInput.toLowerCase().trim() === APP_CONFIG.STATUS_COMMAND) {
+          await this.showConnectionStatus();
+          continue;
+        }
+
+        const queueCommand = userInput.trim().match(/^(\w+)(?:\s+((?:edit|set|change|drop|remove|delete)\s.*))?$/i);
+        if (queueCommand && queueCommand[1].toLowerCase() === APP_CONFIG.QUEUE_COMMAND) {
+          this.handleQueueCommand(queueCommand[2] || '');
+          continue;
+        }
+
+        if (userInput.toLowerCase().trim() === APP_CONFIG.SYNC_COMMAND) {
+          await this.syncQueue();
+          continue;
+        }
+
         if (userInput.trim() === '') {
           continue;
         }
@@ -55,7 +90,8 @@ export class JiraAgent {
         // Add user message to conversation history
         this.chatbot.addUserMessage(userInput);
 
-        // Process the user input through conversation manager
+        // Process the user input through conversation manager; the tool list can change on reconnect
+        this.conversationManager.setUnavailableFeatures(this.zapierService.unavailableFeatures());
         const result = await this.conversationManager.processUserInput(
           userInput, 
           this.state, 
@@ -74,11 +110,60 @@ export class JiraAgent {
     await this.cleanup();
   }
 
-  private async handleConversationResult(result: {
-    action: 'continue' | 'create_issue' | 'search' | 'cancel' | 'regular_chat';
-    message?: string;
-    searchQuery?: string;
-  }): Promise<void> {
+  // Connection changes as they happen, so a dropped session doesn't look like a hung request
+  private reportConnection(event: ConnectionEvent): void {
+    switch (event.state) {
+      case 'disconnected':
+        if (event.error) {
+          console.log(`\n⚠️  Lost the connection to the MCP server (${event.error})`);
+        }
+        break;
+
+      case 'reconnecting':
+        if (event.retryInMs === undefined) {
+          console.log('🔄 Reconnecting to the MCP server...');
+        } else {
+          console.log(`   Attempt ${event.attempt}/${event.maxAttempts} failed (${event.error}); retrying in ${(event.retryInMs / 1000).toFixed(1)}s`);
+        }
+        break;
+
+      case 'connecting':
+        if (event.retryInMs !== undefined) {
+          console.log(`   Attempt ${event.attempt}/${event.maxAttempts} failed (${event.error}); retrying in ${(event.retryInMs / 1000).toFixed(1)}s`);
+        }
+        break;
+
+      case 'connected':
+        if (this.wasReconnecting) {
+          console.log('✅ Reconnected to the MCP server');
+          this.remindAboutQueue();
+        }
+        break;
+
+      case 'failed':
+        if (this.wasReconnecting) {
+          console.log(`❌ Could not reconnect after ${event.attempt} attempts. I'll try again with your next Jira request; type "${APP_CONFIG.STATUS_COMMAND}" to check the connection.`);
+        }
+        break;
+    }
+    this.wasReconnecting = event.state === 'reconnecting';
+  }
+
+  private async showConnectionStatus(): Promise<void> {
+    let health = await this.zapierService.healthCheck();
+    if (!health.ok) {
+      console.log(`\n⚠️  MCP server: ${health.state}${health.error ? ` (${health.error})` : ''}`);
+      if (await this.zapierService.ensureReady()) {
+        health = await this.zapierService.healthCheck();
+      }
+    }
+
+    console.log(health.ok
+      ? `\n🟢 Connected to the MCP server (${health.latencyMs} ms round trip)\n`
+      : `\n🔴 Not connected to the MCP server${health.error ? `: ${health.error}` : ''}\n`);
+  }
+
+  private async handleConversationResult(result: ConversationResult): Promise<void> {
     switch (result.action) {
       case 'continue':
         if (result.message) {
@@ -91,9 +176,37 @@ export class JiraAgent {
         await this.executeIssueCreation();
         break;
 
+      case 'bulk_create':
+        await this.executeBulkCreation();
+        break;
+
+      case 'create_epic':
+        await this.executeEpicCreation();
+        break;
+
+      case 'update_issue':
+        await this.handleUpdateRequest();
+        break;
+
+      case 'add_comment':
+        await this.handleAddComment();
+        break;
+
+      case 'transition_issue':
+        if (result.issueKey && result.targetStatus) {
+          await this.handleTransitionRequest(result.issueKey, result.targetStatus);
+        }
+        break;
+
+      case 'view_issue':
+        if (result.issueKey) {
+          await this.handleViewRequest(result.issueKey);
+        }
+        break;
+
       case 'search':
         if (result.searchQuery) {
-          await this.handleSearchRequest(result.searchQuery);
+          await this.handleSearchRequest(result.searchQuery, result.jql);
         }
         break;
 
@@ -111,34 +224,43 @@ export class JiraAgent {
   }
 
   private async executeIssueCreation(): Promise<void> {
-    if (!this.zapierService.isReady()) {
-      console.log('❌ Cannot create issue: Zapier service not connected');
+    if (!(await this.zapierService.ensureReady())) {
+      this.queueIssues([this.state.issueData]);
       this.conversationManager.resetConversationState(this.state);
       return;
     }
 
+    if (await this.resolveIssueUsers(this.state.issueData, 'create_issue')) {
+      return;
+    }
+
+    // Check for likely duplicates once per creation; pause for the user's choice if any are found
+    if (!this.state.duplicateCheck?.resolved && await this.promptForDuplicates()) {
+      return;
+    }
+
     try {
       // Display what we're about to create
       this.conversationManager.displayCreationDetails(this.state.issueData);
 
       // Execute the actual Jira creation via MCP
-      const result = await this.zapierService.createJiraIssue(this.state.issueData);
+      const result = await this.createIssueWithExtras(this.state.issueData);
       
-      if (result.success) {
-        // Display success details
-        this.conversationManager.displaySuccessResult(result);
-        
-        // Add success message to chatbot
-        const successMessage = this.conversationManager.formatSuccessMessage(result, this.state.issueData);
-        this.chatbot.addAssistantMessage(successMessage);
-        
-      } else {
+      if (result.ok === false) {
         // Display failure details
         this.conversationManager.displayFailureResult(result);
         
         // Add error message to chatbot
         const errorMessage = this.conversationManager.formatErrorMessage(result);
         this.chatbot.addAssistantMessage(errorMessage);
+        
+      } else {
+        // Display success details
+        this.conversationManager.displaySuccessResult(result);
+        
+        // Add success message to chatbot
+        const successMessage = this.conversationManager.formatSuccessMessage(result, this.state.issueData);
+        this.chatbot.addAssistantMessage(successMessage);
       }
 
     } catch (error) {
@@ -151,27 +273,510 @@ export class JiraAgent {
     }
   }
 
-  private async handleSearchRequest(searchQuery: string): Promise<void> {
-    if (!this.zapierService.isReady()) {
+  private async executeBulkCreation(): Promise<void> {
+    const session = this.state.bulk;
+    if (!session) {
+      return;
+    }
+
+    if (!(await this.zapierService.ensureReady())) {
+      this.queueIssues(session.items);
+      this.state.bulk = undefined;
+      return;
+    }
+
+    try {
+      await this.resolveBulkUsers(session.items);
+
+      console.log(`🚀 Creating ${session.items.length} issue(s), ${BULK_CONFIG.CONCURRENCY} at a time...`);
+      const results = await this.zapierService.createJiraIssues(session.items, BULK_CONFIG.CONCURRENCY);
+
+      this.conversationManager.displayBulkReport(results);
+      this.chatbot.addAssistantMessage(this.conversationManager.formatBulkSummary(results));
+
+    } catch (error) {
+      console.error('❌ Bulk creation failed:', error);
+      this.chatbot.addAssistantMessage(`❌ Bulk creation stopped with an error: ${error}. Check the report above for anything already created.`);
+    } finally {
+      this.state.bulk = undefined;
+    }
+  }
+
+  // The epic goes first so its key can be set as every child's parent
+  private async executeEpicCreation(): Promise<void> {
+    const plan = this.state.epicPlan;
+    if (!plan) {
+      return;
+    }
+
+    // Not queued: the children need the epic's key, which only exists once Jira has created it
+    if (!(await this.zapierService.ensureReady())) {
+      console.log('❌ Cannot create the epic: not connected to the MCP server. Say "create" again once it\'s back.');
+      return;
+    }
+
+    try {
+      await this.resolveBulkUsers([plan.epic, ...plan.children]);
+
+      console.log(`🚀 Creating epic "${plan.epic.title}"...`);
+      const epicResult = await this.zapierService.createJiraIssue(plan.epic);
+      if (epicResult.ok === false) {
+        this.conversationManager.displayFailureResult(epicResult);
+        this.chatbot.addAssistantMessage(`${this.conversationManager.formatErrorMessage(epicResult)} None of the child issues were created.`);
+        return;
+      }
+      const epicKey = epicResult.issue.key;
+      if (!epicKey) {
+        this.reply(`The epic was created, but Jira didn't report its key, so none of the child issues were created. Check ${plan.epic.project} for "${plan.epic.title}".`);
+        return;
+      }
+
+      const children = plan.children.map(child => ({ ...child, parent: epicKey }));
+      if (children.length > 0) {
+        console.log(`🚀 Creating ${children.length} child issue(s) under ${epicKey}...`);
+      }
+      const results = children.length > 0
+        ? await this.zapierService.createJiraIssues(children, BULK_CONFIG.CONCURRENCY)
+        : [];
+
+      this.conversationManager.displayEpicReport({ key: epicKey, url: epicResult.url }, plan.epic, results);
+      this.chatbot.addAssistantMessage(this.conversationManager.formatEpicSummary(epicKey, results));
+
+    } catch (error) {
+      console.error('❌ Epic creation failed:', error);
+      this.chatbot.addAssistantMessage(`❌ Epic creation stopped with an error: ${error}. Check Jira for anything already created.`);
+    } finally {
+      this.state.epicPlan = undefined;
+    }
+  }
+
+  // Creates the issue, then its links and uploads, which need the new issue's key
+  private async createIssueWithExtras(issueData: IssueData): Promise<CreateIssueResult> {
+    const result = await this.zapierService.createJiraIssue(issueData);
+    if (result.ok === false || !result.issue.key) {
+      return result;
+    }
+
+    const links = issueData.links || [];
+    if (links.length > 0) {
+      result.links = await this.zapierService.linkIssues(result.issue.key, links);
+    }
+
+    // Inline attachments are already in the description; the rest are uploaded to the new issue
+    const uploads = (issueData.attachments || []).filter(attachment => attachment.mode === 'upload');
+    if (uploads.length > 0) {
+      result.attachments = await this.zapierService.uploadAttachments(result.issue.key, uploads);
+    }
+    return result;
+  }
+
+  // Users and duplicates can't be checked offline; sync resolves names the way bulk creation does
+  private queueIssues(items: IssueData[]): void {
+    const unsaved: IssueData[] = [];
+    let writeError: unknown;
+    for (const item of items) {
+      try {
+        this.offlineQueue.add(item);
+      } catch (error) {
+        unsaved.push(item);
+        writeError = error;
+      }
+    }
+
+    if (unsaved.length > 0) {
+      // The conversation is reset next, so this is the last chance to see what was typed
+      for (const item of unsaved) {
+        this.conversationManager.displayCreationDetails(item);
+      }
+      const what = unsaved.length === 1 ? `"${unsaved[0].title}"` : `${unsaved.length} of the issues`;
+      this.reply(`I can't reach the MCP server, and I couldn't save ${what} to the offline queue at ${QUEUE_CONFIG.PATH} ` +
+                 `(${writeError instanceof Error ? writeError.message : writeError}). ${unsaved.length === 1 ? 'It was' : 'They were'} NOT saved; the details are shown above.`);
+      if (unsaved.length === items.length) {
+        return;
+      }
+    }
+
+    const saved = items.filter(item => !unsaved.includes(item));
+    const what = saved.length === 1 ? `"${saved[0].title}"` : `${saved.length} issues`;
+    this.reply(`I can't reach the MCP server, so I saved ${what} to the offline queue (${this.offlineQueue.size()} waiting). ` +
+               `Type "${APP_CONFIG.SYNC_COMMAND}" once the connection is back, or "${APP_CONFIG.QUEUE_COMMAND}" to review them.`);
+  }
+
+  private remindAboutQueue(): void {
+    let count: number;
+    try {
+      count = this.offlineQueue.size();
+    } catch (error) {
+      console.warn(`⚠️  Could not read the offline queue at ${QUEUE_CONFIG.PATH}:`, error);
+      return;
+    }
+    if (count > 0) {
+      console.log(`📥 ${count} issue(s) in the offline queue. Type "${APP_CONFIG.SYNC_COMMAND}" to create them or "${APP_CONFIG.QUEUE_COMMAND}" to review them.`);
+    }
+  }
+
+  // "queue" shows the queue; "queue edit 2 priority High" and "queue drop 3" change it
+  private handleQueueCommand(command: string): void {
+    const entries = this.offlineQueue.list();
+    if (!command) {
+      this.conversationManager.displayQueue(entries);
+      return;
+    }
+
+    const items = entries.map(entry => entry.issueData);
+    const result = this.conversationManager.editQueue(items, command);
+    if (result.handled) {
+      try {
+        this.offlineQueue.keepOnly(items);
+      } catch (error) {
+        console.log(`❌ Could not save the change to ${QUEUE_CONFIG.PATH}: ${error instanceof Error ? error.message : error}. It only lasts until you exit.`);
+      }
+      this.conversationManager.displayQueue(this.offlineQueue.list());
+    }
+    console.log(`🤖 Agent: ${result.message}\n`);
+  }
+
+  // Replays the queue in order; failed issues stay queued with their error, the rest are removed
+  private async syncQueue(): Promise<void> {
+    const entries = this.offlineQueue.list();
+    if (entries.length === 0) {
+      console.log('\n📭 The offline queue is empty.\n');
+      return;
+    }
+
+    if (!(await this.zapierService.ensureReady())) {
+      console.log(`❌ Cannot sync: still not connected to the MCP server. ${entries.length} issue(s) stay queued.`);
+      return;
+    }
+
+    console.log(`\n🔄 Syncing ${entries.length} queued issue(s)...`);
+    const created: string[] = [];
+    let failed = 0;
+    for (let index = 0; index < entries.length; index++) {
+      const entry = entries[index];
+      const label = `[${index + 1}/${entries.length}] ${entry.issueData.title || '(no title)'}`;
+      try {
+        await this.resolveBulkUsers([entry.issueData]);
+        const result = await this.createIssueWithExtras(entry.issueData);
+        if (result.ok === false) {
+          failed++;
+          this.updateQueue(() => this.offlineQueue.recordFailure(entry.id, describeJiraError(result.error)));
+          console.log(`❌ ${label} — ${describeJiraError(result.error)}`);
+          // The rest would fail the same way
+          if (result.error.kind === 'auth' || (result.error.kind === 'transport' && !this.zapierService.isReady())) {
+            console.log(`⚠️  Stopping here (${result.error.kind === 'auth' ? 'Jira rejected the credentials' : 'lost the connection'}). The remaining issues stay queued.`);
+            break;
+          }
+        } else {
+          this.updateQueue(() => this.offlineQueue.remove(entry.id),
+            `. Drop "${entry.issueData.title}" from the queue before the next sync, or it will be created again.`);
+          created.push(result.issue.key);
+          console.log(`✅ ${label} → ${result.issue.key}${result.recovered ? ' (created by an earlier attempt)' : ''}${result.url ? ` — ${result.url}` : ''}`);
+        }
+      } catch (error) {
+        failed++;
+        this.updateQueue(() => this.offlineQueue.recordFailure(entry.id, error instanceof Error ? error.message : String(error)));
+        console.log(`❌ ${label} — ${error instanceof Error ? error.message : error}`);
+        if (!this.zapierService.isReady()) {
+          console.log('⚠️  Lost the connection; stopping here. The remaining issues stay queued.');
+          break;
+        }
+      }
+    }
+
+    const remaining = this.offlineQueue.size();
+    this.reply(remaining === 0
+      ? `Synced: created ${created.join(', ')}. The offline queue is empty.`
+      : `Created ${created.length} issue(s)${created.length > 0 ? ` (${created.join(', ')})` : ''}; ${failed} failed, ${remaining} still queued. ` +
+        `Type "${APP_CONFIG.QUEUE_COMMAND}" to see the errors and fix them, then "${APP_CONFIG.SYNC_COMMAND}" again.`);
+  }
+
+  // A sync keeps going when the queue file can't be written. The queue in memory still changes, so
+  // this session won't create an issue twice; after a restart the file is what counts.
+  private updateQueue(change: () => void, consequence: string = ''): void {
+    try {
+      change();
+    } catch (error) {
+      console.warn(`⚠️  Could not update the offline queue at ${QUEUE_CONFIG.PATH}: ${error instanceof Error ? error.message : error}${consequence}`);
+    }
+  }
+
+  // No one-by-one questions in bulk mode: names that don't resolve to exactly one user are left empty
+  private async resolveBulkUsers(items: IssueData[]): Promise<void> {
+    for (const item of items) {
+      for (const field of ['assignee', 'reporter'] as Array<'assignee' | 'reporter'>) {
+        const idField = field === 'assignee' ? 'assigneeId' : 'reporterId';
+        const query = item[field];
+        if (!query || item[idField]) {
+          continue;
+        }
+
+        try {
+          const resolution = await this.zapierService.resolveUser(query);
+          if (resolution.status === 'resolved') {
+            item[field] = resolution.user.displayName;
+            item[idField] = resolution.user.accountId;
+          } else {
+            console.log(`⚠️  "${item.title}": ${field} "${query}" is ${resolution.status === 'ambiguous' ? 'ambiguous' : 'unknown'}; leaving it empty`);
+            item[field] = undefined;
+          }
+        } catch (error) {
+          console.warn(`⚠️  Could not look up ${field} "${query}":`, error);
+        }
+      }
+    }
+  }
+
+  // Turns assignee/reporter names into Jira users; returns true when paused for the user to pick one
+  private async resolveIssueUsers(issueData: IssueData, resumeAction: 'create_issue' | 'update_issue'): Promise<boolean> {
+    const fields: Array<'assignee' | 'reporter'> = ['assignee', 'reporter'];
+
+    for (const field of fields) {
+      const idField = field === 'assignee' ? 'assigneeId' : 'reporterId';
+      const query = issueData[field];
+      if (!query || issueData[idField]) {
+        continue;
+      }
+
+      let resolution;
+      try {
+        resolution = await this.zapierService.resolveUser(query);
+      } catch (error) {
+        // Fall back to sending the name as given and let Jira decide
+        console.warn(`⚠️  Could not look up ${field} "${query}":`, error);
+        continue;
+      }
+
+      if (resolution.status === 'resolved') {
+        console.log(`👤 ${field} "${query}" → ${resolution.user.displayName}`);
+        issueData[field] = resolution.user.displayName;
+        issueData[idField] = resolution.user.accountId;
+      } else if (resolution.status === 'ambiguous') {
+        this.state.pendingUserChoice = { field, query, candidates: resolution.candidates, resumeAction };
+        this.reply(this.conversationManager.formatUserChoicePrompt(this.state.pendingUserChoice));
+        return true;
+      } else {
+        this.reply(`I couldn't find a Jira user matching "${query}", so the ${field} will be left empty.`);
+        issueData[field] = undefined;
+      }
+    }
+
+    return false;
+  }
+
+  private async promptForDuplicates(): Promise<boolean> {
+    const { title, description } = this.state.issueData;
+    if (!title) {
+      return false;
+    }
+
+    console.log('🔎 Checking for similar existing issues...');
+    const similar = await this.zapierService.findSimilarIssues(title, description);
+    if (similar.length === 0) {
+      console.log('✅ No similar issues found');
+      return false;
+    }
+
+    const matches = similar.slice(0, 5).map(issue => ({
+      key: issue.key,
+      summary: issue.summary,
+      similarity: issue.similarity
+    }));
+
+    this.state.duplicateCheck = { matches, resolved: false };
+    this.conversationManager.displaySimilarIssues(matches);
+    this.reply(this.conversationManager.formatDuplicatePrompt(matches.length));
+    return true;
+  }
+
+  // Two passes: first fetch the issue and show the diff, then apply once confirmed
+  private async handleUpdateRequest(): Promise<void> {
+    const request = this.state.pendingUpdate;
+    if (!request) {
+      return;
+    }
+
+    if (!(await this.zapierService.ensureReady())) {
+      console.log('❌ Cannot update issue: Zapier service not connected');
+      this.state.pendingUpdate = undefined;
+      return;
+    }
+
+    if (!request.confirmed) {
+      if (await this.resolveIssueUsers(request.changes, 'update_issue')) {
+        return;
+      }
+
+      if (Object.values(request.changes).every(value => value === undefined)) {
+        this.reply(`There's nothing left to change on ${request.issueKey}.`);
+        this.state.pendingUpdate = undefined;
+        return;
+      }
+
+      const current = await this.zapierService.findIssueByKey(request.issueKey);
+      if (!current) {
+        this.reply(`I couldn't find ${request.issueKey}. Please check the issue key and try again.`);
+        this.state.pendingUpdate = undefined;
+        return;
+      }
+
+      request.current = current;
+      this.conversationManager.displayUpdateDiff(request);
+
+      this.reply(`Would you like me to apply these changes to ${request.issueKey}? (yes/no)`);
+      return;
+    }
+
+    try {
+      const result = await this.zapierService.updateJiraIssue(request.issueKey, request.changes);
+      this.conversationManager.displayUpdateResult(request.issueKey, result);
+
+      this.chatbot.addAssistantMessage(result.ok === false
+        ? `❌ I couldn't update ${request.issueKey}. ${describeJiraError(result.error)}`
+        : `✅ ${request.issueKey} has been updated.`);
+
+    } catch (error) {
+      console.error('❌ Failed to update Jira issue:', error);
+      this.chatbot.addAssistantMessage(
+        `❌ I encountered a technical error while trying to update ${request.issueKey}: ${error}. Please check your connection and try again.`
+      );
+    } finally {
+      this.state.pendingUpdate = undefined;
+    }
+  }
+
+  private async handleAddComment(): Promise<void> {
+    const comment = this.state.pendingComment;
+    if (!comment) {
+      return;
+    }
+
+    if (!(await this.zapierService.ensureReady())) {
+      console.log('❌ Cannot add comment: Zapier service not connected');
+      this.state.pendingComment = undefined;
+      return;
+    }
+
+    try {
+      const result = await this.zapierService.addComment(comment.issueKey, comment.body);
+      if (result.ok === false) {
+        this.reply(`I couldn't add the comment to ${comment.issueKey}. ${describeJiraError(result.error)}`);
+      } else {
+        console.log(`🎉 SUCCESS! Comment added to ${comment.issueKey}`);
+        if (result.url) {
+          console.log(`🔗 Issue Link: ${result.url}`);
+        }
+        this.chatbot.addAssistantMessage(`✅ Comment added to ${comment.issueKey}.`);
+      }
+
+    } catch (error) {
+      console.error('❌ Failed to add Jira comment:', error);
+      this.chatbot.addAssistantMessage(
+        `❌ I encountered a technical error while trying to comment on ${comment.issueKey}: ${error}. Please check your connection and try again.`
+      );
+    } finally {
+      this.state.pendingComment = undefined;
+    }
+  }
+
+  private async handleTransitionRequest(issueKey: string, targetStatus: string): Promise<void> {
+    if (!(await this.zapierService.ensureReady())) {
+      console.log('❌ Cannot change issue status: Zapier service not connected');
+      return;
+    }
+
+    try {
+      const transitions = await this.zapierService.getAvailableTransitions(issueKey);
+      if (transitions.length === 0) {
+        this.reply(`I couldn't find any available transitions for ${issueKey}. Please check the issue key.`);
+        return;
+      }
+
+      const transition = this.zapierService.matchTransition(targetStatus, transitions);
+      if (!transition) {
+        const options = [...new Set(transitions.map(t => t.toStatus))].join(', ');
+        this.reply(`${issueKey} can't be moved to "${targetStatus}" from its current status. Available options: ${options}.`);
+        return;
+      }
+
+      const result = await this.zapierService.transitionIssue(issueKey, transition);
+      if (result.ok === false) {
+        this.reply(`I couldn't move ${issueKey} to ${transition.toStatus}. ${describeJiraError(result.error)}`);
+      } else {
+        console.log(`🎉 SUCCESS! ${issueKey} status changed`);
+        console.log(`📊 New Status: ${result.status}`);
+        if (result.url) {
+          console.log(`🔗 Issue Link: ${result.url}`);
+        }
+        this.chatbot.addAssistantMessage(`✅ ${issueKey} is now ${result.status}.`);
+      }
+
+    } catch (error) {
+      console.error('❌ Failed to transition Jira issue:', error);
+      this.chatbot.addAssistantMessage(
+        `❌ I encountered a technical error while trying to move ${issueKey}: ${error}. Please check your connection and try again.`
+      );
+    }
+  }
+
+  private async handleViewRequest(issueKey: string): Promise<void> {
+    if (!(await this.zapierService.ensureReady())) {
+      console.log('❌ Cannot show issue: Zapier service not connected');
+      return;
+    }
+
+    try {
+      console.log(`🔎 Fetching ${issueKey}...`);
+      const issue = await this.zapierService.getJiraIssue(issueKey);
+      console.log('');
+      for (const line of renderIssueView(issue)) {
+        console.log(line);
+      }
+      console.log('');
+
+      // A compact version for the chat history, so follow-up questions about the issue have context
+      this.chatbot.addAssistantMessage(
+        `Showed ${issue.key} "${issue.summary}": ${[issue.issueType, issue.status, issue.priority && `${issue.priority} priority`, issue.assignee ? `assigned to ${issue.assignee}` : 'unassigned'].filter(Boolean).join(', ')}.`
+      );
+    } catch (error) {
+      console.error('❌ Failed to show Jira issue:', error);
+      this.reply(`I couldn't load ${issueKey}. Please check the key and that you have access to it.`);
+    }
+  }
+
+  private async handleSearchRequest(searchQuery: string, jql?: string): Promise<void> {
+    if (!(await this.zapierService.ensureReady())) {
       console.log('❌ Cannot search issues: Zapier service not connected');
       return;
     }
 
-    if (searchQuery.length < 3) {
+    if (!jql && searchQuery.length < 3) {
       console.log('Please provide a more specific search term.');
       return;
     }
 
     try {
-      console.log(`🔍 Searching for: "${searchQuery}"`);
-      const results = await this.zapierService.searchJiraIssues(searchQuery);
-      
+      console.log(jql ? `🔍 Searching with JQL: ${jql}` : `🔍 Searching for: "${searchQuery}"`);
+      const search = await this.zapierService.searchJiraIssues(searchQuery, { jql });
+      if (search.ok === false) {
+        this.reply(`The search failed. ${describeJiraError(search.error)}`);
+        return;
+      }
+
+      const results = search.issues;
       if (results.length === 0) {
         console.log('No issues found matching your search.');
       } else {
         console.log(`\n📋 Found ${results.length} issue(s):`);
         results.slice(0, 5).forEach((issue, index) => {
           console.log(`  ${index + 1}. ${issue.key}: ${issue.summary}`);
+          const details = [
+            issue.issueType && `🏷️  ${issue.issueType}`,
+            issue.status && `📊 ${issue.status}`,
+            issue.priority && `⚡ ${issue.priority}`,
+            `👤 ${issue.assignee || 'Unassigned'}`
+          ].filter(Boolean);
+          console.log(`     ${details.join('  ')}`);
         });
         if (results.length > 5) {
           console.log(`  ... and ${results.length - 5} more`);
@@ -184,6 +789,11 @@ export class JiraAgent {
     }
   }
 
+  private reply(message: string): void {
+    console.log(`\n🤖 Agent: ${message}\n`);
+    this.chatbot.addAssistantMessage(message);
+  }
+
   private async handleRegularConversation(): Promise<void> {
     const response = await this.chatbot.getAIResponse();
     
@@ -0,0 +1,161 @@
+import { JiraError, JiraErrorKind } from './types';
+
+// Sorts the error text a tool call comes back with into a JiraError. The text can be Jira's REST
+// error body ({"errorMessages": [...], "errors": {"summary": "..."}}), Zapier's execution payload,
+// a plain message such as "Request failed with status code 403", or one of MCPClient's own
+// "could not reach the MCP server" results.
+export function parseJiraError(source: unknown): JiraError {
+  const text = (source instanceof Error ? source.message : typeof source === 'string' ? source : JSON.stringify(source)) || 'Unknown error';
+  const body = findJsonBody(text);
+
+  const fields = body ? fieldErrors(body) : textFieldErrors(text);
+  const status = statusOf(body, text);
+  const message = (body && bodyMessage(body)) || text.trim();
+  const error: JiraError = { kind: kindOf(status, text, fields), message };
+
+  if (status !== undefined) {
+    error.status = status;
+  }
+  if (error.kind === 'validation' && Object.keys(fields).length > 0) {
+    error.fields = fields;
+  }
+  if (error.kind === 'rate_limit') {
+    const wait = (body && (body.retryAfter || body.retry_after)) || (text.match(/retry[- ]after\D{0,3}(\d+)/i) || [])[1];
+    if (wait !== undefined && !isNaN(Number(wait))) {
+      error.retryAfterSeconds = Number(wait);
+    }
+  }
+  return error;
+}
+
+export function jiraError(kind: JiraErrorKind, message: string, fields?: { [field: string]: string }): JiraError {
+  return fields ? { kind, message, fields } : { kind, message };
+}
+
+// One sentence for the chat, saying what to do about it
+export function describeJiraError(error: JiraError): string {
+  // "Error calling tool jira_x: could not reach the MCP server (fetch failed)" → "fetch failed"
+  const message = error.message
+    .replace(/^Error calling tool [\w.-]+:\s*/, '')
+    .replace(/^could not reach the MCP server \((.*)\)$/, '$1')
+    .replace(/\.+$/, '');
+  switch (error.kind) {
+    case 'auth':
+      return `Jira didn't accept the connection's credentials (${message}). Reconnect the Jira account in Zapier, or check the MCP server's token.`;
+    case 'permission':
+      return `You don't have permission to do that in Jira (${message}).`;
+    case 'validation':
+      return error.fields
+        ? `Some fields need fixing: ${Object.entries(error.fields).map(([field, problem]) => `${field} (${problem.replace(/\.+$/, '')})`).join(', ')}.`
+        : `Jira rejected the request: ${message}.`;
+    case 'not_found':
+      return `Jira couldn't find it: ${message}.`;
+    case 'rate_limit':
+      return `Jira is rate limiting requests${error.retryAfterSeconds !== undefined ? `; try again in ${error.retryAfterSeconds}s` : '; try again in a minute'}.`;
+    case 'transport':
+      return `The MCP server couldn't be reached: ${message}.`;
+    default:
+      return `${message}.`;
+  }
+}
+
+const STATUS_KINDS: { [status: number]: JiraErrorKind } = {
+  400: 'validation',
+  401: 'auth',
+  403: 'permission',
+  404: 'not_found',
+  408: 'transport',
+  422: 'validation',
+  429: 'rate_limit'
+};
+
+// Checked in order: a timeout that mentions a field is still a transport problem, and Jira's
+// "does not exist or you do not have permission to see it" means not found
+const TEXT_KINDS: Array<[JiraErrorKind, RegExp]> = [
+  ['transport', /could not reach the MCP server|may or may not have been applied|not connected|MCP connection failed|fetch failed|ECONN\w+|ENOTFOUND|socket hang up|timed? ?out|connection (?:closed|reset|lost)/i],
+  ['rate_limit', /rate.?limit|too many requests|throttl|quota exceeded/i],
+  ['auth', /unauthori[sz]ed|authenticat|invalid (?:api )?token|token (?:has )?expired|credentials|re-?connect (?:your|the) (?:jira )?account|login required/i],
+  ['not_found', /does not exist|not found|no project found|could not find|cannot be found|no such issue/i],
+  ['permission', /forbidden|permission|not allowed|not writable|not authori[sz]ed to/i],
+  ['validation', /is required|invalid|must (?:be|specify|not)|should be|is not valid|cannot be set|not on the appropriate screen|field/i]
+];
+
+function kindOf(status: number | undefined, text: string, fields: { [field: string]: string }): JiraErrorKind {
+  if (status !== undefined && STATUS_KINDS[status]) {
+    return STATUS_KINDS[status];
+  }
+  if (status !== undefined && status >= 500) {
+    return 'transport';
+  }
+  if (Object.keys(fields).length > 0) {
+    return 'validation';
+  }
+  const match = TEXT_KINDS.find(([, pattern]) => pattern.test(text));
+  return match ? match[0] : 'unknown';
+}
+
+// The first {...} in the text that parses, e.g. the body after "Request failed with status code 400: "
+function findJsonBody(text: string): any | null {
+  const start = text.indexOf('{');
+  if (start < 0) {
+    return null;
+  }
+  try {
+    const body = JSON.parse(text.substring(start, text.lastIndexOf('}') + 1));
+    return body && typeof body === 'object' ? body : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+function statusOf(body: any, text: string): number | undefined {
+  const candidate = body && (body.status || body.statusCode || body.execution?.statusCode || body.error?.status);
+  if (typeof candidate === 'number' || (typeof candidate === 'string' && /^\d{3}$/.test(candidate))) {
+    return Number(candidate);
+  }
+  const match = text.match(/\b(?:status(?: code)?|HTTP(?:\/[\d.]+)?)\s*:?\s*(\d{3})\b/i);
+  return match ? Number(match[1]) : undefined;
+}
+
+function bodyMessage(body: any): string | undefined {
+  const messages: string[] = [];
+  if (Array.isArray(body.errorMessages)) messages.push(...body.errorMessages.filter((message: any) => typeof message === 'string'));
+  if (body.execution && typeof body.execution.error === 'string') messages.push(body.execution.error);
+  if (typeof body.error === 'string') messages.push(body.error);
+  if (typeof body.error?.message === 'string') messages.push(body.error.message);
+  if (typeof body.message === 'string') messages.push(body.message);
+  if (messages.length === 0 && body.errors && typeof body.errors === 'object') {
+    messages.push(...Object.entries(body.errors).map(([field, problem]) => `${field}: ${problem}`));
+  }
+  return messages.length > 0 ? messages.join('; ') : undefined;
+}
+
+// Jira's "errors" map, here or nested inside Zapier's execution payload
+function fieldErrors(body: any): { [field: string]: string } {
+  const errors = body.errors || body.execution?.errors || body.error?.errors;
+  const fields: { [field: string]: string } = {};
+  if (errors && typeof errors === 'object' && !Array.isArray(errors)) {
+    for (const [field, problem] of Object.entries(errors)) {
+      fields[field] = String(problem);
+    }
+  }
+  return Object.keys(fields).length > 0 ? fields : textFieldErrors(bodyMessage(body) || '');
+}
+
+// "Invalid arguments for jira_create_issue: summary is required; priority should be one of ..."
+// and "Invalid project: ..." name their fields in the text
+function textFieldErrors(text: string): { [field: string]: string } {
+  const fields: { [field: string]: string } = {};
+  const detail = text.replace(/^.*?Invalid arguments for [\w.-]+:\s*/i, '');
+  for (const part of detail.split(/;\s*/)) {
+    const match = part.match(/^(\w+) (is required|should be .+)$/);
+    if (match) {
+      fields[match[1]] = match[2];
+    }
+  }
+  const invalid = text.match(/^Invalid (\w+): (.+)$/);
+  if (invalid && Object.keys(fields).length === 0 && invalid[1] !== 'arguments') {
+    fields[invalid[1]] = invalid[2];
+  }
+  return fields;
+}
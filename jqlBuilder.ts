@@ -0,0 +1,132 @@
+// Translates natural-language search requests into JQL
+// e.g. "open high-priority bugs in engineering" →
+//      project = "FV Engineering" AND issuetype = Bug AND priority = High AND statusCategory != Done
+
+export interface JqlTranslation {
+  jql: string;
+  // False when nothing beyond free text was recognized
+  hasFilters: boolean;
+}
+
+// Whole-query JQL grammar, loose enough for what people type: clauses of field, operator and value joined
+// by AND/OR (optionally negated or parenthesized), then an optional ORDER BY
+const JQL_FIELD = `(?:"[^"]+"|cf\\[\\d+\\]|[a-z][\\w.]*)`;
+const JQL_OPERATOR = `(?:\\s*(?:!=|!~|>=|<=|=|~|>|<)\\s*|\\s+(?:not\\s+in|in|is\\s+not|is|was\\s+not\\s+in|was\\s+not|was\\s+in|was)\\s+)`;
+const JQL_VALUE = `(?:"[^"]*"|'[^']*'|\\([^()]*\\)|-?\\d+[wdhm]?|[\\w.@-]+(?:\\([^()]*\\))?)`;
+const JQL_CLAUSE = `(?:not\\s+)?\\(*\\s*${JQL_FIELD}${JQL_OPERATOR}${JQL_VALUE}\\s*\\)*`;
+const JQL_ORDER = `order\\s+by\\s+${JQL_FIELD}(?:\\s+(?:asc|desc))?(?:\\s*,\\s*${JQL_FIELD}(?:\\s+(?:asc|desc))?)*`;
+const JQL_QUERY = new RegExp(`^\\s*(?:${JQL_CLAUSE}(?:\\s+(?:and|or)\\s+${JQL_CLAUSE})*(?:\\s+${JQL_ORDER})?|${JQL_ORDER})\\s*$`, 'i');
+
+export class JqlBuilder {
+  constructor(private resolveProject: (phrase: string) => string | null = () => null) {}
+
+  // The whole text is a JQL query; prose that merely contains "priority = High" is not
+  looksLikeJql(text: string): boolean {
+    return JQL_QUERY.test(text);
+  }
+
+  // Accepts "jql: <query>" or a bare query that parses as JQL as a whole
+  extractRawJql(text: string): string | null {
+    const prefixed = text.match(/^\s*(?:search\s+|find\s+)?jql\s*[:=]?\s+([\s\S]+)$/i);
+    if (prefixed) {
+      return prefixed[1].trim();
+    }
+    return this.looksLikeJql(text) ? text.trim() : null;
+  }
+
+  fromNaturalLanguage(text: string): JqlTranslation {
+    let remaining = ` ${text.toLowerCase()} `;
+    const clauses: string[] = [];
+
+    const consume = (pattern: RegExp): RegExpMatchArray | null => {
+      const match = remaining.match(pattern);
+      if (match) {
+        remaining = remaining.replace(pattern, ' ');
+      }
+      return match;
+    };
+
+    // Project: "in engineering", "for fv product"
+    const projectMatch = remaining.match(/\b(?:in|for|from)\s+(?:the\s+)?([a-z0-9()\s]+?)(?:\s+project)?(?=\s+(?:that|which|with|about|assigned|created|updated|from|in)\b|\s*$)/);
+    if (projectMatch) {
+      const project = this.resolveProject(projectMatch[1].trim());
+      if (project) {
+        clauses.push(`project = ${this.quote(project)}`);
+        remaining = remaining.replace(projectMatch[0], ' ');
+      }
+    }
+
+    // Issue type
+    const typeMatch = consume(/\b(bug|task|story|stories|epic)s?\b/);
+    if (typeMatch) {
+      const typeNames: { [key: string]: string } = {
+        'bug': 'Bug', 'task': 'Task', 'story': 'Story', 'stories': 'Story', 'epic': 'Epic'
+      };
+      clauses.push(`issuetype = ${typeNames[typeMatch[1]]}`);
+    }
+
+    // Priority: "high-priority", "priority high", "critical"
+    const priorityMatch = consume(/\b(lowest|low|medium|high|highest)[\s-]+priority\b/) ||
+                          consume(/\bpriority\s+(lowest|low|medium|high|highest)\b/) ||
+                          consume(/\b(critical|urgent|blocker)\b/);
+    if (priorityMatch) {
+      const priorityNames: { [key: string]: string } = {
+        'lowest': 'Lowest', 'low': 'Low', 'medium': 'Medium', 'high': 'High', 'highest': 'Highest',
+        'critical': 'Highest', 'urgent': 'Highest', 'blocker': 'Highest'
+      };
+      clauses.push(`priority = ${priorityNames[priorityMatch[1]]}`);
+    }
+
+    // Status
+    if (consume(/\bin\s+progress\b/)) {
+      clauses.push('status = "In Progress"');
+    } else if (consume(/\b(?:to\s*do|not\s+started)\b/)) {
+      clauses.push('statusCategory = "To Do"');
+    } else if (consume(/\b(?:open|unresolved|outstanding|active)\b/)) {
+      clauses.push('statusCategory != Done');
+    } else if (consume(/\b(?:closed|done|resolved|finished|completed)\b/)) {
+      clauses.push('statusCategory = Done');
+    }
+
+    // Assignee
+    if (consume(/\bunassigned\b/)) {
+      clauses.push('assignee is EMPTY');
+    } else if (consume(/\b(?:assigned\s+to\s+me|my)\b/)) {
+      clauses.push('assignee = currentUser()');
+    }
+
+    // Recency
+    const recentMatch = consume(/\b(created|updated)\s+(?:in\s+the\s+)?(?:last|past)\s+(\d+)\s+days?\b/);
+    if (recentMatch) {
+      clauses.push(`${recentMatch[1]} >= -${recentMatch[2]}d`);
+    } else {
+      const periodMatch = consume(/\b(created|updated)\s+(today|this\s+week|this\s+month)\b/);
+      if (periodMatch) {
+        const periodFunctions: { [key: string]: string } = {
+          'today': 'startOfDay()',
+          'this week': 'startOfWeek()',
+          'this month': 'startOfMonth()'
+        };
+        clauses.push(`${periodMatch[1]} >= ${periodFunctions[periodMatch[2].replace(/\s+/g, ' ')]}`);
+      }
+    }
+
+    const hasFilters = clauses.length > 0;
+
+    // Whatever is left becomes a free-text clause
+    const fillerWords = /\b(?:search|find|show|list|me|all|any|the|a|an|for|issues?|tickets?|about|regarding|related|to|with|that|are|is|which|in|of|and)\b/g;
+    const freeText = remaining.replace(fillerWords, ' ').replace(/[^a-z0-9\s\-_.]/g, ' ').replace(/\s+/g, ' ').trim();
+    if (freeText) {
+      clauses.push(`text ~ ${this.quote(freeText)}`);
+    }
+
+    return {
+      jql: `${clauses.join(' AND ')} ORDER BY updated DESC`.trim(),
+      hasFilters
+    };
+  }
+
+  private quote(value: string): string {
+    return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  }
+}
@@ -0,0 +1,467 @@
+import { DescriptionFormat } from './workspaceConfig';
+
+// The Markdown people actually type in chat: headings, paragraphs, bulleted/numbered lists (nested by
+// indentation), fenced code blocks, block quotes, horizontal rules, and inline bold, italic,
+// strikethrough, code and links. Single newlines inside a paragraph are kept as line breaks.
+
+export interface InlineMark {
+  type: 'strong' | 'em' | 'strike' | 'code' | 'link';
+  href?: string;
+}
+
+export type MarkdownInline =
+  | { type: 'text'; text: string; marks: InlineMark[] }
+  | { type: 'hardBreak' };
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; content: MarkdownInline[] }
+  | { type: 'paragraph'; content: MarkdownInline[] }
+  // Each item is a list of blocks: its text, then any nested lists
+  | { type: 'list'; ordered: boolean; items: MarkdownBlock[][] }
+  | { type: 'code'; language?: string; text: string }
+  | { type: 'quote'; content: MarkdownBlock[] }
+  | { type: 'rule' };
+
+const FENCE = /^\s*(```|~~~)\s*([\w+#.-]*)\s*$/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^\s{0,3}>\s?(.*)$/;
+const LIST_ITEM = /^(\s*)([-*+•]|\d+[.)])\s+(.*)$/;
+
+export function parseMarkdown(text: string): MarkdownBlock[] {
+  return parseBlocks(text.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n'));
+}
+
+// Markdown → the string Jira expects for a description or comment body (ADF as JSON)
+export function renderMarkdown(text: string, format: DescriptionFormat): string {
+  return format === 'adf' ? JSON.stringify(markdownToAdf(text)) : markdownToWiki(text);
+}
+
+export function markdownToAdf(text: string): any {
+  return { type: 'doc', version: 1, content: parseMarkdown(text).map(blockToAdf) };
+}
+
+export function markdownToWiki(text: string): string {
+  return parseMarkdown(text).map(block => blockToWiki(block, '')).join('\n\n');
+}
+
+// True when the text renders as a single unformatted paragraph, so a preview would add nothing
+export function isPlainText(text: string): boolean {
+  const blocks = parseMarkdown(text);
+  return blocks.length <= 1 &&
+         blocks.every(block => block.type === 'paragraph' &&
+           block.content.every(node => node.type === 'text' && node.marks.length === 0));
+}
+
+// Outline of the rendered structure for confirmation summaries:
+//   "H3 Steps to Reproduce", "1. Open /login", "⌨ code (ts, 4 lines)"
+export function previewMarkdown(text: string, maxLineLength: number = 70): string[] {
+  const fit = (line: string) => (line.length > maxLineLength ? `${line.substring(0, maxLineLength - 1)}…` : line);
+  const lines: string[] = [];
+
+  const previewBlocks = (blocks: MarkdownBlock[], indent: string) => {
+    for (const block of blocks) {
+      switch (block.type) {
+        case 'heading':
+          lines.push(fit(`${indent}H${block.level} ${plainText(block.content)}`));
+          break;
+        case 'paragraph':
+          lines.push(fit(`${indent}¶ ${plainText(block.content)}`));
+          break;
+        case 'list':
+          block.items.forEach((item, index) => {
+            const marker = block.ordered ? `${index + 1}.` : '•';
+            const [first, ...rest] = item;
+            lines.push(fit(`${indent}${marker} ${first && first.type === 'paragraph' ? plainText(first.content) : ''}`));
+            previewBlocks(first && first.type === 'paragraph' ? rest : item, `${indent}   `);
+          });
+          break;
+        case 'code': {
+          const count = block.text ? block.text.split('\n').length : 0;
+          lines.push(`${indent}⌨ code (${block.language ? `${block.language}, ` : ''}${count} line${count === 1 ? '' : 's'})`);
+          break;
+        }
+        case 'quote':
+          previewBlocks(block.content, `${indent}❝ `);
+          break;
+        case 'rule':
+          lines.push(`${indent}──────`);
+          break;
+      }
+    }
+  };
+
+  previewBlocks(parseMarkdown(text), '');
+  return lines;
+}
+
+// ADF read back from Jira → plain text for the terminal: blocks separated by blank lines, list items
+// with bullets or numbers (nested by indentation), code blocks indented, quotes prefixed with "> "
+export function adfToText(node: any): string {
+  if (!node || typeof node !== 'object') {
+    return typeof node === 'string' ? node : '';
+  }
+
+  const children: any[] = Array.isArray(node.content) ? node.content : [];
+  switch (node.type) {
+    case 'text':
+      return node.text || '';
+    case 'hardBreak':
+      return '\n';
+    case 'mention':
+    case 'emoji':
+      return node.attrs?.text || node.attrs?.shortName || '';
+    case 'inlineCard':
+      return node.attrs?.url || '';
+    case 'paragraph':
+    case 'heading':
+      return children.map(adfToText).join('');
+    case 'bulletList':
+    case 'orderedList':
+      return children.map((item, index) => {
+        const marker = node.type === 'orderedList' ? `${(node.attrs?.order || 1) + index}.` : '•';
+        const text = adfToText(item).split('\n');
+        return [`${marker} ${text[0]}`, ...text.slice(1).map(line => `  ${line}`)].join('\n');
+      }).join('\n');
+    case 'listItem':
+      return children.map(adfToText).join('\n');
+    case 'codeBlock':
+      return children.map(adfToText).join('').split('\n').map(line => `    ${line}`).join('\n');
+    case 'blockquote':
+      return children.map(adfToText).join('\n\n').split('\n').map(line => `> ${line}`).join('\n');
+    case 'rule':
+      return '───';
+    default:
+      return children.map(adfToText).filter(text => text.length > 0).join('\n\n');
+  }
+}
+
+function parseBlocks(lines: string[]): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', content: parseInlineLines(paragraph) });
+      paragraph = [];
+    }
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      flushParagraph();
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !new RegExp(`^\\s*${fence[1]}\\s*$`).test(lines[i])) {
+        code.push(lines[i]);
+        i++;
+      }
+      blocks.push({ type: 'code', language: fence[2] || undefined, text: code.join('\n') });
+      i++;
+      continue;
+    }
+
+    if (!line.trim()) {
+      flushParagraph();
+      i++;
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ type: 'heading', level: heading[1].length, content: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      flushParagraph();
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      flushParagraph();
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        quoted.push(lines[i].match(QUOTE)![1]);
+        i++;
+      }
+      blocks.push({ type: 'quote', content: parseBlocks(quoted) });
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      flushParagraph();
+      const { block, next } = parseList(lines, i);
+      blocks.push(block);
+      i = next;
+      continue;
+    }
+
+    paragraph.push(line.trim());
+    i++;
+  }
+
+  flushParagraph();
+  return blocks;
+}
+
+// A list runs until a blank line followed by something that isn't a list item, or until a line
+// indented less than its first marker. Deeper-indented items start nested lists.
+function parseList(lines: string[], start: number): { block: MarkdownBlock; next: number } {
+  const first = lines[start].match(LIST_ITEM)!;
+  const indent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const items: MarkdownBlock[][] = [];
+  let itemLines: string[] = [];
+  let nested: MarkdownBlock[] = [];
+
+  const flushItem = () => {
+    if (itemLines.length > 0 || nested.length > 0) {
+      items.push([...(itemLines.length > 0 ? [{ type: 'paragraph', content: parseInlineLines(itemLines) } as MarkdownBlock] : []), ...nested]);
+    }
+    itemLines = [];
+    nested = [];
+  };
+
+  let i = start;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      const following = lines[i + 1];
+      if (following !== undefined && LIST_ITEM.test(following) && following.match(LIST_ITEM)![1].length >= indent) {
+        i++;
+        continue;
+      }
+      break;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      const itemIndent = item[1].length;
+      if (itemIndent < indent) {
+        break;
+      }
+      if (itemIndent > indent) {
+        const { block, next } = parseList(lines, i);
+        nested.push(block);
+        i = next;
+        continue;
+      }
+      if (/\d/.test(item[2]) !== ordered) {
+        break;
+      }
+      flushItem();
+      itemLines.push(item[3].trim());
+      i++;
+      continue;
+    }
+
+    // Continuation of the current item, or the end of the list
+    if (line.match(/^(\s*)/)![1].length > indent && itemLines.length > 0) {
+      itemLines.push(line.trim());
+      i++;
+      continue;
+    }
+    if (FENCE.test(line) || HEADING.test(line) || QUOTE.test(line) || RULE.test(line) || itemLines.length === 0) {
+      break;
+    }
+    // Lazy continuation: an unindented line right after an item belongs to it
+    itemLines.push(line.trim());
+    i++;
+  }
+
+  flushItem();
+  return { block: { type: 'list', ordered, items }, next: i };
+}
+
+function parseInlineLines(lines: string[]): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  lines.forEach((line, index) => {
+    if (index > 0) {
+      nodes.push({ type: 'hardBreak' });
+    }
+    nodes.push(...parseInline(line));
+  });
+  return nodes;
+}
+
+// Every pattern's first group is text consumed before the token (empty for most)
+const INLINE_RULES: Array<{ pattern: RegExp; build: (match: RegExpMatchArray, marks: InlineMark[]) => MarkdownInline[] }> = [
+  {
+    pattern: /()`([^`\n]+)`/,
+    build: (match, marks) => [{ type: 'text', text: match[2], marks: [...marks, { type: 'code' }] }]
+  },
+  {
+    pattern: /()\[([^\]\n]+)\]\(([^)\s]+)\)/,
+    build: (match, marks) => parseInline(match[2], [...marks, { type: 'link', href: match[3] }])
+  },
+  {
+    pattern: /(^|[\s(])(https?:\/\/[^\s<>()]*[^\s<>().,;:!?'"])/,
+    build: (match, marks) => [{ type: 'text', text: match[2], marks: [...marks, { type: 'link', href: match[2] }] }]
+  },
+  {
+    pattern: /()(?:\*\*(?=\S)([^\n]+?)\*\*|__(?=\S)([^\n]+?)__)/,
+    build: (match, marks) => parseInline(match[2] || match[3], [...marks, { type: 'strong' }])
+  },
+  {
+    pattern: /()~~(?=\S)([^\n]+?)~~/,
+    build: (match, marks) => parseInline(match[2], [...marks, { type: 'strike' }])
+  },
+  {
+    pattern: /(^|[^\w*])\*(?=[^\s*])([^*\n]+?)\*(?!\*)/,
+    build: (match, marks) => parseInline(match[2], [...marks, { type: 'em' }])
+  },
+  {
+    pattern: /(^|[^\w_])_(?=[^\s_])([^_\n]+?)_(?!\w)/,
+    build: (match, marks) => parseInline(match[2], [...marks, { type: 'em' }])
+  }
+];
+
+function parseInline(text: string, marks: InlineMark[] = []): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let rest = text;
+
+  while (rest) {
+    let best: { start: number; end: number; nodes: MarkdownInline[] } | null = null;
+    for (const rule of INLINE_RULES) {
+      const match = rest.match(rule.pattern);
+      if (match && match.index !== undefined) {
+        const start = match.index + match[1].length;
+        if (!best || start < best.start) {
+          best = { start, end: match.index + match[0].length, nodes: rule.build(match, marks) };
+        }
+      }
+    }
+
+    if (!best) {
+      nodes.push({ type: 'text', text: rest, marks });
+      break;
+    }
+    if (best.start > 0) {
+      nodes.push({ type: 'text', text: rest.substring(0, best.start), marks });
+    }
+    nodes.push(...best.nodes);
+    rest = rest.substring(best.end);
+  }
+
+  return nodes.filter(node => node.type !== 'text' || node.text.length > 0);
+}
+
+function plainText(nodes: MarkdownInline[]): string {
+  return nodes.map(node => {
+    if (node.type === 'hardBreak') {
+      return ' ';
+    }
+    const link = node.marks.find(mark => mark.type === 'link');
+    return link && link.href !== node.text ? `${node.text} <${link.href}>` : node.text;
+  }).join('');
+}
+
+function blockToAdf(block: MarkdownBlock): any {
+  switch (block.type) {
+    case 'heading':
+      return { type: 'heading', attrs: { level: block.level }, content: inlineToAdf(block.content) };
+    case 'paragraph':
+      return { type: 'paragraph', content: inlineToAdf(block.content) };
+    case 'list':
+      return {
+        type: block.ordered ? 'orderedList' : 'bulletList',
+        content: block.items.map(item => ({
+          type: 'listItem',
+          // A list item has to start with a paragraph
+          content: (item[0] && item[0].type === 'paragraph' ? item : [{ type: 'paragraph', content: [] } as MarkdownBlock, ...item]).map(blockToAdf)
+        }))
+      };
+    case 'code':
+      return {
+        type: 'codeBlock',
+        attrs: block.language ? { language: block.language } : {},
+        content: block.text ? [{ type: 'text', text: block.text }] : []
+      };
+    case 'quote':
+      return { type: 'blockquote', content: block.content.map(blockToAdf) };
+    case 'rule':
+      return { type: 'rule' };
+  }
+}
+
+function inlineToAdf(nodes: MarkdownInline[]): any[] {
+  return nodes.map(node => {
+    if (node.type === 'hardBreak') {
+      return { type: 'hardBreak' };
+    }
+    // ADF only allows code to be combined with a link
+    const marks = node.marks.some(mark => mark.type === 'code')
+      ? node.marks.filter(mark => mark.type === 'code' || mark.type === 'link')
+      : node.marks;
+    const adfMarks = marks.map(mark => (mark.type === 'link' ? { type: 'link', attrs: { href: mark.href } } : { type: mark.type }));
+    return adfMarks.length > 0 ? { type: 'text', text: node.text, marks: adfMarks } : { type: 'text', text: node.text };
+  });
+}
+
+function blockToWiki(block: MarkdownBlock, listPrefix: string): string {
+  switch (block.type) {
+    case 'heading':
+      return `h${block.level}. ${inlineToWiki(block.content)}`;
+    case 'paragraph':
+      return inlineToWiki(block.content);
+    case 'list': {
+      const prefix = listPrefix + (block.ordered ? '#' : '*');
+      return block.items.map(item => {
+        const [first, ...rest] = item;
+        const lines = [`${prefix} ${first && first.type === 'paragraph' ? inlineToWiki(first.content) : ''}`];
+        for (const child of first && first.type === 'paragraph' ? rest : item) {
+          lines.push(child.type === 'list' ? blockToWiki(child, prefix) : blockToWiki(child, ''));
+        }
+        return lines.join('\n');
+      }).join('\n');
+    }
+    case 'code':
+      return `{code${block.language ? `:${block.language}` : ''}}\n${block.text}\n{code}`;
+    case 'quote':
+      return `{quote}\n${block.content.map(child => blockToWiki(child, '')).join('\n\n')}\n{quote}`;
+    case 'rule':
+      return '----';
+  }
+}
+
+// Brackets and braces would start links and macros, and *, _, -, +, ^, ~ bold, italicize, strike, underline,
+// superscript or subscript text between a pair ("not -2-", "_id_"); | splits table cells. A character with
+// whitespace on both sides can't open or close anything, and bare URLs are left alone so they still link.
+function escapeWikiText(text: string): string {
+  return text.split(/(https?:\/\/\S+)/).map((part, index) => index % 2 === 1
+    ? part
+    : part.replace(/[[\]{}|]|[*_\-+^~](?!\s)|(?<!\s)[*_\-+^~]/g, match => `\\${match}`)
+  ).join('');
+}
+
+function inlineToWiki(nodes: MarkdownInline[]): string {
+  return nodes.map(node => {
+    if (node.type === 'hardBreak') {
+      return '\n';
+    }
+
+    const code = node.marks.some(mark => mark.type === 'code');
+    let text = code ? `{{${node.text}}}` : escapeWikiText(node.text);
+    for (const mark of node.marks) {
+      if (mark.type === 'strong') text = `*${text}*`;
+      if (mark.type === 'em') text = `_${text}_`;
+      if (mark.type === 'strike') text = `-${text}-`;
+    }
+
+    const link = node.marks.find(mark => mark.type === 'link');
+    if (link) {
+      text = link.href === node.text ? `[${link.href}]` : `[${text}|${link.href}]`;
+    }
+    return text;
+  }).join('');
+}
@@ -0,0 +1,222 @@
+// MCPClient against the local mock server (mockMcpServer.ts): backoff, reconnecting after a dropped
+// session, and which failed calls are retried. Run with `npm test`.
+
+import { test, describe, before, after } from 'node:test';
+import * as assert from 'node:assert';
+import * as net from 'net';
+import * as path from 'path';
+import { ChildProcess, spawn } from 'child_process';
+import { ConnectionEvent } from './types';
+import { McpServerConfig } from './workspaceConfig';
+
+// Read when config.ts loads, so they're set before MCPClient is imported below. The tests pass
+// each client the mock's URL, so the configured MCP server is never used.
+process.env.OPENAI_API_KEY = process.env.OPENAI_API_KEY || 'test';
+process.env.ZAPIER_MCP_URL = process.env.ZAPIER_MCP_URL || 'http://localhost:8808/mcp';
+process.env.MCP_MAX_CONNECT_ATTEMPTS = '3';
+process.env.MCP_BACKOFF_BASE_MS = '100';
+process.env.MCP_BACKOFF_MAX_MS = '1000';
+process.env.MCP_REQUEST_TIMEOUT_MS = '10000';
+process.env.MCP_TOOL_RETRIES = '2';
+
+const { MCPClient }: typeof import('./mcpClient') = require('./mcpClient');
+const { MCP_CONFIG }: typeof import('./config') = require('./config');
+
+const FIND_ISSUE = 'jira_software_cloud_find_issue';
+const FIND_PROJECT = 'jira_software_cloud_find_project';
+const CREATE_ISSUE = 'jira_software_cloud_create_issue';
+
+interface MockServer {
+  url: string;
+  process: ChildProcess;
+  // Everything the mock has logged so far
+  output: () => string;
+  stop: () => Promise<void>;
+}
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.on('error', reject);
+    server.listen(0, () => {
+      const { port } = server.address() as net.AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+// Runs node directly rather than through npx, so the process we stop is the server itself
+async function startMock(env: { [name: string]: string }): Promise<MockServer> {
+  const port = await freePort();
+  const child = spawn(process.execPath, [require.resolve('ts-node/dist/bin.js'), '-T', path.join(__dirname, 'mockMcpServer.ts')], {
+    env: { ...process.env, ...env, MOCK_MCP_PORT: String(port) },
+    stdio: ['ignore', 'pipe', 'pipe']
+  });
+  let output = '';
+  child.stdout!.on('data', chunk => { output += chunk; });
+  child.stderr!.on('data', chunk => { output += chunk; });
+
+  const stop = () => new Promise<void>(resolve => {
+    if (child.exitCode !== null || child.signalCode !== null) {
+      resolve();
+      return;
+    }
+    child.once('exit', () => resolve());
+    child.kill();
+  });
+
+  try {
+    await waitFor(() => output.includes('Mock Zapier MCP server on'), 60000, () => `the mock didn't start:\n${output}`);
+  } catch (error) {
+    await stop();
+    throw error;
+  }
+  return { url: `http://localhost:${port}/mcp`, process: child, output: () => output, stop };
+}
+
+async function waitFor(condition: () => boolean, timeoutMs: number, explain: () => string): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out: ${explain()}`);
+    }
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+}
+
+function serverConfig(url: string): McpServerConfig {
+  return { transport: 'http', url, headers: {}, args: [], env: {}, tools: {} };
+}
+
+function count(text: string, needle: string): number {
+  return text.split(needle).length - 1;
+}
+
+describe('MCPClient', () => {
+  function createClient(url: string) {
+    const client = new MCPClient(serverConfig(url));
+    const events: ConnectionEvent[] = [];
+    client.onStateChange(event => events.push(event));
+    return { client, events };
+  }
+
+  test('backs off exponentially between connection attempts, then gives up', async () => {
+    const { client, events } = createClient(`http://localhost:${await freePort()}/mcp`);
+
+    const started = Date.now();
+    await assert.rejects(client.connect(), /MCP connection failed/);
+
+    const waits = events.filter(event => event.retryInMs !== undefined);
+    assert.deepStrictEqual(waits.map(event => event.attempt), [1, 2]);
+    // Equal jitter: between half and all of base * 2^(attempt - 1)
+    waits.forEach((event, index) => {
+      const exponential = MCP_CONFIG.BACKOFF_BASE_MS * Math.pow(2, index);
+      assert.ok(event.retryInMs! >= exponential / 2 && event.retryInMs! <= exponential, `attempt ${event.attempt} waited ${event.retryInMs}ms`);
+    });
+    assert.ok(Date.now() - started >= waits.reduce((total, event) => total + event.retryInMs!, 0));
+    assert.strictEqual(events[events.length - 1].state, 'failed');
+    assert.strictEqual(events[events.length - 1].attempt, MCP_CONFIG.MAX_CONNECT_ATTEMPTS);
+    assert.strictEqual(client.getState(), 'failed');
+  });
+
+  describe('when sessions expire (MOCK_MCP_DROP_EVERY)', () => {
+    let mock: MockServer;
+    before(async () => { mock = await startMock({ MOCK_MCP_DROP_EVERY: '2' }); });
+    after(async () => { await mock.stop(); });
+
+    test('reconnects and resends a call that never reached the server', async () => {
+      const { client, events } = createClient(mock.url);
+      await client.connect();
+      try {
+        const first = await client.callTool({ name: CREATE_ISSUE, arguments: { instructions: 'Create', project: 'ENG', summary: 'First' } });
+        assert.strictEqual(first.isError, false);
+
+        // The 2nd tool call expires the session: the client gets a 404 and the create never runs
+        const second = await client.callTool({ name: CREATE_ISSUE, arguments: { instructions: 'Create', project: 'ENG', summary: 'Second' } });
+        assert.strictEqual(second.isError, false, second.content[0]?.text);
+        assert.match(second.content[0].text, /"key":"ENG-2"/);
+
+        assert.deepStrictEqual(events.map(event => event.state).slice(-3), ['disconnected', 'reconnecting', 'connected']);
+        assert.strictEqual(client.isClientConnected(), true);
+      } finally {
+        await client.disconnect();
+      }
+    });
+
+    test('reconnects with backoff once the server is gone, then reports it unreachable', async () => {
+      const { client, events } = createClient(mock.url);
+      await client.connect();
+      await mock.stop();
+
+      const result = await client.callTool({ name: FIND_PROJECT, arguments: { instructions: 'Find', searchByParameter: 'ENG' } });
+      assert.strictEqual(result.isError, true);
+      assert.match(result.content[0].text, /could not reach the MCP server/);
+
+      const reconnecting = events.filter(event => event.state === 'reconnecting' && event.retryInMs !== undefined);
+      assert.deepStrictEqual(reconnecting.map(event => event.attempt), [1, 2]);
+      assert.ok(reconnecting[1].retryInMs! >= MCP_CONFIG.BACKOFF_BASE_MS, `second wait was ${reconnecting[1].retryInMs}ms`);
+      assert.strictEqual(client.getState(), 'failed');
+      await client.disconnect();
+    });
+  });
+
+  describe('when the connection breaks mid-request (MOCK_MCP_FAIL_RATE=1)', () => {
+    let mock: MockServer;
+    before(async () => { mock = await startMock({ MOCK_MCP_FAIL_RATE: '1' }); });
+    after(async () => { await mock.stop(); });
+
+    test('retries idempotent tools', async () => {
+      const { client } = createClient(mock.url);
+      await client.connect();
+      try {
+        const result = await client.callTool({ name: FIND_ISSUE, arguments: { instructions: 'Find', key: 'ENG-1' } });
+        assert.strictEqual(result.isError, true);
+
+        const cut = `Cutting the connection during ${FIND_ISSUE}`;
+        await waitFor(() => count(mock.output(), cut) >= 1 + MCP_CONFIG.TOOL_RETRIES, 5000, () => mock.output());
+        assert.strictEqual(count(mock.output(), cut), 1 + MCP_CONFIG.TOOL_RETRIES);
+      } finally {
+        await client.disconnect();
+      }
+    });
+
+    test("doesn't retry other tools, and says the change may have been applied", async () => {
+      const { client } = createClient(mock.url);
+      await client.connect();
+      try {
+        const result = await client.callTool({ name: CREATE_ISSUE, arguments: { instructions: 'Create', project: 'ENG', summary: 'Flaky' } });
+        assert.strictEqual(result.isError, true);
+        assert.match(result.content[0].text, /may or may not have been applied/);
+
+        // Give a retry, if there were one, time to arrive
+        await new Promise(resolve => setTimeout(resolve, 500));
+        assert.strictEqual(count(mock.output(), `Cutting the connection during ${CREATE_ISSUE}`), 1);
+      } finally {
+        await client.disconnect();
+      }
+    });
+  });
+
+  describe('when the server answers 400 (MOCK_MCP_REJECT_TOOLS)', () => {
+    let mock: MockServer;
+    before(async () => { mock = await startMock({ MOCK_MCP_REJECT_TOOLS: FIND_ISSUE }); });
+    after(async () => { await mock.stop(); });
+
+    test("doesn't retry, even an idempotent tool, and keeps the session", async () => {
+      const { client, events } = createClient(mock.url);
+      await client.connect();
+      try {
+        const result = await client.callTool({ name: FIND_ISSUE, arguments: { instructions: 'Find', key: 'ENG-1' } });
+        assert.strictEqual(result.isError, true);
+        assert.match(result.content[0].text, /Bad Request/);
+
+        await new Promise(resolve => setTimeout(resolve, 500));
+        assert.strictEqual(count(mock.output(), `Rejecting ${FIND_ISSUE}`), 1);
+        assert.strictEqual(events.some(event => event.state === 'disconnected' || event.state === 'reconnecting'), false);
+        assert.strictEqual(client.isClientConnected(), true);
+      } finally {
+        await client.disconnect();
+      }
+    });
+  });
+});
@@ -1,7 +1,13 @@
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
-import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
-import { MCPToolCall, MCPToolResult } from './types';
-import { ZAPIER_MCP_URL } from './config';
+import { StreamableHTTPClientTransport, StreamableHTTPError } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { SSEClientTransport, SseError } from "@modelcontextprotocol/sdk/client/sse.js";
+import { StdioClientTransport, getDefaultEnvironment } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { ConnectionEvent, ConnectionState, HealthStatus, MCPToolCall, MCPToolResult } from './types';
+import { McpServerConfig } from './workspaceConfig';
+import { ToolCatalog } from './toolSchemas';
+import { MCP_CONFIG, MCP_SERVER } from './config';
 
 // Helper to extract a human-readable error message
 function getErrorMessage(error: any): string {
@@ -14,23 +20,59 @@ function getErrorMessage(error: any): string {
   }
 }
 
+// How a failed call relates to the connection:
+//   not_delivered - the request never reached the server (expired session, refused connection), safe to resend
+//   connection    - the connection broke while the request was in flight; the server may have applied it
+//   other         - the server answered with an error; retrying won't help
+type FailureKind = 'not_delivered' | 'connection' | 'other';
+
+function classifyFailure(error: any): FailureKind {
+  if (error instanceof StreamableHTTPError || error instanceof SseError) {
+    // 404 is how Streamable HTTP servers report an unknown session. A 400 is the server rejecting the
+    // request itself, so resending it over a new session would only be rejected again.
+    if (error.code === 404) return 'not_delivered';
+    if (error.code !== undefined && (error.code >= 500 || error.code === 408 || error.code === 429)) return 'connection';
+    return 'other';
+  }
+  if (error instanceof McpError) {
+    return error.code === ErrorCode.RequestTimeout || error.code === ErrorCode.ConnectionClosed ? 'connection' : 'other';
+  }
+
+  const code = error?.cause?.code || error?.code;
+  if (code === 'ECONNREFUSED' || code === 'ENOTFOUND' || code === 'EAI_AGAIN') return 'not_delivered';
+
+  const message = getErrorMessage(error).toLowerCase();
+  if (message.includes('not connected')) return 'not_delivered';
+  if (/fetch failed|econnreset|socket|network|timed? ?out|closed|terminated/.test(message)) return 'connection';
+  return 'other';
+}
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// "Streamable HTTP https://mcp.zapier.com/...", "stdio: npx -y jira-mcp"
+export function describeMcpServer(server: McpServerConfig): string {
+  switch (server.transport) {
+    case 'stdio': return `stdio: ${[server.command, ...server.args].join(' ')}`;
+    case 'sse': return `SSE ${server.url}`;
+    default: return `Streamable HTTP ${server.url}`;
+  }
+}
+
 export class MCPClient {
   private client: Client | null = null;
-  private transport: StreamableHTTPClientTransport | null = null;
+  private transport: Transport | null = null;
   private isConnected: boolean = false;
+  private state: ConnectionState = 'disconnected';
+  // Set once connect() is called; a later drop reconnects instead of failing with "Call connect() first"
+  private connectRequested: boolean = false;
+  // Set while we close the session ourselves, so onclose doesn't report it as a drop
+  private closing: boolean = false;
+  private reconnecting: Promise<void> | null = null;
+  private listeners: Array<(event: ConnectionEvent) => void> = [];
+  // Tool schemas of the current session; a reconnect reloads them in case the server changed
+  private catalog: ToolCatalog = new ToolCatalog();
 
-  constructor() {
-    // Initialize the MCP client
-    this.client = new Client(
-      {
-        name: "jira-ai-agent",
-        version: "1.0.0",
-      },
-      {
-        capabilities: {},
-      }
-    );
-  }
+  constructor(private server: McpServerConfig = MCP_SERVER) {}
 
   async connect(): Promise<void> {
     if (this.isConnected) {
@@ -38,120 +80,350 @@ export class MCPClient {
       return;
     }
 
+    this.connectRequested = true;
+    console.log(`🔗 Connecting to MCP server (${describeMcpServer(this.server)})...`);
     try {
-      console.log('🔗 Connecting to Zapier MCP server...');
-      
-      // Create transport with the server URL
-      this.transport = new StreamableHTTPClientTransport(new URL(ZAPIER_MCP_URL));
-      
-      // Connect to the server
-      await this.client!.connect(this.transport);
-      
-      this.isConnected = true;
-      console.log('✅ Connected to Zapier MCP server');
-      
-      // Log available tools for debugging
-      await this.logAvailableTools();
-      
+      await this.connectWithBackoff('connecting');
     } catch (error) {
-      console.error('❌ Failed to connect to MCP server:', error);
-      throw new Error(`MCP connection failed: ${error}`);
+      console.error('❌ Failed to connect to MCP server:', getErrorMessage(error));
+      throw new Error(`MCP connection failed: ${getErrorMessage(error)}`);
     }
+    console.log('✅ Connected to MCP server');
+
+    // Log available tools for debugging
+    await this.logAvailableTools();
+  }
+
+  // Opens a fresh session after a drop. Concurrent callers share the same attempt.
+  async reconnect(): Promise<void> {
+    if (!this.reconnecting) {
+      this.connectRequested = true;
+      this.reconnecting = this.closeSession()
+        .then(() => this.connectWithBackoff('reconnecting'))
+        .then(
+          () => { this.reconnecting = null; },
+          error => { this.reconnecting = null; throw error; }
+        );
+    }
+    return this.reconnecting;
   }
 
   async disconnect(): Promise<void> {
+    this.connectRequested = false;
     if (!this.isConnected) {
       return;
     }
 
+    await this.closeSession();
+    this.setState({ state: 'disconnected' });
+    console.log('🔌 Disconnected from MCP server');
+  }
+
+  async listTools(): Promise<any[]> {
+    await this.ensureConnected();
+
     try {
-      if (this.transport) {
-        await this.transport.close();
+      return await this.fetchTools(this.client!);
+    } catch (error) {
+      console.error('Error listing tools:', error);
+      throw new Error(`Failed to list tools: ${error}`);
+    }
+  }
+
+  // Calls a tool, reconnecting when the session has dropped. Requests that never reached the server are
+  // resent; requests lost in flight are only resent for idempotent tools, since the server may have applied them.
+  async callTool(toolCall: MCPToolCall): Promise<MCPToolResult> {
+    console.log(`🔧 Calling tool: ${toolCall.name}`);
+    console.log('📋 Arguments:', JSON.stringify(toolCall.arguments, null, 2));
+
+    const idempotent = toolCall.idempotent ?? this.isIdempotent(toolCall.name);
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await this.ensureConnected();
+      } catch (error) {
+        // connectWithBackoff has already retried; don't start another round for each tool retry
+        console.error(`❌ Tool call failed for ${toolCall.name}:`, getErrorMessage(error));
+        return {
+          content: [{
+            type: 'text',
+            text: `Error calling tool ${toolCall.name}: could not reach the MCP server (${getErrorMessage(error)})`
+          }],
+          isError: true
+        };
       }
-      if (this.client) {
-        await this.client.close();
+
+      // Checked against the schema the server published, so a mismatch fails here with a clear reason
+      if (!this.catalog.has(toolCall.name)) {
+        return {
+          content: [{ type: 'text', text: `The MCP server has no tool named ${toolCall.name}` }],
+          isError: true
+        };
+      }
+      const prepared = this.catalog.prepare(toolCall.name, toolCall.arguments);
+      if (prepared.dropped.length > 0 && attempt === 0) {
+        console.log(`🧹 Left out arguments ${toolCall.name} doesn't accept: ${prepared.dropped.join(', ')}`);
+      }
+      if (prepared.problems.length > 0) {
+        console.error(`❌ Not calling ${toolCall.name}: ${prepared.problems.join('; ')}`);
+        return {
+          content: [{ type: 'text', text: `Invalid arguments for ${toolCall.name}: ${prepared.problems.join('; ')}` }],
+          isError: true
+        };
+      }
+
+      try {
+        const rawResult = await this.client!.callTool({
+          name: toolCall.name,
+          arguments: prepared.arguments,
+        }, undefined, { timeout: MCP_CONFIG.REQUEST_TIMEOUT_MS });
+
+        // Ensure content is an array of { type: string; text: string }
+        const content = Array.isArray(rawResult.content)
+          ? rawResult.content.map((item: any) => ({
+              type: typeof item.type === 'string' ? item.type : 'text',
+              text: typeof item.text === 'string' ? item.text : JSON.stringify(item.text)
+            }))
+          : [];
+
+        return {
+          content,
+          isError: Boolean(rawResult.isError),
+          ...(rawResult.error && { error: rawResult.error })
+        };
+
+      } catch (error) {
+        const kind = classifyFailure(error);
+        const retryable = kind === 'not_delivered' || (kind === 'connection' && idempotent);
+
+        if (kind !== 'other') {
+          this.markDropped(error);
+        }
+        if (retryable && attempt < MCP_CONFIG.TOOL_RETRIES) {
+          console.log(`🔁 ${toolCall.name} failed (${getErrorMessage(error)}), retrying after reconnecting...`);
+          continue;
+        }
+
+        console.error(`❌ Tool call failed for ${toolCall.name}:`, getErrorMessage(error));
+        const note = kind === 'connection' && !idempotent
+          ? ' The connection dropped mid-request, so the change may or may not have been applied in Jira.'
+          : '';
+        return {
+          content: [{
+            type: 'text',
+            text: `Error calling tool ${toolCall.name}: ${getErrorMessage(error)}.${note}`
+          }],
+          isError: true
+        };
       }
-      this.isConnected = false;
-      console.log('🔌 Disconnected from MCP server');
-    } catch (error) {
-      console.error('Error disconnecting from MCP server:', error);
     }
   }
 
-  async listTools(): Promise<any[]> {
+  // Round trip to the server without touching Jira. Servers without ping support are checked with tools/list.
+  async healthCheck(): Promise<HealthStatus> {
     if (!this.isConnected || !this.client) {
-      throw new Error('MCP client not connected. Call connect() first.');
+      return { ok: false, state: this.state, error: 'Not connected' };
     }
 
+    const started = Date.now();
+    const options = { timeout: MCP_CONFIG.HEALTH_CHECK_TIMEOUT_MS };
     try {
-      const tools = await this.client.listTools();
-      return tools.tools || [];
+      try {
+        await this.client.ping(options);
+      } catch (error) {
+        if (!(error instanceof McpError && error.code === ErrorCode.MethodNotFound)) {
+          throw error;
+        }
+        await this.client.listTools(undefined, options);
+      }
+      return { ok: true, state: this.state, latencyMs: Date.now() - started };
     } catch (error) {
-      console.error('Error listing tools:', error);
-      throw new Error(`Failed to list tools: ${error}`);
+      if (classifyFailure(error) !== 'other') {
+        this.markDropped(error);
+      }
+      return { ok: false, state: this.state, error: getErrorMessage(error) };
     }
   }
 
-  async callTool(toolCall: MCPToolCall): Promise<MCPToolResult> {
-    if (!this.isConnected || !this.client) {
+  // Returns a function that removes the listener
+  onStateChange(listener: (event: ConnectionEvent) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(existing => existing !== listener);
+    };
+  }
+
+  // False only once the tool list is known and the tool isn't on it
+  hasTool(toolName: string): boolean {
+    return this.catalog.has(toolName);
+  }
+
+  acceptsArgument(toolName: string, argument: string): boolean {
+    return this.catalog.accepts(toolName, argument);
+  }
+
+  // Empty until the first session has listed its tools
+  getToolNames(): string[] {
+    return this.catalog.names();
+  }
+
+  getState(): ConnectionState {
+    return this.state;
+  }
+
+  // By name: any word of jira_find_issue, getJiraIssue or search-issues is one of IDEMPOTENT_VERBS
+  isIdempotent(toolName: string): boolean {
+    const words = toolName.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase().split(/[_\-.\s]+/);
+    return MCP_CONFIG.IDEMPOTENT_VERBS.some(verb => words.includes(verb.toLowerCase()));
+  }
+
+  private async ensureConnected(): Promise<void> {
+    if (this.isConnected && this.client) {
+      return;
+    }
+    if (!this.connectRequested) {
       throw new Error('MCP client not connected. Call connect() first.');
     }
+    await this.reconnect();
+  }
+
+  // Exponential backoff with equal jitter: half the delay is fixed, half random, so clients that
+  // dropped together don't all come back at the same moment
+  private async connectWithBackoff(mode: 'connecting' | 'reconnecting'): Promise<void> {
+    const maxAttempts = Math.max(1, MCP_CONFIG.MAX_CONNECT_ATTEMPTS);
+    this.setState({ state: mode, maxAttempts });
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.openSession();
+        this.setState({ state: 'connected' });
+        return;
+      } catch (error) {
+        await this.closeSession();
+        if (attempt >= maxAttempts) {
+          this.setState({ state: 'failed', attempt, maxAttempts, error: getErrorMessage(error) });
+          throw error;
+        }
+
+        const exponential = Math.min(MCP_CONFIG.BACKOFF_MAX_MS, MCP_CONFIG.BACKOFF_BASE_MS * Math.pow(2, attempt - 1));
+        const retryInMs = Math.round(exponential / 2 + Math.random() * exponential / 2);
+        this.setState({ state: mode, attempt, maxAttempts, retryInMs, error: getErrorMessage(error) });
+        await sleep(retryInMs);
+      }
+    }
+  }
+
+  // A Client holds on to its transport, so every session gets a new one
+  private async openSession(): Promise<void> {
+    const client = new Client(
+      {
+        name: "jira-ai-agent",
+        version: "1.0.0",
+      },
+      {
+        capabilities: {},
+      }
+    );
+    const transport = this.createTransport();
+    client.onclose = () => {
+      if (!this.closing && this.client === client) {
+        this.markDropped('connection closed');
+      }
+    };
 
+    this.client = client;
+    this.transport = transport;
+    await client.connect(transport, { timeout: MCP_CONFIG.REQUEST_TIMEOUT_MS });
+    this.isConnected = true;
+
+    // Without the tool list calls go out unchecked, as before schemas were loaded
     try {
-      console.log(`🔧 Calling tool: ${toolCall.name}`);
-      console.log('📋 Arguments:', JSON.stringify(toolCall.arguments, null, 2));
-      
-      const rawResult = await this.client.callTool({
-        name: toolCall.name,
-        arguments: toolCall.arguments,
-      });
-
-      // Ensure content is an array of { type: string; text: string }
-      const content = Array.isArray(rawResult.content)
-        ? rawResult.content.map((item: any) => ({
-            type: typeof item.type === 'string' ? item.type : 'text',
-            text: typeof item.text === 'string' ? item.text : JSON.stringify(item.text)
-          }))
-        : [];
-
-      return {
-        content,
-        isError: Boolean(rawResult.isError),
-        ...(rawResult.error && { error: rawResult.error })
-      };
-      
+      this.catalog.load(await this.fetchTools(client));
     } catch (error) {
-      console.error(`❌ Tool call failed for ${toolCall.name}:`, error);
-      return {
-        content: [{
-          type: 'text',
-          text: `Error calling tool ${toolCall.name}: ${getErrorMessage(error)}`
-        }],
-        isError: true
-      };
+      this.catalog.clear();
+      console.warn(`⚠️  Could not load the MCP tool list; arguments won't be checked (${getErrorMessage(error)})`);
     }
   }
 
-  private async logAvailableTools(): Promise<void> {
+  // All pages of tools/list
+  private async fetchTools(client: Client): Promise<any[]> {
+    const tools: any[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await client.listTools(cursor ? { cursor } : undefined, { timeout: MCP_CONFIG.REQUEST_TIMEOUT_MS });
+      tools.push(...(page.tools || []));
+      cursor = page.nextCursor;
+    } while (cursor);
+    return tools;
+  }
+
+  private createTransport(): Transport {
+    const { transport, url, headers, command, args, env, cwd } = this.server;
+    switch (transport) {
+      case 'stdio':
+        // A fresh process per session; its stderr shows up in our console
+        return new StdioClientTransport({ command: command!, args, env: { ...getDefaultEnvironment(), ...env }, cwd });
+      case 'sse':
+        return new SSEClientTransport(new URL(url!), { requestInit: { headers } });
+      default:
+        return new StreamableHTTPClientTransport(new URL(url!), { requestInit: { headers } });
+    }
+  }
+
+  private async closeSession(): Promise<void> {
+    const client = this.client;
+    this.isConnected = false;
+    this.client = null;
+    this.transport = null;
+    if (!client) {
+      return;
+    }
+
+    this.closing = true;
     try {
-      const tools = await this.listTools();
-      console.log('\n📦 Available Jira tools:');
-      // Filter and display only Jira tools
-      const jiraTools = tools.filter(tool => 
-        tool.name && tool.name.includes('jira_software_cloud')
-      );
-      jiraTools.forEach(tool => {
-        console.log(`  • ${tool.name}`);
-        if (tool.description) {
-          console.log(`    ${tool.description}`);
-        }
-      });
-      console.log('');
+      await client.close();
     } catch (error) {
-      console.log('Could not fetch available tools:', error);
+      // The session is usually already gone when we get here
+    } finally {
+      this.closing = false;
     }
   }
 
+  // The next call reconnects; listeners hear about it now
+  private markDropped(error: any): void {
+    if (!this.isConnected) {
+      return;
+    }
+    this.isConnected = false;
+    this.setState({ state: 'disconnected', error: getErrorMessage(error) });
+  }
+
+  private setState(event: ConnectionEvent): void {
+    this.state = event.state;
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Connection listener failed:', error);
+      }
+    }
+  }
+
+  private async logAvailableTools(): Promise<void> {
+    if (!this.catalog.isLoaded()) {
+      return;
+    }
+
+    console.log('\n📦 Available Jira tools:');
+    // Filter and display only Jira tools, with the arguments each one requires
+    const jiraTools = this.catalog.names().filter(name => /jira/i.test(name));
+    jiraTools.forEach(name => {
+      const required = this.catalog.requiredArguments(name);
+      console.log(`  • ${name}${required.length > 0 ? ` (requires ${required.join(', ')})` : ''}`);
+    });
+    console.log('');
+  }
+
+
   isClientConnected(): boolean {
     return this.isConnected;
   }
@@ -0,0 +1,345 @@
+// Local stand-in for the Zapier MCP server, for trying the agent without Jira and for testing how it
+// copes with dropped sessions. Keeps issues in memory and answers the jira_software_cloud_* tools with
+// the same JSON shapes Zapier returns.
+//
+//   npm run mock:mcp                       then ZAPIER_MCP_URL=http://localhost:8808/mcp npm start
+//   MOCK_MCP_DROP_EVERY=3                  expire every session on each 3rd tool call (the client gets a 404)
+//   MOCK_MCP_FAIL_RATE=0.2                 cut the connection mid-request on 20% of tool calls
+//   MOCK_MCP_LOSE_RATE=0.2                 run 20% of tool calls but cut the connection before replying
+//   MOCK_MCP_HIDE_TOOLS=a,b                leave tools a and b out, like a server that can't do everything
+//   MOCK_MCP_REJECT_TOOLS=a,b              answer calls to tools a and b with 400 Bad Request
+//   curl -X POST localhost:8808/__drop     expire every session now
+//   ts-node mockMcpServer.ts --stdio       serve one client over stdin/stdout (MCP_COMMAND=npx MCP_ARGS="ts-node mockMcpServer.ts --stdio")
+
+import * as http from 'http';
+import { randomUUID } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { CallToolRequestSchema, ListToolsRequestSchema, isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+const PORT = parseInt(process.env.MOCK_MCP_PORT || '8808', 10);
+const DROP_EVERY = parseInt(process.env.MOCK_MCP_DROP_EVERY || '0', 10);
+const FAIL_RATE = parseFloat(process.env.MOCK_MCP_FAIL_RATE || '0');
+const LOSE_RATE = parseFloat(process.env.MOCK_MCP_LOSE_RATE || '0');
+const HIDDEN_TOOLS = (process.env.MOCK_MCP_HIDE_TOOLS || '').split(',').map(name => name.trim()).filter(Boolean);
+const REJECTED_TOOLS = (process.env.MOCK_MCP_REJECT_TOOLS || '').split(',').map(name => name.trim()).filter(Boolean);
+const SITE_URL = `http://localhost:${PORT}`;
+
+interface MockIssue {
+  key: string;
+  id: string;
+  fields: { [name: string]: any };
+}
+
+const projects = [
+  { key: 'ENG', name: 'FV Engineering', id: '10000' },
+  { key: 'DEMO', name: 'FV Demo', id: '10001' }
+];
+
+const users = [
+  { accountId: 'u-1', displayName: 'Priya Patel', emailAddress: 'priya@example.com' },
+  { accountId: 'u-2', displayName: 'Sam Lee', emailAddress: 'sam@example.com' }
+];
+
+const transitions = [
+  { id: '11', name: 'To Do', to: { name: 'To Do' } },
+  { id: '21', name: 'Start Progress', to: { name: 'In Progress' } },
+  { id: '31', name: 'Done', to: { name: 'Done' } }
+];
+
+const issues = new Map<string, MockIssue>();
+const counters: { [projectKey: string]: number } = {};
+
+function createIssue(args: any): MockIssue {
+  const project = findProject(args.project) || projects[0];
+  counters[project.key] = (counters[project.key] || 0) + 1;
+  const now = new Date().toISOString();
+  const issue: MockIssue = {
+    key: `${project.key}-${counters[project.key]}`,
+    id: String(20000 + issues.size),
+    fields: {
+      summary: args.summary || 'Untitled',
+      description: args.description || null,
+      project: { key: project.key, name: project.name },
+      issuetype: { name: args.issueType || 'Task' },
+      priority: { name: args.priority || 'Medium' },
+      status: { name: 'To Do' },
+      assignee: args.assignee ? findUser(args.assignee) || null : null,
+      reporter: users[0],
+      labels: args.labels || [],
+      components: (args.components || []).map((name: string) => ({ name })),
+      parent: args.parent ? { key: args.parent } : undefined,
+      duedate: args.duedate || null,
+      created: now,
+      updated: now,
+      comment: { comments: [] },
+      issuelinks: []
+    }
+  };
+  issues.set(issue.key, issue);
+  return issue;
+}
+
+function findProject(value: string | undefined) {
+  const lower = (value || '').toLowerCase();
+  return projects.find(project => project.key.toLowerCase() === lower || project.name.toLowerCase() === lower);
+}
+
+function findUser(value: string) {
+  const lower = value.toLowerCase();
+  return users.find(user =>
+    user.accountId === value || user.emailAddress === lower || user.displayName.toLowerCase().includes(lower));
+}
+
+function requireIssue(key: string | undefined): MockIssue {
+  const issue = issues.get((key || '').toUpperCase());
+  if (!issue) {
+    throw new Error(`Issue ${key} does not exist or you do not have permission to see it.`);
+  }
+  return issue;
+}
+
+const success = (results: any[], extra: { [key: string]: any } = {}) => ({ execution: { status: 'SUCCESS' }, results, ...extra });
+
+const TOOLS: { [name: string]: (args: any) => any } = {
+  jira_software_cloud_find_project: args => {
+    const query = (args.searchByParameter || '').toLowerCase();
+    return success(projects.filter(project =>
+      !query || project.key.toLowerCase() === query || project.name.toLowerCase().includes(query)));
+  },
+  jira_software_cloud_find_user: args => success(users.filter(user => !args.query || findUser(args.query) === user)),
+  jira_software_cloud_create_issue: args => {
+    const issue = createIssue(args);
+    return success([issue], { issueUrl: `${SITE_URL}/browse/${issue.key}` });
+  },
+  jira_software_cloud_find_issue: args => {
+    if (args.key) {
+      const issue = issues.get(args.key.toUpperCase());
+      return success(issue ? [issue] : []);
+    }
+    const label = (args.jql || '').match(/labels\s*=\s*"?([\w-]+)"?/i);
+    if (label) {
+      return success(Array.from(issues.values()).filter(issue => issue.fields.labels.includes(label[1])));
+    }
+    const words = `${args.summary || ''} ${args.jql || ''}`.toLowerCase().split(/\W+/).filter(word => word.length > 2);
+    return success(Array.from(issues.values()).filter(issue =>
+      words.length === 0 || words.some(word => issue.fields.summary.toLowerCase().includes(word))));
+  },
+  jira_software_cloud_update_issue: args => {
+    const issue = requireIssue(args.issueKey);
+    if (args.summary) issue.fields.summary = args.summary;
+    if (args.description) issue.fields.description = args.description;
+    if (args.issueType) issue.fields.issuetype = { name: args.issueType };
+    if (args.priority) issue.fields.priority = { name: args.priority };
+    if (args.assignee) issue.fields.assignee = findUser(args.assignee) || null;
+    issue.fields.updated = new Date().toISOString();
+    return success([issue]);
+  },
+  jira_software_cloud_add_comment_to_issue: args => {
+    const issue = requireIssue(args.issueKey);
+    const comment = { id: randomUUID(), author: users[0], body: args.comment, created: new Date().toISOString() };
+    issue.fields.comment.comments.push(comment);
+    return success([comment]);
+  },
+  jira_software_cloud_find_transitions: args => {
+    requireIssue(args.issueKey);
+    return { transitions };
+  },
+  jira_software_cloud_transition_issue: args => {
+    const issue = requireIssue(args.issueKey);
+    const transition = transitions.find(t => t.id === args.transitionId || t.name === args.transitionName);
+    if (!transition) {
+      throw new Error(`Transition ${args.transitionId || args.transitionName} is not valid for ${issue.key}`);
+    }
+    issue.fields.status = { name: transition.to.name };
+    return success([issue]);
+  },
+  jira_software_cloud_link_issues: args => {
+    const outward = requireIssue(args.outwardIssue);
+    const inward = requireIssue(args.inwardIssue);
+    const type = { name: args.linkType, outward: args.linkType.toLowerCase(), inward: args.linkType.toLowerCase() };
+    outward.fields.issuelinks.push({ type, inwardIssue: { key: inward.key, fields: { summary: inward.fields.summary, status: inward.fields.status } } });
+    inward.fields.issuelinks.push({ type, outwardIssue: { key: outward.key, fields: { summary: outward.fields.summary, status: outward.fields.status } } });
+    return success([]);
+  },
+  jira_software_cloud_add_attachment: args => {
+    requireIssue(args.issueKey);
+    return success([{ filename: args.filename, size: Buffer.from(args.file || '', 'base64').length }]);
+  }
+};
+
+// Declared the way Zapier declares them: instructions plus the fields each action understands
+const string = { type: 'string' };
+const strings = { type: 'array', items: string };
+const format = { type: 'string', enum: ['wiki', 'adf'] };
+const SCHEMAS: { [name: string]: { properties: { [name: string]: object }; required: string[] } } = {
+  jira_software_cloud_find_project: { properties: { searchByParameter: string }, required: [] },
+  jira_software_cloud_find_user: { properties: { query: string }, required: ['query'] },
+  jira_software_cloud_create_issue: {
+    properties: {
+      project: string, summary: string, description: string, descriptionFormat: format, issueType: string, priority: string,
+      labels: strings, components: strings, assignee: string, reporter: string, fixVersions: strings, duedate: string,
+      storyPoints: { type: 'number' }, customFields: { type: 'object' }, parent: string
+    },
+    required: ['project', 'summary']
+  },
+  jira_software_cloud_find_issue: { properties: { key: string, summary: string, jql: string }, required: [] },
+  jira_software_cloud_update_issue: {
+    properties: {
+      issueKey: string, summary: string, description: string, descriptionFormat: format, issueType: string,
+      priority: string, assignee: string, reporter: string
+    },
+    required: ['issueKey']
+  },
+  jira_software_cloud_add_comment_to_issue: { properties: { issueKey: string, comment: string, commentFormat: format }, required: ['issueKey', 'comment'] },
+  jira_software_cloud_find_transitions: { properties: { issueKey: string }, required: ['issueKey'] },
+  jira_software_cloud_transition_issue: { properties: { issueKey: string, transitionId: string, transitionName: string }, required: ['issueKey'] },
+  jira_software_cloud_link_issues: { properties: { linkType: string, outwardIssue: string, inwardIssue: string }, required: ['linkType', 'outwardIssue', 'inwardIssue'] },
+  jira_software_cloud_add_attachment: {
+    properties: { issueKey: string, filename: string, file: string, contentType: string },
+    required: ['issueKey', 'filename', 'file']
+  }
+};
+
+const sessions = new Map<string, StreamableHTTPServerTransport>();
+let toolCalls = 0;
+
+function createServer(): Server {
+  const server = new Server({ name: 'mock-zapier-jira', version: '1.0.0' }, { capabilities: { tools: {} } });
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: Object.keys(TOOLS).filter(name => !HIDDEN_TOOLS.includes(name)).map(name => ({
+      name,
+      description: `Mock ${name.replace(/^jira_software_cloud_/, '').replace(/_/g, ' ')}`,
+      inputSchema: {
+        type: 'object' as const,
+        properties: { instructions: string, ...SCHEMAS[name].properties },
+        required: ['instructions', ...SCHEMAS[name].required]
+      }
+    }))
+  }));
+
+  server.setRequestHandler(CallToolRequestSchema, async request => {
+    const tool = HIDDEN_TOOLS.includes(request.params.name) ? undefined : TOOLS[request.params.name];
+    if (!tool) {
+      return { content: [{ type: 'text', text: `Unknown tool: ${request.params.name}` }], isError: true };
+    }
+    try {
+      return { content: [{ type: 'text', text: JSON.stringify(tool(request.params.arguments || {})) }] };
+    } catch (error) {
+      return { content: [{ type: 'text', text: error instanceof Error ? error.message : String(error) }], isError: true };
+    }
+  });
+
+  return server;
+}
+
+async function dropSessions(reason: string): Promise<void> {
+  const open = Array.from(sessions.values());
+  sessions.clear();
+  await Promise.all(open.map(transport => transport.close().catch(() => undefined)));
+  console.log(`✂️  Dropped ${open.length} session${open.length === 1 ? '' : 's'} (${reason})`);
+}
+
+function readBody(req: http.IncomingMessage): Promise<any> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const text = Buffer.concat(chunks).toString('utf8');
+      try {
+        resolve(text ? JSON.parse(text) : undefined);
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function sendError(res: http.ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }));
+}
+
+const httpServer = http.createServer(async (req, res) => {
+  try {
+    if (req.method === 'POST' && req.url === '/__drop') {
+      await dropSessions('requested');
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    const body = req.method === 'POST' ? await readBody(req) : undefined;
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+
+    if (!sessionId) {
+      if (req.method !== 'POST' || !isInitializeRequest(body)) {
+        sendError(res, 400, 'Bad Request: no session ID');
+        return;
+      }
+      const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        // Plain JSON replies, so a lost reply (MOCK_MCP_LOSE_RATE) comes after the tool has run
+        enableJsonResponse: true,
+        onsessioninitialized: id => {
+          sessions.set(id, transport);
+          console.log(`🔗 Session ${id} opened`);
+        }
+      });
+      await createServer().connect(transport);
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (body?.method === 'tools/call' && REJECTED_TOOLS.includes(body.params?.name)) {
+      console.log(`🚫 Rejecting ${body.params.name} with 400`);
+      sendError(res, 400, `Bad Request: ${body.params.name} is rejected by MOCK_MCP_REJECT_TOOLS`);
+      return;
+    }
+
+    if (body?.method === 'tools/call') {
+      toolCalls++;
+      if (DROP_EVERY > 0 && toolCalls % DROP_EVERY === 0) {
+        await dropSessions(`tool call ${toolCalls}`);
+      } else if (Math.random() < FAIL_RATE) {
+        console.log(`💥 Cutting the connection during ${body.params?.name}`);
+        req.socket.destroy();
+        return;
+      } else if (Math.random() < LOSE_RATE) {
+        console.log(`💥 Losing the reply to ${body.params?.name}`);
+        res.writeHead = () => {
+          req.socket.destroy();
+          return res;
+        };
+      }
+    }
+
+    const transport = sessions.get(sessionId);
+    if (!transport) {
+      sendError(res, 404, 'Session not found');
+      return;
+    }
+    await transport.handleRequest(req, res, body);
+  } catch (error) {
+    console.error('Request failed:', error);
+    if (!res.headersSent) {
+      sendError(res, 500, 'Internal server error');
+    }
+  }
+});
+
+if (process.argv.includes('--stdio')) {
+  // stdout carries the protocol, so the banner goes to stderr
+  createServer().connect(new StdioServerTransport()).then(() => console.error('🧪 Mock Zapier MCP server on stdio'));
+} else {
+  httpServer.listen(PORT, () => {
+    console.log(`🧪 Mock Zapier MCP server on ${SITE_URL}/mcp`);
+    if (DROP_EVERY > 0) console.log(`   Dropping sessions every ${DROP_EVERY} tool calls`);
+    if (FAIL_RATE > 0) console.log(`   Cutting ${Math.round(FAIL_RATE * 100)}% of tool calls mid-request`);
+    if (LOSE_RATE > 0) console.log(`   Losing the replies to ${Math.round(LOSE_RATE * 100)}% of tool calls`);
+    if (REJECTED_TOOLS.length > 0) console.log(`   Rejecting calls to ${REJECTED_TOOLS.join(', ')} with 400`);
+  });
+}
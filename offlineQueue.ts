@@ -0,0 +1,106 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import { IssueData } from './types';
+
+export interface QueuedIssue {
+  id: string;
+  issueData: IssueData;
+  queuedAt: string;
+  // Sync attempts so far, and why the last one failed
+  attempts: number;
+  lastError?: string;
+}
+
+// Issues confirmed while the MCP server was unreachable, kept in .jira-agent/ until "sync" creates them.
+// Order is the order they were confirmed in, and sync keeps it. Methods that change the queue throw
+// when it can't be written.
+export class OfflineQueue {
+  private entries: QueuedIssue[] | null = null;
+
+  constructor(private filePath: string) {}
+
+  list(): QueuedIssue[] {
+    return [...this.load()];
+  }
+
+  size(): number {
+    return this.load().length;
+  }
+
+  add(issueData: IssueData): QueuedIssue {
+    const entry: QueuedIssue = {
+      id: randomBytes(4).toString('hex'),
+      issueData: { ...issueData },
+      queuedAt: new Date().toISOString(),
+      attempts: 0
+    };
+    const entries = this.load();
+    entries.push(entry);
+    try {
+      this.save();
+    } catch (error) {
+      entries.pop();
+      throw error;
+    }
+    return entry;
+  }
+
+  remove(id: string): void {
+    const entries = this.load();
+    const index = entries.findIndex(entry => entry.id === id);
+    if (index >= 0) {
+      entries.splice(index, 1);
+      this.save();
+    }
+  }
+
+  recordFailure(id: string, error: string): void {
+    const entry = this.load().find(candidate => candidate.id === id);
+    if (entry) {
+      entry.attempts++;
+      entry.lastError = error;
+      this.save();
+    }
+  }
+
+  // For chat edits: the caller changes or drops items of list().map(entry => entry.issueData) in place,
+  // then hands back what's left. Entries whose issue data was dropped are removed.
+  keepOnly(items: IssueData[]): void {
+    this.entries = this.load().filter(entry => items.includes(entry.issueData));
+    this.save();
+  }
+
+  private load(): QueuedIssue[] {
+    if (this.entries) {
+      return this.entries;
+    }
+
+    if (!fs.existsSync(this.filePath)) {
+      this.entries = [];
+      return this.entries;
+    }
+
+    let data: any;
+    try {
+      data = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+    } catch (error) {
+      // Kept for the user to recover from; starting over in place would overwrite it with the next add()
+      const aside = `${this.filePath}.corrupt-${Date.now()}`;
+      fs.renameSync(this.filePath, aside);
+      console.warn(`⚠️  The offline queue at ${this.filePath} was unreadable (${error instanceof Error ? error.message : error}); moved it to ${aside} and started a new one.`);
+      data = [];
+    }
+    this.entries = (Array.isArray(data) ? data : []).filter(entry => entry && entry.id && entry.issueData);
+    return this.entries;
+  }
+
+  // Written to a temporary file and renamed into place, so a crash mid-write can't truncate the queue.
+  // Throws when the queue can't be written: the caller must not report it as saved.
+  private save(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const temporary = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(temporary, JSON.stringify(this.entries, null, 2));
+    fs.renameSync(temporary, this.filePath);
+  }
+}
@@ -0,0 +1,196 @@
+import { JiraProject } from './types';
+
+// Single source of truth for the projects the agent knows about.
+// Loaded from Jira at startup; aliases are derived from project names and keys.
+export class ProjectRegistry {
+  private projects: JiraProject[] = [];
+  private aliases: Map<string, JiraProject[]> = new Map();
+  private warnedAliases: Set<string> = new Set();
+
+  // Configured aliases (alias → project name or key) override derived ones
+  constructor(private configuredAliases: { [alias: string]: string } = {}) {}
+
+  load(projects: JiraProject[]): void {
+    // De-duplicate by key, keeping the first occurrence
+    const byKey = new Map<string, JiraProject>();
+    for (const project of projects) {
+      if (project.key && !byKey.has(project.key.toUpperCase())) {
+        byKey.set(project.key.toUpperCase(), project);
+      }
+    }
+
+    this.projects = [...byKey.values()];
+    this.rebuildAliases();
+  }
+
+  add(project: JiraProject): void {
+    if (!this.projects.some(p => p.key.toUpperCase() === project.key.toUpperCase())) {
+      this.load([...this.projects, project]);
+    }
+  }
+
+  isLoaded(): boolean {
+    return this.projects.length > 0;
+  }
+
+  getProjects(): JiraProject[] {
+    return [...this.projects];
+  }
+
+  getProjectNames(): string[] {
+    return this.projects.map(project => project.name);
+  }
+
+  // Whether a project (by name or key) may receive writes; an empty allow-list permits all
+  isAllowed(projectKeyOrName: string, allowedProjects: string[]): boolean {
+    if (allowedProjects.length === 0) {
+      return true;
+    }
+
+    const target = projectKeyOrName.toLowerCase();
+    const project = this.resolve(projectKeyOrName);
+    return allowedProjects.some(allowed => {
+      const value = allowed.toLowerCase();
+      return value === target ||
+             (project !== null && (value === project.key.toLowerCase() || value === project.name.toLowerCase()));
+    });
+  }
+
+  // Whether a project (by name, key or alias) is one of the candidates; compares by key when both
+  // sides resolve, and falls back to case-insensitive text otherwise
+  matchesAny(candidates: string[], projectKeyOrName: string): boolean {
+    const actual = this.resolve(projectKeyOrName);
+    return candidates.some(candidate => {
+      const expected = this.resolve(candidate);
+      if (actual && expected) {
+        return actual.key === expected.key;
+      }
+      return candidate.toLowerCase() === projectKeyOrName.toLowerCase();
+    });
+  }
+
+  // Exact alias lookup; returns null when the input is unknown or ambiguous
+  resolve(input: string): JiraProject | null {
+    const candidates = this.findCandidates(input);
+    return candidates.length === 1 ? candidates[0] : null;
+  }
+
+  findCandidates(input: string): JiraProject[] {
+    if (!input) {
+      return [];
+    }
+    return [...(this.aliases.get(this.normalize(input)) || [])];
+  }
+
+  // Finds the longest unambiguous alias that appears as whole words in free text
+  findInText(text: string): JiraProject | null {
+    const normalizedText = ` ${this.normalize(text)} `;
+    const aliases = [...this.aliases.keys()].sort((a, b) => b.length - a.length);
+
+    for (const alias of aliases) {
+      const projects = this.aliases.get(alias)!;
+      if (projects.length === 1 && normalizedText.includes(` ${alias} `)) {
+        return projects[0];
+      }
+    }
+    return null;
+  }
+
+  getAliases(project: JiraProject): string[] {
+    const aliases: string[] = [];
+    this.aliases.forEach((projects, alias) => {
+      if (projects.length === 1 && projects[0].key === project.key) {
+        aliases.push(alias);
+      }
+    });
+    return aliases.sort((a, b) => a.length - b.length);
+  }
+
+  // "FV Engineering (ENG)" lines for prompts and project pickers
+  describeProjects(): string[] {
+    return this.projects.map(project =>
+      project.description ? `${project.name} (${project.key}) - ${project.description}` : `${project.name} (${project.key})`
+    );
+  }
+
+  private rebuildAliases(): void {
+    this.aliases = new Map();
+    const commonPrefix = this.findCommonPrefix();
+
+    for (const project of this.projects) {
+      for (const alias of this.deriveAliases(project, commonPrefix)) {
+        const existing = this.aliases.get(alias) || [];
+        if (!existing.includes(project)) {
+          this.aliases.set(alias, [...existing, project]);
+        }
+      }
+    }
+
+    // A word that is the whole distinctive name of one project ("product" for "FV Product")
+    // beats the same word appearing inside other names ("FV Demo (Product)")
+    for (const project of this.projects) {
+      const distinctive = this.normalize(this.stripPrefix(project.name, commonPrefix));
+      const claimants = this.aliases.get(distinctive);
+      if (claimants && claimants.length > 1) {
+        this.aliases.set(distinctive, [project]);
+      }
+    }
+
+    for (const [alias, target] of Object.entries(this.configuredAliases)) {
+      const project = this.projects.find(p =>
+        p.key.toLowerCase() === target.toLowerCase() || p.name.toLowerCase() === target.toLowerCase()
+      );
+      if (project) {
+        this.aliases.set(this.normalize(alias), [project]);
+      } else if (!this.warnedAliases.has(alias)) {
+        this.warnedAliases.add(alias);
+        console.warn(`⚠️  Project alias "${alias}" points to unknown project "${target}"`);
+      }
+    }
+  }
+
+  private deriveAliases(project: JiraProject, commonPrefix: string): string[] {
+    const aliases = new Set<string>();
+    const name = this.normalize(project.name);
+    const stripped = this.normalize(this.stripPrefix(project.name, commonPrefix));
+
+    aliases.add(this.normalize(project.key));
+    aliases.add(name);
+    aliases.add(name.replace(/\s+/g, ''));
+    if (stripped) {
+      aliases.add(stripped);
+    }
+
+    // Individual words from the distinctive part of the name ("engineering", "demo")
+    const words = stripped.split(' ').filter(word => word.length > 2);
+    for (const word of words) {
+      aliases.add(word);
+    }
+
+    // Reversed two-word forms ("product demo" for "Demo (Product)")
+    if (words.length === 2) {
+      aliases.add(`${words[1]} ${words[0]}`);
+    }
+
+    return [...aliases].filter(alias => alias.length > 0);
+  }
+
+  // A leading word shared by every project name (e.g. "FV") is treated as optional
+  private findCommonPrefix(): string {
+    if (this.projects.length < 2) {
+      return '';
+    }
+
+    const firstWords = this.projects.map(project => this.normalize(project.name).split(' ')[0]);
+    return firstWords.every(word => word === firstWords[0]) ? firstWords[0] : '';
+  }
+
+  private stripPrefix(name: string, prefix: string): string {
+    const normalized = this.normalize(name);
+    return prefix && normalized.startsWith(`${prefix} `) ? normalized.slice(prefix.length + 1) : normalized;
+  }
+
+  private normalize(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+  }
+}
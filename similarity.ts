@@ -0,0 +1,182 @@
+import OpenAI from 'openai';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { OPENAI_API_KEY, SIMILARITY_CONFIG } from './config';
+import { termWeight, tokenize } from './tokenizer';
+
+export interface SimilarityScorer {
+  readonly name: string;
+  // Minimum score for a candidate to count as similar
+  readonly threshold: number;
+  // Returns one score in [0, 1] per candidate, in the same order
+  score(query: string, candidates: string[]): Promise<number[]>;
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+  return Math.max(0, Math.min(1, dot / (Math.sqrt(normA) * Math.sqrt(normB))));
+}
+
+// TF-IDF weighted cosine over stemmed tokens; the query and candidates form the corpus
+export class TfIdfScorer implements SimilarityScorer {
+  readonly name = 'tfidf';
+  readonly threshold: number;
+
+  constructor(threshold: number = SIMILARITY_CONFIG.TFIDF_THRESHOLD) {
+    this.threshold = threshold;
+  }
+
+  async score(query: string, candidates: string[]): Promise<number[]> {
+    const documents = [query, ...candidates].map(tokenize);
+    const vocabulary = [...new Set(([] as string[]).concat(...documents))];
+    const index = new Map(vocabulary.map((term, i) => [term, i] as [string, number]));
+
+    // Smoothed inverse document frequency
+    const documentFrequency = new Array(vocabulary.length).fill(0);
+    for (const tokens of documents) {
+      for (const term of new Set(tokens)) {
+        documentFrequency[index.get(term)!]++;
+      }
+    }
+    const idf = documentFrequency.map((df, i) => (Math.log((1 + documents.length) / (1 + df)) + 1) * termWeight(vocabulary[i]));
+
+    const vectors = documents.map(tokens => {
+      const vector = new Array(vocabulary.length).fill(0);
+      for (const term of tokens) {
+        vector[index.get(term)!] += 1;
+      }
+      return vector.map((count, i) => (tokens.length ? count / tokens.length : 0) * idf[i]);
+    });
+
+    const [queryVector, ...candidateVectors] = vectors;
+    return candidateVectors.map(vector => cosine(queryVector, vector));
+  }
+}
+
+// On-disk cache of embeddings keyed by model + text hash
+export class EmbeddingCache {
+  private entries: Map<string, number[]> | null = null;
+  private dirty: boolean = false;
+
+  constructor(private filePath: string) {}
+
+  get(model: string, text: string): number[] | undefined {
+    return this.load().get(this.keyFor(model, text));
+  }
+
+  set(model: string, text: string, embedding: number[]): void {
+    this.load().set(this.keyFor(model, text), embedding);
+    this.dirty = true;
+  }
+
+  save(): void {
+    if (!this.dirty || !this.entries) {
+      return;
+    }
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const data: { [key: string]: number[] } = {};
+      this.entries.forEach((embedding, key) => { data[key] = embedding; });
+      fs.writeFileSync(this.filePath, JSON.stringify(data));
+      this.dirty = false;
+    } catch (error) {
+      console.warn(`⚠️  Could not write embedding cache to ${this.filePath}:`, error);
+    }
+  }
+
+  private load(): Map<string, number[]> {
+    if (this.entries) {
+      return this.entries;
+    }
+
+    this.entries = new Map();
+    try {
+      if (fs.existsSync(this.filePath)) {
+        const data = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+        for (const [key, value] of Object.entries(data)) {
+          if (Array.isArray(value)) {
+            this.entries.set(key, value as number[]);
+          }
+        }
+      }
+    } catch (error) {
+      console.warn(`⚠️  Ignoring unreadable embedding cache at ${this.filePath}:`, error);
+    }
+    return this.entries;
+  }
+
+  private keyFor(model: string, text: string): string {
+    return crypto.createHash('sha256').update(`${model}\n${text}`).digest('hex');
+  }
+}
+
+// Cosine over OpenAI embeddings; catches paraphrases that share no words
+export class EmbeddingScorer implements SimilarityScorer {
+  readonly name = 'embedding';
+  readonly threshold: number;
+  private openai: OpenAI;
+  private fallback: SimilarityScorer;
+
+  constructor(
+    private cache: EmbeddingCache,
+    private model: string = SIMILARITY_CONFIG.EMBEDDING_MODEL,
+    threshold: number = SIMILARITY_CONFIG.EMBEDDING_THRESHOLD
+  ) {
+    this.openai = new OpenAI({ apiKey: OPENAI_API_KEY });
+    this.fallback = new TfIdfScorer();
+    this.threshold = threshold;
+  }
+
+  async score(query: string, candidates: string[]): Promise<number[]> {
+    try {
+      const [queryEmbedding, ...candidateEmbeddings] = await this.embed([query, ...candidates]);
+      return candidateEmbeddings.map(embedding => cosine(queryEmbedding, embedding));
+    } catch (error) {
+      console.warn('⚠️  Embedding similarity failed, falling back to TF-IDF:', error);
+      const scores = await this.fallback.score(query, candidates);
+      // Rescale so the TF-IDF threshold lines up with this scorer's threshold
+      return scores.map(score => Math.min(1, score * (this.threshold / this.fallback.threshold)));
+    }
+  }
+
+  private async embed(texts: string[]): Promise<number[][]> {
+    // The API rejects empty input, so blank texts simply never match anything
+    const missing = [...new Set(texts.filter(text => text.trim() && !this.cache.get(this.model, text)))];
+
+    if (missing.length > 0) {
+      console.log(`🧮 Embedding ${missing.length} text(s) with ${this.model}...`);
+      const response = await this.openai.embeddings.create({
+        model: this.model,
+        input: missing
+      });
+      response.data.forEach(item => {
+        this.cache.set(this.model, missing[item.index], item.embedding);
+      });
+      this.cache.save();
+    }
+
+    return texts.map(text => this.cache.get(this.model, text) || []);
+  }
+}
+
+export function createSimilarityScorer(backend: string = SIMILARITY_CONFIG.BACKEND): SimilarityScorer {
+  if (backend === 'embedding') {
+    return new EmbeddingScorer(new EmbeddingCache(SIMILARITY_CONFIG.EMBEDDING_CACHE_PATH));
+  }
+  if (backend !== 'tfidf') {
+    console.warn(`⚠️  Unknown SIMILARITY_BACKEND "${backend}", using tfidf`);
+  }
+  return new TfIdfScorer();
+}
@@ -0,0 +1,286 @@
+// Finds a pasted stack trace (JS/TS, Java, Python or Go) in free text so it can be summarized for the
+// title and kept verbatim in the description instead of being read as prose.
+
+export type StackTraceLanguage = 'javascript' | 'java' | 'python' | 'go';
+
+export interface StackFrame {
+  // As written in the trace, e.g. "com.acme.payments.PaymentService.charge"; summaries shorten it
+  function?: string;
+  file?: string;
+  line?: number;
+}
+
+export interface StackTrace {
+  language: StackTraceLanguage;
+  // e.g. "NullPointerException", "TypeError", "KeyError", "panic"
+  exceptionType: string;
+  message?: string;
+  // Where the exception was raised, skipping runtime and library frames when possible
+  topFrame?: StackFrame;
+  service?: string;
+  // The trace lines as pasted
+  trace: string;
+  // Everything else in the text
+  context: string;
+}
+
+interface TraceMatch {
+  start: number;
+  end: number;
+  exceptionType: string;
+  message?: string;
+  frames: StackFrame[];
+}
+
+const JAVA_HEADER = /^\s*(?:Exception in thread "[^"]*"\s+)?((?:[a-z_$][\w$]*\.)+[A-Z][\w$]*(?:Exception|Error|Throwable))(?::\s*(.*))?$/;
+const JAVA_FRAME = /^\s*at\s+([\w$.<>\/-]+)\(([^)]*)\)\s*$/;
+const JAVA_CONTINUATION = /^\s*(?:Caused by:|Suppressed:|\.\.\.\s*\d+\s+(?:more|common frames omitted))/;
+
+const JS_HEADER = /^\s*(?:Uncaught\s+(?:\(in promise\)\s+)?)?([A-Z][\w$]*(?:Error|Exception))(?:\s*\[[\w-]+\])?(?::\s*(.*))?$/;
+const JS_FRAME = /^\s*at\s+(?:(.+?)\s+\()?([^()\s]+?):(\d+):\d+\)?\s*$/;
+const ANY_AT_FRAME = /^\s*at\s+\S/;
+
+const PYTHON_START = /^\s*Traceback \(most recent call last\):\s*$/;
+const PYTHON_FRAME = /^\s*File "([^"]+)", line (\d+)(?:, in (.+))?$/;
+const PYTHON_EXCEPTION = /^([A-Za-z_][\w.]*)(?::\s*(.*))?$/;
+const PYTHON_CHAIN = /^\s*(?:During handling of the above exception|The above exception was the direct cause)/;
+
+const GO_START = /^\s*(?:panic|fatal error):\s*(.*)$/;
+const GO_FUNCTION = /^\s*([\w.\/*()-]+)\((.*)\)$/;
+const GO_FILE = /^\s+(\S+\.go):(\d+)(?:\s+\+0x[0-9a-f]+)?\s*$/;
+
+// Frames from runtimes and dependencies; the first frame outside these is the interesting one
+const LIBRARY_FRAME = /node_modules|^node:|^internal\/|^(?:java|javax|jdk|sun|kotlin)\.|site-packages|\/lib\/python|^runtime\.|\/go\/src\/runtime\//;
+
+export function detectStackTrace(text: string): StackTrace | null {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+
+  const detectors: Array<[StackTraceLanguage, (lines: string[]) => TraceMatch | null]> = [
+    ['python', detectPython],
+    ['go', detectGo],
+    ['java', detectJava],
+    ['javascript', detectJavaScript]
+  ];
+
+  for (const [language, detect] of detectors) {
+    const match = detect(lines);
+    if (!match) {
+      continue;
+    }
+
+    const frames = match.frames.filter(frame => frame.function || frame.file);
+    const topFrame = frames.find(frame => !LIBRARY_FRAME.test(frame.function || '') && !LIBRARY_FRAME.test(frame.file || '')) || frames[0];
+    const context = [...lines.slice(0, match.start), ...lines.slice(match.end + 1)].join('\n').trim();
+
+    return {
+      language,
+      exceptionType: match.exceptionType,
+      message: match.message?.trim() || undefined,
+      topFrame,
+      service: findServiceName(text, topFrame),
+      trace: lines.slice(match.start, match.end + 1).join('\n').replace(/^\n+|\s+$/g, ''),
+      context
+    };
+  }
+
+  return null;
+}
+
+// "NullPointerException in PaymentService.charge", "panic in payment-service", "TypeError"
+export function summarizeStackTrace(trace: StackTrace): string {
+  const location = shortFunctionName(trace.language, trace.topFrame?.function) || trace.service || baseName(trace.topFrame?.file);
+  return location ? `${trace.exceptionType} in ${location}` : trace.exceptionType;
+}
+
+// The service and error message, then the full trace as a code block
+export function stackTraceToMarkdown(trace: StackTrace): string {
+  const facts: string[] = [];
+  if (trace.message) {
+    facts.push(`**Error:** ${trace.exceptionType}: ${trace.message}`);
+  }
+  if (trace.service) {
+    facts.push(`**Service:** ${trace.service}`);
+  }
+  if (trace.topFrame?.file) {
+    facts.push(`**Location:** ${trace.topFrame.file}${trace.topFrame.line ? `:${trace.topFrame.line}` : ''}`);
+  }
+
+  const fence = trace.trace.includes('```') ? '~~~' : '```';
+  const codeBlock = `${fence}${trace.language}\n${trace.trace}\n${fence}`;
+  return facts.length > 0 ? `${facts.join('\n')}\n\n${codeBlock}` : codeBlock;
+}
+
+function detectJava(lines: string[]): TraceMatch | null {
+  for (let i = 0; i < lines.length; i++) {
+    const header = lines[i].match(JAVA_HEADER);
+    if (!header || !JAVA_FRAME.test(lines[i + 1] || '')) {
+      continue;
+    }
+
+    const frames: StackFrame[] = [];
+    let end = i;
+    for (let j = i + 1; j < lines.length; j++) {
+      const frame = lines[j].match(JAVA_FRAME);
+      if (frame) {
+        // com.acme.payments.PaymentService.charge(PaymentService.java:42)
+        const location = frame[2].match(/^(.+?):(\d+)$/);
+        frames.push({
+          function: frame[1],
+          file: location ? location[1] : undefined,
+          line: location ? parseInt(location[2], 10) : undefined
+        });
+      } else if (!JAVA_CONTINUATION.test(lines[j])) {
+        break;
+      }
+      end = j;
+    }
+
+    // Frames after "Caused by:" belong to the cause; the top frame is the first one
+    return { start: i, end, exceptionType: header[1].split('.').pop()!, message: header[2], frames };
+  }
+  return null;
+}
+
+function detectJavaScript(lines: string[]): TraceMatch | null {
+  for (let i = 0; i < lines.length; i++) {
+    const header = lines[i].match(JS_HEADER);
+    if (!header || !JS_FRAME.test(lines[i + 1] || '')) {
+      continue;
+    }
+
+    const frames: StackFrame[] = [];
+    let end = i;
+    for (let j = i + 1; j < lines.length && ANY_AT_FRAME.test(lines[j]); j++) {
+      const frame = lines[j].match(JS_FRAME);
+      if (frame) {
+        const name = (frame[1] || '').replace(/^(?:async|new)\s+/, '').replace(/^Object\.<anonymous>$|<anonymous>/, '');
+        frames.push({ function: name || undefined, file: frame[2].replace(/^file:\/\//, ''), line: parseInt(frame[3], 10) });
+      }
+      end = j;
+    }
+
+    return { start: i, end, exceptionType: header[1], message: header[2], frames };
+  }
+  return null;
+}
+
+function detectPython(lines: string[]): TraceMatch | null {
+  const start = lines.findIndex(line => PYTHON_START.test(line));
+  if (start === -1) {
+    return null;
+  }
+
+  let frames: StackFrame[] = [];
+  let exception: RegExpMatchArray | null = null;
+  let end = start;
+  for (let j = start + 1; j < lines.length; j++) {
+    const line = lines[j];
+    const frame = line.match(PYTHON_FRAME);
+    if (PYTHON_START.test(line)) {
+      // A chained traceback: the last exception is the one that surfaced
+      frames = [];
+    } else if (frame) {
+      frames.push({ function: frame[3] && frame[3] !== '<module>' ? frame[3].trim() : undefined, file: frame[1], line: parseInt(frame[2], 10) });
+    } else if (/^\s/.test(line) || !line.trim() || PYTHON_CHAIN.test(line)) {
+      // Source lines, carets and the blank lines around chained tracebacks
+    } else if ((exception = line.match(PYTHON_EXCEPTION))) {
+      end = j;
+      const next = lines.slice(j + 1).find(candidate => candidate.trim());
+      if (next && (PYTHON_CHAIN.test(next) || PYTHON_START.test(next))) {
+        continue;
+      }
+      break;
+    } else {
+      break;
+    }
+    end = j;
+  }
+
+  if (!exception) {
+    return null;
+  }
+
+  // Most recent call last: the innermost frame is at the bottom
+  return {
+    start,
+    end,
+    exceptionType: exception[1].split('.').pop()!,
+    message: exception[2],
+    frames: [...frames].reverse()
+  };
+}
+
+function detectGo(lines: string[]): TraceMatch | null {
+  const start = lines.findIndex((line, index) =>
+    GO_START.test(line) && lines.slice(index + 1, index + 4).some(next => /^\s*goroutine \d+ \[/.test(next)));
+  if (start === -1) {
+    return null;
+  }
+
+  const frames: StackFrame[] = [];
+  let end = start;
+  for (let j = start + 1; j < lines.length; j++) {
+    const line = lines[j];
+    const file = line.match(GO_FILE);
+    if (file) {
+      const frame = frames[frames.length - 1];
+      if (frame && !frame.file) {
+        frame.file = file[1];
+        frame.line = parseInt(file[2], 10);
+      }
+    } else if (/^\s*(?:goroutine \d+ \[|\[signal |created by |exit status \d+)/.test(line) || !line.trim()) {
+      if (!line.trim() && frames.length > 0) {
+        // A blank line after the frames ends the first goroutine, which is the one that panicked
+        break;
+      }
+    } else {
+      const fn = line.match(GO_FUNCTION);
+      if (!fn) {
+        break;
+      }
+      frames.push({ function: fn[1] });
+    }
+    end = j;
+  }
+
+  const message = lines[start].match(GO_START)![1];
+  return { start, end, exceptionType: /^\s*fatal error/.test(lines[start]) ? 'fatal error' : 'panic', message, frames };
+}
+
+// Class or type plus method, for titles
+function shortFunctionName(language: StackTraceLanguage, name: string | undefined): string | undefined {
+  if (!name) {
+    return undefined;
+  }
+  switch (language) {
+    case 'java':
+      // "com.acme.payments.PaymentService.charge" → "PaymentService.charge"
+      return name.split('.').slice(-2).join('.');
+    case 'go':
+      return shortGoFunction(name);
+    default:
+      return name;
+  }
+}
+
+// "github.com/acme/payments.(*PaymentService).Charge" → "PaymentService.Charge"
+function shortGoFunction(name: string): string {
+  const parts = name.split('/').pop()!.replace(/\(\*?(\w+)\)/g, '$1').split('.');
+  return parts.slice(-2).join('.');
+}
+
+// An explicit "service: x" or "[payment-service]" in the text, else a services/apps/packages directory in the top frame's path
+function findServiceName(text: string, topFrame: StackFrame | undefined): string | undefined {
+  const explicit = text.match(/(?:^|[\s,;(\[])(?:service|svc|app)(?:[_-]?name)?[ \t]*[=:][ \t]*["']?([\w.-]+)/im) ||
+                   text.match(/\b([a-z][\w-]*-(?:service|svc|api|worker|server))\b/);
+  if (explicit) {
+    return explicit[1];
+  }
+
+  const directory = (topFrame?.file || '').match(/(?:^|\/)(?:services|apps|packages|cmd)\/([\w.-]+)\//);
+  return directory ? directory[1] : undefined;
+}
+
+function baseName(file: string | undefined): string | undefined {
+  return file ? file.split(/[\/\\]/).pop() : undefined;
+}
@@ -0,0 +1,95 @@
+// Text normalization shared by the similarity scorers
+
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'if', 'then', 'else', 'of', 'in', 'on', 'at', 'to', 'for',
+  'from', 'by', 'with', 'about', 'as', 'into', 'onto', 'over', 'under', 'is', 'are', 'was', 'were',
+  'be', 'been', 'being', 'am', 'do', 'does', 'did', 'has', 'have', 'had', 'it', 'its', 'this', 'that',
+  'these', 'those', 'there', 'here', 'i', 'we', 'you', 'he', 'she', 'they', 'me', 'us', 'them', 'my',
+  'our', 'your', 'their', 'so', 'too', 'very', 'can', 'could', 'should', 'would', 'will', 'just',
+  'when', 'where', 'which', 'who', 'what', 'how', 'why', 'all', 'any', 'some', 'after', 'before',
+  'while', 'also', 'again', 'still', 'get', 'gets', 'getting', 'got'
+]);
+
+// Phrases that mean the same thing in bug reports, collapsed before tokenizing. Crashes, errors and
+// failures stay distinct terms; merging them made "Checkout crash" and "Export error" look alike.
+const PHRASE_SYNONYMS: Array<[RegExp, string]> = [
+  [/\b(?:sign|log)[\s-]?in\b/g, 'login'],
+  [/\b(?:sign|log)[\s-]?out\b/g, 'logout'],
+  [/\bsign[\s-]?up\b/g, 'register'],
+  [/\b(?:can ?not|can't|cant|unable to)\b/g, 'unable'],
+  [/\b(?:fail(?:s|ed|ing|ure)?(?: to)?)\b/g, 'fail'],
+  [/\bcrash(?:es|ed|ing)?\b/g, 'crash'],
+  [/\b(?:broke|breaks|broken)\b/g, 'broken'],
+  [/\b(?:slow|lag(?:gy|s|ging)?|time[\s-]?outs?|timing out)\b/g, 'slow']
+];
+
+// Symptoms nearly every bug report mentions; they count for little next to what is affected
+const SYMPTOM_TERMS = new Set(['crash', 'error', 'fail', 'broken', 'unable', 'slow']);
+const SYMPTOM_WEIGHT = 0.3;
+
+// Relative weight of a token from tokenize() in similarity scores
+export function termWeight(term: string): number {
+  return SYMPTOM_TERMS.has(term) ? SYMPTOM_WEIGHT : 1;
+}
+
+export function tokenize(text: string): string[] {
+  let normalized = text.toLowerCase();
+
+  for (const [pattern, replacement] of PHRASE_SYNONYMS) {
+    normalized = normalized.replace(pattern, replacement);
+  }
+
+  return normalized
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 1 && !STOPWORDS.has(word))
+    .map(stem);
+}
+
+// Light suffix-stripping stemmer (a trimmed-down Porter step 1/2)
+export function stem(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) {
+    return word;
+  }
+
+  let result = word;
+
+  // Plurals
+  if (result.endsWith('sses')) {
+    result = result.slice(0, -2);
+  } else if (result.endsWith('ies')) {
+    result = result.slice(0, -3) + 'y';
+  } else if (result.endsWith('s') && !result.endsWith('ss') && !result.endsWith('us')) {
+    result = result.slice(0, -1);
+  }
+
+  // Verb endings, only when a vowel remains in the stem
+  for (const suffix of ['ing', 'ed']) {
+    if (result.endsWith(suffix)) {
+      const base = result.slice(0, -suffix.length);
+      if (/[aeiouy]/.test(base) && base.length >= 3) {
+        result = base;
+        // "stopped" → "stop", "failing" → "fail"
+        if (/([^aeiouslz])\1$/.test(result)) {
+          result = result.slice(0, -1);
+        } else if (/(at|bl|iz)$/.test(result)) {
+          result += 'e';
+        }
+      }
+      break;
+    }
+  }
+
+  // Derivational endings
+  const derivational: Array<[string, string]> = [
+    ['ational', 'ate'], ['ization', 'ize'], ['fulness', 'ful'], ['iveness', 'ive'],
+    ['ation', 'ate'], ['ment', ''], ['ness', ''], ['ly', '']
+  ];
+  for (const [suffix, replacement] of derivational) {
+    if (result.endsWith(suffix) && result.length - suffix.length >= 3) {
+      result = result.slice(0, -suffix.length) + replacement;
+      break;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,86 @@
+import { JiraFeature, MCPToolCall } from './types';
+import { ToolBinding } from './workspaceConfig';
+
+// The Jira operations the agent needs, and the Zapier tools that provide them by default
+export const ZAPIER_TOOLS = {
+  findProject: 'jira_software_cloud_find_project',
+  findUser: 'jira_software_cloud_find_user',
+  findIssue: 'jira_software_cloud_find_issue',
+  findTransitions: 'jira_software_cloud_find_transitions',
+  createIssue: 'jira_software_cloud_create_issue',
+  updateIssue: 'jira_software_cloud_update_issue',
+  transitionIssue: 'jira_software_cloud_transition_issue',
+  addComment: 'jira_software_cloud_add_comment_to_issue',
+  linkIssues: 'jira_software_cloud_link_issues',
+  addAttachment: 'jira_software_cloud_add_attachment'
+};
+
+export type JiraTool = keyof typeof ZAPIER_TOOLS;
+
+export const JIRA_TOOLS = Object.keys(ZAPIER_TOOLS) as JiraTool[];
+
+// Tools each feature can't work without, and how to name the feature when it's turned off
+export const FEATURE_TOOLS: { [feature in JiraFeature]: { label: string; tools: JiraTool[] } } = {
+  create: { label: 'Creating issues', tools: ['createIssue'] },
+  search: { label: 'Searching issues', tools: ['findIssue'] },
+  view: { label: 'Viewing issues', tools: ['findIssue'] },
+  update: { label: 'Updating issues', tools: ['updateIssue'] },
+  comment: { label: 'Commenting', tools: ['addComment'] },
+  transition: { label: 'Changing issue status', tools: ['findTransitions', 'transitionIssue'] }
+};
+
+// Lookups only; safe to resend after a dropped connection whatever the server calls them
+const READ_ONLY_TOOLS: JiraTool[] = ['findProject', 'findUser', 'findIssue', 'findTransitions'];
+
+// Maps the agent's operations onto another MCP server's tools. A binding can rename the tool, rename or
+// drop arguments (null drops one, e.g. Zapier's "instructions") and add fixed ones such as a cloud ID:
+//   createIssue: { name: 'createJiraIssue', arguments: { project: 'projectKey', instructions: null }, fixedArguments: { cloudId: '...' } }
+export class ToolMap {
+  private bindings: { [tool in JiraTool]: ToolBinding };
+
+  constructor(overrides: { [tool: string]: string | ToolBinding } = {}) {
+    this.bindings = {} as { [tool in JiraTool]: ToolBinding };
+    for (const tool of JIRA_TOOLS) {
+      const override = overrides[tool];
+      this.bindings[tool] = typeof override === 'string' ? { name: override } : override || { name: ZAPIER_TOOLS[tool] };
+    }
+  }
+
+  call(tool: JiraTool, args: object): MCPToolCall {
+    const binding = this.bindings[tool];
+    const mapped: { [name: string]: any } = {};
+    for (const [name, value] of Object.entries(args)) {
+      if (value === undefined) {
+        continue;
+      }
+      const target = binding.arguments && name in binding.arguments ? binding.arguments[name] : name;
+      if (target !== null) {
+        mapped[target] = value;
+      }
+    }
+
+    return {
+      name: binding.name,
+      arguments: { ...mapped, ...(binding.fixedArguments || {}) },
+      idempotent: READ_ONLY_TOOLS.includes(tool)
+    };
+  }
+
+  // What the server calls one of our arguments for this tool; null when the binding leaves it out
+  argumentName(tool: JiraTool, argument: string): string | null {
+    const renames = this.bindings[tool].arguments;
+    return renames && argument in renames ? renames[argument] : argument;
+  }
+
+  nameOf(tool: JiraTool): string {
+    return this.bindings[tool].name;
+  }
+
+  // Operations whose tool the server doesn't list, e.g. ["addAttachment → jira_add_attachment"]
+  missingFrom(serverTools: string[]): string[] {
+    const available = new Set(serverTools);
+    return JIRA_TOOLS
+      .filter(tool => !available.has(this.bindings[tool].name))
+      .map(tool => `${tool} → ${this.bindings[tool].name}`);
+  }
+}
@@ -0,0 +1,157 @@
+// The input schemas of the server's tools, loaded at connect time, so arguments can be checked before
+// a call instead of the server rejecting them (or silently ignoring the ones it doesn't know).
+
+export interface PropertySchema {
+  type?: string | string[];
+  enum?: unknown[];
+  items?: PropertySchema;
+  description?: string;
+}
+
+export interface ToolInputSchema {
+  type?: string;
+  properties?: { [name: string]: PropertySchema };
+  required?: string[];
+  additionalProperties?: boolean | object;
+}
+
+export interface PreparedArguments {
+  arguments: { [name: string]: any };
+  // Not in the schema, so left out
+  dropped: string[];
+  // Required but missing, or a value that couldn't be converted to the declared type
+  problems: string[];
+}
+
+export class ToolCatalog {
+  private schemas: Map<string, ToolInputSchema> | null = null;
+
+  load(tools: Array<{ name: string; inputSchema?: ToolInputSchema }>): void {
+    this.schemas = new Map(tools.map(tool => [tool.name, tool.inputSchema || {}]));
+  }
+
+  clear(): void {
+    this.schemas = null;
+  }
+
+  // Until the tool list has been loaded every tool and argument is assumed to exist
+  isLoaded(): boolean {
+    return this.schemas !== null;
+  }
+
+  names(): string[] {
+    return this.schemas ? Array.from(this.schemas.keys()) : [];
+  }
+
+  has(toolName: string): boolean {
+    return !this.schemas || this.schemas.has(toolName);
+  }
+
+  requiredArguments(toolName: string): string[] {
+    return [...(this.schemas?.get(toolName)?.required || [])];
+  }
+
+  accepts(toolName: string, argument: string): boolean {
+    const schema = this.schemas?.get(toolName);
+    return !schema || !this.isStrict(schema) || argument in schema.properties!;
+  }
+
+  // Drops arguments the schema doesn't declare, converts simple mismatches (a list where a string is
+  // expected becomes "a, b"; "3" becomes 3 for a number) and reports what can't be sent
+  prepare(toolName: string, args: { [name: string]: any }): PreparedArguments {
+    const schema = this.schemas?.get(toolName);
+    if (!schema) {
+      return { arguments: args, dropped: [], problems: [] };
+    }
+
+    const prepared: PreparedArguments = { arguments: {}, dropped: [], problems: [] };
+    const properties = schema.properties || {};
+    for (const [name, value] of Object.entries(args)) {
+      if (value === undefined) {
+        continue;
+      }
+      if (this.isStrict(schema) && !(name in properties)) {
+        prepared.dropped.push(name);
+        continue;
+      }
+
+      const property = properties[name];
+      const converted = property ? convert(value, property) : value;
+      if (converted === INVALID) {
+        prepared.problems.push(`${name} should be ${describeType(property)}, got ${JSON.stringify(value).substring(0, 60)}`);
+        continue;
+      }
+      prepared.arguments[name] = converted;
+    }
+
+    for (const name of schema.required || []) {
+      if (!(name in prepared.arguments)) {
+        prepared.problems.push(`${name} is required`);
+      }
+    }
+    return prepared;
+  }
+
+  // Schemas that list their properties and don't allow others; an empty schema accepts anything
+  private isStrict(schema: ToolInputSchema): boolean {
+    return !!schema.properties && Object.keys(schema.properties).length > 0 && schema.additionalProperties !== true;
+  }
+}
+
+const INVALID = Symbol('invalid');
+
+function convert(value: any, property: PropertySchema): any {
+  const types = property.type === undefined ? [] : Array.isArray(property.type) ? property.type : [property.type];
+  if (property.enum && !property.enum.includes(value)) {
+    const match = typeof value === 'string' && property.enum.find(option => typeof option === 'string' && option.toLowerCase() === value.toLowerCase());
+    return match || INVALID;
+  }
+  if (types.length === 0 || types.some(type => matchesType(value, type))) {
+    return value;
+  }
+
+  for (const type of types) {
+    switch (type) {
+      case 'string':
+        if (Array.isArray(value) && value.every(item => typeof item !== 'object')) return value.join(', ');
+        if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+        if (value && typeof value === 'object') return JSON.stringify(value);
+        break;
+      case 'number':
+      case 'integer':
+        if (typeof value === 'string' && value.trim() && !isNaN(Number(value))) {
+          const number = Number(value);
+          if (type === 'number' || Number.isInteger(number)) return number;
+        }
+        break;
+      case 'boolean':
+        if (value === 'true' || value === 'false') return value === 'true';
+        break;
+      case 'array':
+        if (!Array.isArray(value)) return [value];
+        break;
+    }
+  }
+  return INVALID;
+}
+
+function matchesType(value: any, type: string): boolean {
+  switch (type) {
+    case 'string': return typeof value === 'string';
+    case 'number': return typeof value === 'number';
+    case 'integer': return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean': return typeof value === 'boolean';
+    case 'array': return Array.isArray(value);
+    case 'object': return !!value && typeof value === 'object' && !Array.isArray(value);
+    case 'null': return value === null;
+    default: return true;
+  }
+}
+
+function describeType(property: PropertySchema | undefined): string {
+  if (property?.enum) {
+    return `one of ${property.enum.map(option => JSON.stringify(option)).join(', ')}`;
+  }
+  const types = Array.isArray(property?.type) ? property!.type : [property?.type || 'any value'];
+  return `${/^[aeiou]/.test(types[0] as string) ? 'an' : 'a'} ${types.join(' or ')}`;
+}
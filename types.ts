@@ -4,6 +4,82 @@ export interface IssueData {
     title?: string;
     description?: string;
     priority?: string;
+    labels?: string[];
+    components?: string[];
+    // Names or emails as the user gave them (display names once resolved)
+    assignee?: string;
+    reporter?: string;
+    // Jira account IDs, set once the names above are resolved to users
+    assigneeId?: string;
+    reporterId?: string;
+    fixVersions?: string[];
+    // YYYY-MM-DD
+    dueDate?: string;
+    storyPoints?: number;
+    // Any other Jira field by display name, e.g. { "Severity": "S2" }
+    customFields?: { [fieldName: string]: string };
+    // Key of the parent epic or, for sub-tasks, the parent issue
+    parent?: string;
+    // Links to create once the issue exists
+    links?: IssueLink[];
+    // Testable statements, appended to the description when the issue is created
+    acceptanceCriteria?: string[];
+    // Name of the description template in use, and its sections in template order
+    template?: string;
+    sections?: DescriptionSection[];
+    // Local files checked when the user referenced them; see attachments.ts
+    attachments?: IssueAttachment[];
+  }
+
+  // IssueData fields that bulk import columns and review-table edits can set, by the kind of value they take
+  export type TextField = 'title' | 'description' | 'issueType' | 'priority' | 'project' | 'assignee' | 'reporter' | 'dueDate' | 'parent';
+  export type ListField = 'labels' | 'components' | 'fixVersions' | 'acceptanceCriteria';
+  export type EditableField = TextField | ListField | 'storyPoints';
+
+  // One section of a templated description; sections left empty are not rendered
+  export interface DescriptionSection {
+    id: string;
+    heading: string;
+    style: 'paragraph' | 'numbered' | 'bulleted' | 'inline';
+    content: string;
+  }
+
+  // e.g. "blocks ENG-12" → { relation: 'blocks', type: 'Blocks', direction: 'outward', issueKey: 'ENG-12' }
+  export interface IssueLink {
+    // Phrase as Jira shows it on the new issue
+    relation: string;
+    // Jira link type name
+    type: string;
+    // outward: new issue → issueKey; inward: issueKey → new issue
+    direction: 'outward' | 'inward';
+    issueKey: string;
+  }
+
+  export interface IssueLinkResult {
+    link: IssueLink;
+    success: boolean;
+    error?: string;
+  }
+
+  // e.g. "attach ./logs/error.log" → { path: './logs/error.log', name: 'error.log', mode: 'inline', ... }
+  export interface IssueAttachment {
+    // Path as the user wrote it, and resolved against the working directory
+    path: string;
+    resolvedPath: string;
+    name: string;
+    size: number;
+    // inline: small text file added to the description as a code block; upload: sent as a Jira attachment
+    mode: 'inline' | 'upload';
+    // File contents as read when the file was checked (inline only)
+    content?: string;
+    // Code block language, e.g. 'json' or 'python'
+    language?: string;
+  }
+
+  export interface AttachmentResult {
+    attachment: IssueAttachment;
+    success: boolean;
+    error?: string;
   }
   
   export interface ConversationState {
@@ -15,6 +91,90 @@ export interface IssueData {
     extractedParameters?: any;
     missingParameters?: string[];
     pendingValidation?: Set<string>;
+    // Edit to an existing issue awaiting confirmation
+    pendingUpdate?: IssueUpdateRequest;
+    // Comment awaiting confirmation before it is posted
+    pendingComment?: IssueComment;
+    // Possible duplicates found before creation, awaiting the user's choice
+    duplicateCheck?: DuplicateCheck;
+    // A name matched several Jira users and the user must pick one
+    pendingUserChoice?: PendingUserChoice;
+    // Template section being asked for (ASKING_SECTION)
+    currentSection?: string;
+    // Issues extracted from a list or file, under review before bulk creation
+    bulk?: BulkSession;
+    // A proposed epic and its child issues, under review before creation
+    epicPlan?: EpicPlan;
+  }
+
+  export interface EpicPlan {
+    epic: IssueData;
+    children: IssueData[];
+  }
+
+  export interface BulkSession {
+    items: IssueData[];
+    // File path, or 'pasted list'
+    source: string;
+  }
+
+  export interface BulkCreateResult {
+    // 1-based row in the review table
+    row: number;
+    issueData: IssueData;
+    success: boolean;
+    key?: string;
+    url?: string;
+    error?: string;
+    links?: IssueLinkResult[];
+  }
+
+  export interface PendingUserChoice {
+    field: 'assignee' | 'reporter';
+    query: string;
+    candidates: JiraUser[];
+    // What to carry on with once the user is picked
+    resumeAction: 'create_issue' | 'update_issue';
+  }
+
+  export interface DuplicateCheck {
+    matches: Array<{ key: string; summary: string; similarity: number }>;
+    resolved: boolean;
+  }
+
+  export interface IssueComment {
+    issueKey: string;
+    body: string;
+  }
+
+  // NEW: A requested change to an existing issue
+  export interface IssueUpdateRequest {
+    issueKey: string;
+    changes: IssueData;
+    current?: JiraIssue;
+    confirmed: boolean;
+  }
+
+  export type ConversationAction =
+    | 'continue'
+    | 'create_issue'
+    | 'bulk_create'
+    | 'create_epic'
+    | 'update_issue'
+    | 'transition_issue'
+    | 'add_comment'
+    | 'search'
+    | 'view_issue'
+    | 'cancel'
+    | 'regular_chat';
+
+  export interface ConversationResult {
+    action: ConversationAction;
+    message?: string;
+    searchQuery?: string;
+    jql?: string;
+    issueKey?: string;
+    targetStatus?: string;
   }
   
   export enum IssueCreationStep {
@@ -24,6 +184,7 @@ export interface IssueData {
     ASKING_TYPE = 'asking_type', 
     ASKING_TITLE = 'asking_title',
     ASKING_DESCRIPTION = 'asking_description',
+    ASKING_SECTION = 'asking_section',
     ASKING_PRIORITY = 'asking_priority',
     CONFIRMING_DETAILS = 'confirming_details',
     READY_TO_CREATE = 'ready_to_create'
@@ -38,8 +199,108 @@ export interface IssueData {
     priority: string;
     status: string;
     project: string;
+    assignee?: string;
+    reporter?: string;
     created: string;
     updated: string;
+    // Filled in when the issue is fetched on its own (getJiraIssue); search results leave them unset
+    url?: string;
+    labels?: string[];
+    components?: string[];
+    parent?: string;
+    dueDate?: string;
+    comments?: JiraComment[];
+    links?: JiraLinkedIssue[];
+  }
+
+  export interface JiraComment {
+    author: string;
+    // Plain text; ADF bodies are flattened
+    body: string;
+    created: string;
+  }
+
+  // e.g. { relation: 'is blocked by', key: 'ENG-12', summary: 'Login page', status: 'To Do' }
+  export interface JiraLinkedIssue {
+    relation: string;
+    key: string;
+    summary?: string;
+    status?: string;
+  }
+  
+  // Why a Jira operation failed, sorted so callers can react: reconnect the account, fix a field,
+  // wait, or try again once the MCP server is back
+  export type JiraErrorKind = 'auth' | 'permission' | 'validation' | 'not_found' | 'rate_limit' | 'transport' | 'unknown';
+
+  export interface JiraError {
+    kind: JiraErrorKind;
+    message: string;
+    // HTTP status, when the response included one
+    status?: number;
+    // validation: Jira's complaint per field, e.g. { summary: 'You must specify a summary of the issue.' }
+    fields?: { [field: string]: string };
+    // rate_limit: how long the server asked us to wait, when it said
+    retryAfterSeconds?: number;
+  }
+
+  export interface JiraFailure {
+    ok: false;
+    error: JiraError;
+  }
+
+  export interface CreatedIssue {
+    ok: true;
+    issue: JiraIssue;
+    // Missing only when Jira's reply didn't include the new key
+    url?: string;
+    // Found by its marker label instead of created: an earlier attempt made it without reporting back
+    recovered?: boolean;
+    // Added by the caller once the issue exists
+    links?: IssueLinkResult[];
+    attachments?: AttachmentResult[];
+  }
+
+  export type CreateIssueResult = CreatedIssue | JiraFailure;
+
+  export type SearchIssuesResult = { ok: true; issues: JiraIssue[] } | JiraFailure;
+
+  // An existing issue that was changed: fields edited, moved, or commented on
+  export interface UpdatedIssue {
+    ok: true;
+    key: string;
+    // Missing when the site URL isn't configured and the reply didn't mention it
+    url?: string;
+  }
+
+  export type UpdateIssueResult = UpdatedIssue | JiraFailure;
+
+  export type TransitionIssueResult = (UpdatedIssue & { status: string }) | JiraFailure;
+
+  export type AddCommentResult = UpdatedIssue | JiraFailure;
+
+  export interface SimilarIssue extends JiraIssue {
+    // 0-1, from the configured similarity scorer
+    similarity: number;
+  }
+
+  export interface JiraUser {
+    accountId: string;
+    displayName: string;
+    emailAddress?: string;
+    active?: boolean;
+  }
+
+  // Outcome of looking up a name or email in the Jira user directory
+  export type UserResolution =
+    | { status: 'resolved'; user: JiraUser }
+    | { status: 'ambiguous'; candidates: JiraUser[] }
+    | { status: 'not_found' };
+
+  // NEW: A workflow transition available on an issue
+  export interface JiraTransition {
+    id: string;
+    name: string;
+    toStatus: string;
   }
   
   // NEW: Interface for Jira projects
@@ -55,7 +316,8 @@ export interface IssueData {
     BUG = 'Bug',
     TASK = 'Task',
     STORY = 'Story',
-    EPIC = 'Epic'
+    EPIC = 'Epic',
+    SUBTASK = 'Subtask'
   }
   
   export enum Priority {
@@ -70,6 +332,8 @@ export interface IssueData {
   export interface MCPToolCall {
     name: string;
     arguments: Record<string, any>;
+    // Safe to resend after a dropped connection; guessed from the tool name when not set
+    idempotent?: boolean;
   }
   
   export interface MCPToolResult {
@@ -80,6 +344,27 @@ export interface IssueData {
     isError?: boolean;
   }
   
+  // What the agent can do, each backed by one or more MCP tools
+  export type JiraFeature = 'create' | 'search' | 'view' | 'update' | 'comment' | 'transition';
+
+  export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting' | 'failed';
+
+  export interface ConnectionEvent {
+    state: ConnectionState;
+    // While connecting/reconnecting: the attempt that just failed and the wait before the next one
+    attempt?: number;
+    maxAttempts?: number;
+    retryInMs?: number;
+    error?: string;
+  }
+
+  export interface HealthStatus {
+    ok: boolean;
+    state: ConnectionState;
+    latencyMs?: number;
+    error?: string;
+  }
+  
   export interface ZapierJiraCreateIssueArgs {
     instructions: string;
     project: string;
@@ -87,6 +372,59 @@ export interface IssueData {
     description?: string;
     issueType?: string;
     priority?: string;
+    labels?: string[];
+    components?: string[];
+    assignee?: string;
+    reporter?: string;
+    fixVersions?: string[];
+    duedate?: string;
+    storyPoints?: number;
+    customFields?: { [fieldName: string]: string };
+    parent?: string;
+    descriptionFormat?: 'wiki' | 'adf';
+  }
+  
+  export interface ZapierJiraLinkIssuesArgs {
+    instructions: string;
+    linkType: string;
+    // Jira's outward/inward sides: outwardIssue "blocks" inwardIssue
+    outwardIssue: string;
+    inwardIssue: string;
+  }
+  
+  export interface ZapierJiraAddAttachmentArgs {
+    instructions: string;
+    issueKey: string;
+    filename: string;
+    // Base64-encoded file contents
+    file: string;
+    contentType: string;
+  }
+  
+  export interface ZapierJiraUpdateIssueArgs {
+    instructions: string;
+    issueKey: string;
+    summary?: string;
+    description?: string;
+    descriptionFormat?: 'wiki' | 'adf';
+    issueType?: string;
+    priority?: string;
+    assignee?: string;
+    reporter?: string;
+  }
+  
+  export interface ZapierJiraTransitionArgs {
+    instructions: string;
+    issueKey: string;
+    transitionId?: string;
+    transitionName?: string;
+  }
+  
+  export interface ZapierJiraAddCommentArgs {
+    instructions: string;
+    issueKey: string;
+    comment: string;
+    commentFormat?: 'wiki' | 'adf';
   }
   
   export interface ZapierJiraSearchArgs {
@@ -96,6 +434,11 @@ export interface IssueData {
     jql?: string;
   }
   
+  export interface ZapierJiraFindUserArgs {
+    instructions: string;
+    query: string;
+  }
+  
   // NEW: Interface for project search arguments
   export interface ZapierJiraProjectSearchArgs {
     instructions: string;
@@ -0,0 +1,512 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { JIRA_TOOLS } from './toolMap';
+
+// Per-workspace settings loaded from jira-agent.config.json (or JIRA_AGENT_CONFIG)
+export interface WorkspaceConfig {
+  // Base URL of the Jira site for issue links; when unset, the site named in Jira responses is used
+  siteUrl?: string;
+  defaults: {
+    // Without one, the first project Jira lists is used, or the user is asked
+    project?: string;
+    issueType: string;
+    priority: string;
+  };
+  // Extra short names, mapped to a project name or key
+  projectAliases: { [alias: string]: string };
+  // Project names or keys the agent may create or modify issues in; empty means all
+  allowedProjects: string[];
+  // Context-dependent defaults, evaluated in order
+  rules: DefaultRule[];
+  // Description templates, checked before the built-in ones; a template with a built-in's name replaces it
+  templates: IssueTemplate[];
+  // How descriptions are sent to Jira: wiki markup or Atlassian Document Format
+  descriptionFormat: DescriptionFormat;
+  // The MCP server that provides the Jira tools; Zapier over Streamable HTTP when not set
+  mcp?: McpServerSettings;
+}
+
+export type DescriptionFormat = 'wiki' | 'adf';
+
+export type McpTransportKind = 'http' | 'sse' | 'stdio';
+
+// e.g. { transport: 'stdio', command: 'npx', args: ['-y', 'some-jira-mcp'], tools: { createIssue: 'jira_create_issue' } }
+// Header and env values may reference environment variables as ${NAME}.
+export interface McpServerSettings {
+  transport?: McpTransportKind;
+  // http and sse
+  url?: string;
+  headers?: { [name: string]: string };
+  // stdio: the command that starts the server
+  command?: string;
+  args?: string[];
+  env?: { [name: string]: string };
+  cwd?: string;
+  // The server's tool for each Jira operation (createIssue, findIssue, ...); Zapier's names otherwise
+  tools?: { [tool: string]: string | ToolBinding };
+}
+
+export interface ToolBinding {
+  name: string;
+  // Our argument name → the server's; null leaves the argument out
+  arguments?: { [argument: string]: string | null };
+  // Sent with every call, e.g. { cloudId: '...' }
+  fixedArguments?: { [argument: string]: unknown };
+}
+
+// The settings after environment overrides, ready to connect with
+export interface McpServerConfig {
+  transport: McpTransportKind;
+  url?: string;
+  headers: { [name: string]: string };
+  command?: string;
+  args: string[];
+  env: { [name: string]: string };
+  cwd?: string;
+  tools: { [tool: string]: string | ToolBinding };
+}
+
+export const MCP_TRANSPORTS: McpTransportKind[] = ['http', 'sse', 'stdio'];
+
+// e.g. { name: 'engineering-tasks', when: { project: 'FV Engineering' }, set: { issueType: 'Task' } }
+export interface DefaultRule {
+  name: string;
+  when: {
+    project?: string | string[];
+    // Matched as whole words in the title (and description when there is one)
+    keywords?: string[];
+    type?: string | string[];
+  };
+  set: {
+    project?: string;
+    issueType?: string;
+    priority?: string;
+  };
+}
+
+// e.g. { name: 'bug-report', when: { type: 'Bug' }, sections: [{ id: 'steps', heading: 'Steps to Reproduce', ... }] }
+export interface IssueTemplate {
+  name: string;
+  // Same matching as DefaultRule.when, but a type is required
+  when: {
+    type: string | string[];
+    project?: string | string[];
+    keywords?: string[];
+  };
+  sections: TemplateSection[];
+}
+
+export interface TemplateSection {
+  id: string;
+  heading: string;
+  // Follow-up question asked when the section is missing
+  question: string;
+  // paragraph: heading + text; numbered/bulleted: one item per line; inline: "*Heading* text" on one line
+  style?: TemplateSectionStyle;
+  // Optional sections are filled when the request mentions them but never asked for
+  optional?: boolean;
+  // Other labels people use for this section in free text ("repro steps", "expected result")
+  aliases?: string[];
+}
+
+export type TemplateSectionStyle = 'paragraph' | 'numbered' | 'bulleted' | 'inline';
+
+export const TEMPLATE_SECTION_STYLES: TemplateSectionStyle[] = ['paragraph', 'numbered', 'bulleted', 'inline'];
+
+export class ConfigValidationError extends Error {
+  constructor(public filePath: string, public errors: string[]) {
+    super(`Invalid workspace config in ${filePath}:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+    this.name = 'ConfigValidationError';
+  }
+}
+
+export const VALID_ISSUE_TYPES = ['Bug', 'Task', 'Story', 'Epic', 'Subtask'];
+export const VALID_PRIORITIES = ['Lowest', 'Low', 'Medium', 'High', 'Highest'];
+
+export const DEFAULT_WORKSPACE_CONFIG: WorkspaceConfig = {
+  defaults: {
+    issueType: 'Bug',
+    priority: 'Medium'
+  },
+  projectAliases: {},
+  allowedProjects: [],
+  rules: [],
+  templates: [],
+  descriptionFormat: 'wiki'
+};
+
+const KNOWN_FIELDS = ['siteUrl', 'defaults', 'projectAliases', 'allowedProjects', 'rules', 'templates', 'descriptionFormat', 'mcp'];
+
+export function loadWorkspaceConfig(filePath: string): WorkspaceConfig {
+  const resolvedPath = path.resolve(filePath);
+
+  if (!fs.existsSync(resolvedPath)) {
+    return DEFAULT_WORKSPACE_CONFIG;
+  }
+
+  let raw: any;
+  try {
+    raw = JSON.parse(fs.readFileSync(resolvedPath, 'utf8'));
+  } catch (error) {
+    throw new ConfigValidationError(resolvedPath, [`file is not valid JSON: ${error instanceof Error ? error.message : error}`]);
+  }
+
+  const errors = validateWorkspaceConfig(raw);
+  if (errors.length > 0) {
+    throw new ConfigValidationError(resolvedPath, errors);
+  }
+
+  return {
+    siteUrl: raw.siteUrl ? raw.siteUrl.replace(/\/+$/, '') : undefined,
+    defaults: { ...DEFAULT_WORKSPACE_CONFIG.defaults, ...(raw.defaults || {}) },
+    projectAliases: { ...(raw.projectAliases || {}) },
+    allowedProjects: [...(raw.allowedProjects || [])],
+    rules: [...(raw.rules || [])],
+    templates: [...(raw.templates || [])],
+    descriptionFormat: raw.descriptionFormat || DEFAULT_WORKSPACE_CONFIG.descriptionFormat,
+    mcp: raw.mcp ? { ...raw.mcp } : undefined
+  };
+}
+
+// Environment variables win over the config file: MCP_TRANSPORT, MCP_URL, MCP_COMMAND and MCP_ARGS (space
+// separated). The legacy ZAPIER_MCP_URL is only a fallback for when neither MCP_URL nor mcp.url is set, so a
+// configured server isn't overridden by the Zapier URL every existing .env has. Throws when the chosen
+// transport is missing its URL or command.
+export function resolveMcpServer(settings: McpServerSettings = {}, env: NodeJS.ProcessEnv = process.env): McpServerConfig {
+  const transport = (env.MCP_TRANSPORT || settings.transport || (env.MCP_COMMAND ? 'stdio' : 'http')) as McpTransportKind;
+  if (!MCP_TRANSPORTS.includes(transport)) {
+    throw new Error(`MCP_TRANSPORT must be one of: ${MCP_TRANSPORTS.join(', ')} (got ${JSON.stringify(transport)})`);
+  }
+
+  const expand = (values: { [name: string]: string } = {}) => {
+    const expanded: { [name: string]: string } = {};
+    for (const [name, value] of Object.entries(values)) {
+      expanded[name] = value.replace(/\$\{(\w+)\}/g, (_match, variable) => env[variable] || '');
+    }
+    return expanded;
+  };
+
+  const config: McpServerConfig = {
+    transport,
+    url: env.MCP_URL || settings.url || env.ZAPIER_MCP_URL,
+    headers: expand(settings.headers),
+    command: env.MCP_COMMAND || settings.command,
+    args: env.MCP_ARGS ? env.MCP_ARGS.split(/\s+/).filter(Boolean) : [...(settings.args || [])],
+    env: expand(settings.env),
+    cwd: settings.cwd,
+    tools: { ...(settings.tools || {}) }
+  };
+
+  if (transport === 'stdio' && !config.command) {
+    throw new Error('The stdio MCP transport needs a command. Set MCP_COMMAND in your .env file or mcp.command in the workspace config.');
+  }
+  if (transport !== 'stdio' && !config.url) {
+    throw new Error('ZAPIER_MCP_URL is required. Please set it in your .env file (or MCP_URL / mcp.url for another MCP server).');
+  }
+  return config;
+}
+
+// Returns one message per problem so they can all be fixed in one pass
+export function validateWorkspaceConfig(raw: any): string[] {
+  const errors: string[] = [];
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return ['config must be a JSON object'];
+  }
+
+  for (const field of Object.keys(raw)) {
+    if (!KNOWN_FIELDS.includes(field)) {
+      errors.push(`unknown field "${field}" (expected one of: ${KNOWN_FIELDS.join(', ')})`);
+    }
+  }
+
+  if (raw.siteUrl !== undefined) {
+    if (typeof raw.siteUrl !== 'string' || !/^https?:\/\/[^\s/]+/.test(raw.siteUrl)) {
+      errors.push('siteUrl must be a URL such as "https://your-team.atlassian.net"');
+    }
+  }
+
+  if (raw.defaults !== undefined) {
+    if (!raw.defaults || typeof raw.defaults !== 'object' || Array.isArray(raw.defaults)) {
+      errors.push('defaults must be an object with project, issueType and priority');
+    } else {
+      const { project, issueType, priority } = raw.defaults;
+      for (const field of Object.keys(raw.defaults)) {
+        if (!['project', 'issueType', 'priority'].includes(field)) {
+          errors.push(`defaults.${field} is not a known default (expected project, issueType or priority)`);
+        }
+      }
+      if (project !== undefined && (typeof project !== 'string' || !project.trim())) {
+        errors.push('defaults.project must be a non-empty project name or key');
+      }
+      if (issueType !== undefined && !VALID_ISSUE_TYPES.includes(issueType)) {
+        errors.push(`defaults.issueType must be one of: ${VALID_ISSUE_TYPES.join(', ')} (got ${JSON.stringify(issueType)})`);
+      }
+      if (priority !== undefined && !VALID_PRIORITIES.includes(priority)) {
+        errors.push(`defaults.priority must be one of: ${VALID_PRIORITIES.join(', ')} (got ${JSON.stringify(priority)})`);
+      }
+    }
+  }
+
+  if (raw.projectAliases !== undefined) {
+    if (!raw.projectAliases || typeof raw.projectAliases !== 'object' || Array.isArray(raw.projectAliases)) {
+      errors.push('projectAliases must be an object mapping alias → project name or key');
+    } else {
+      for (const [alias, target] of Object.entries(raw.projectAliases)) {
+        if (typeof target !== 'string' || !target.trim()) {
+          errors.push(`projectAliases["${alias}"] must be a non-empty project name or key`);
+        }
+      }
+    }
+  }
+
+  if (raw.allowedProjects !== undefined) {
+    if (!Array.isArray(raw.allowedProjects)) {
+      errors.push('allowedProjects must be an array of project names or keys');
+    } else {
+      raw.allowedProjects.forEach((project: any, index: number) => {
+        if (typeof project !== 'string' || !project.trim()) {
+          errors.push(`allowedProjects[${index}] must be a non-empty project name or key`);
+        }
+      });
+    }
+  }
+
+  if (raw.rules !== undefined) {
+    if (!Array.isArray(raw.rules)) {
+      errors.push('rules must be an array of { name, when, set } objects');
+    } else {
+      raw.rules.forEach((rule: any, index: number) => errors.push(...validateRule(rule, index)));
+    }
+  }
+
+  if (raw.templates !== undefined) {
+    if (!Array.isArray(raw.templates)) {
+      errors.push('templates must be an array of { name, when, sections } objects');
+    } else {
+      raw.templates.forEach((template: any, index: number) => errors.push(...validateTemplate(template, index)));
+    }
+  }
+
+  if (raw.descriptionFormat !== undefined && !['wiki', 'adf'].includes(raw.descriptionFormat)) {
+    errors.push(`descriptionFormat must be "wiki" or "adf" (got ${JSON.stringify(raw.descriptionFormat)})`);
+  }
+
+  if (raw.mcp !== undefined) {
+    errors.push(...validateMcpSettings(raw.mcp));
+  }
+
+  return errors;
+}
+
+function validateMcpSettings(mcp: any): string[] {
+  const errors: string[] = [];
+
+  if (!mcp || typeof mcp !== 'object' || Array.isArray(mcp)) {
+    return ['mcp must be an object with transport and url or command'];
+  }
+
+  const known = ['transport', 'url', 'headers', 'command', 'args', 'env', 'cwd', 'tools'];
+  for (const field of Object.keys(mcp)) {
+    if (!known.includes(field)) {
+      errors.push(`mcp.${field} is not a known setting (expected one of: ${known.join(', ')})`);
+    }
+  }
+
+  if (mcp.transport !== undefined && !MCP_TRANSPORTS.includes(mcp.transport)) {
+    errors.push(`mcp.transport must be one of: ${MCP_TRANSPORTS.join(', ')} (got ${JSON.stringify(mcp.transport)})`);
+  }
+  if (mcp.url !== undefined && (typeof mcp.url !== 'string' || !/^https?:\/\/\S+$/.test(mcp.url))) {
+    errors.push('mcp.url must be an http(s) URL');
+  }
+  if (mcp.command !== undefined && (typeof mcp.command !== 'string' || !mcp.command.trim())) {
+    errors.push('mcp.command must be a non-empty string');
+  }
+  if (mcp.cwd !== undefined && typeof mcp.cwd !== 'string') {
+    errors.push('mcp.cwd must be a directory path');
+  }
+  if (mcp.args !== undefined && (!Array.isArray(mcp.args) || mcp.args.some((arg: any) => typeof arg !== 'string'))) {
+    errors.push('mcp.args must be a list of strings');
+  }
+  for (const field of ['headers', 'env']) {
+    const value = mcp[field];
+    if (value !== undefined && (!value || typeof value !== 'object' || Array.isArray(value) ||
+        Object.values(value).some(item => typeof item !== 'string'))) {
+      errors.push(`mcp.${field} must be an object of string values`);
+    }
+  }
+
+  if (mcp.tools !== undefined) {
+    if (!mcp.tools || typeof mcp.tools !== 'object' || Array.isArray(mcp.tools)) {
+      errors.push(`mcp.tools must be an object mapping operations (${JIRA_TOOLS.join(', ')}) to tool names`);
+      return errors;
+    }
+    for (const [tool, binding] of Object.entries<any>(mcp.tools)) {
+      const label = `mcp.tools.${tool}`;
+      if (!(JIRA_TOOLS as string[]).includes(tool)) {
+        errors.push(`${label} is not a known operation (expected one of: ${JIRA_TOOLS.join(', ')})`);
+      }
+      if (typeof binding === 'string') {
+        if (!binding.trim()) {
+          errors.push(`${label} must be a non-empty tool name`);
+        }
+        continue;
+      }
+      if (!binding || typeof binding !== 'object' || Array.isArray(binding) || typeof binding.name !== 'string' || !binding.name.trim()) {
+        errors.push(`${label} must be a tool name or an object with name, arguments and fixedArguments`);
+        continue;
+      }
+      const args = binding.arguments;
+      if (args !== undefined && (!args || typeof args !== 'object' || Array.isArray(args) ||
+          Object.values(args).some(target => target !== null && typeof target !== 'string'))) {
+        errors.push(`${label}.arguments must map argument names to the server's names (or null to leave one out)`);
+      }
+      const fixed = binding.fixedArguments;
+      if (fixed !== undefined && (!fixed || typeof fixed !== 'object' || Array.isArray(fixed))) {
+        errors.push(`${label}.fixedArguments must be an object`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+function validateTemplate(template: any, index: number): string[] {
+  const errors: string[] = [];
+  const label = template && typeof template.name === 'string' ? `templates[${index}] ("${template.name}")` : `templates[${index}]`;
+
+  if (!template || typeof template !== 'object' || Array.isArray(template)) {
+    return [`${label} must be an object with name, when and sections`];
+  }
+
+  if (typeof template.name !== 'string' || !template.name.trim()) {
+    errors.push(`${label}.name must be a non-empty string`);
+  }
+
+  const when = template.when;
+  if (!when || typeof when !== 'object' || Array.isArray(when)) {
+    errors.push(`${label}.when must be an object with type and optionally project and keywords`);
+  } else {
+    for (const condition of Object.keys(when)) {
+      if (!['project', 'keywords', 'type'].includes(condition)) {
+        errors.push(`${label}.when.${condition} is not a known condition (expected project, keywords or type)`);
+      }
+    }
+    const types = Array.isArray(when.type) ? when.type : [when.type];
+    if (when.type === undefined || types.length === 0 || types.some((type: any) => !VALID_ISSUE_TYPES.includes(type))) {
+      errors.push(`${label}.when.type must be one or more of: ${VALID_ISSUE_TYPES.join(', ')}`);
+    }
+    if (when.project !== undefined && !(typeof when.project === 'string' || (Array.isArray(when.project) && when.project.every((p: any) => typeof p === 'string')))) {
+      errors.push(`${label}.when.project must be a project name/key or a list of them`);
+    }
+    if (when.keywords !== undefined && (!Array.isArray(when.keywords) || when.keywords.length === 0 || when.keywords.some((k: any) => typeof k !== 'string'))) {
+      errors.push(`${label}.when.keywords must be a non-empty list of words`);
+    }
+  }
+
+  if (!Array.isArray(template.sections) || template.sections.length === 0) {
+    errors.push(`${label}.sections must be a non-empty array`);
+    return errors;
+  }
+
+  const ids = new Set<string>();
+  template.sections.forEach((section: any, sectionIndex: number) => {
+    const sectionLabel = `${label}.sections[${sectionIndex}]`;
+    if (!section || typeof section !== 'object' || Array.isArray(section)) {
+      errors.push(`${sectionLabel} must be an object with id, heading and question`);
+      return;
+    }
+    for (const field of ['id', 'heading', 'question']) {
+      if (typeof section[field] !== 'string' || !section[field].trim()) {
+        errors.push(`${sectionLabel}.${field} must be a non-empty string`);
+      }
+    }
+    if (typeof section.id === 'string') {
+      if (ids.has(section.id)) {
+        errors.push(`${sectionLabel}.id "${section.id}" is used by another section`);
+      }
+      ids.add(section.id);
+    }
+    if (section.style !== undefined && !TEMPLATE_SECTION_STYLES.includes(section.style)) {
+      errors.push(`${sectionLabel}.style must be one of: ${TEMPLATE_SECTION_STYLES.join(', ')}`);
+    }
+    if (section.optional !== undefined && typeof section.optional !== 'boolean') {
+      errors.push(`${sectionLabel}.optional must be true or false`);
+    }
+    if (section.aliases !== undefined && (!Array.isArray(section.aliases) || section.aliases.some((a: any) => typeof a !== 'string'))) {
+      errors.push(`${sectionLabel}.aliases must be a list of strings`);
+    }
+  });
+
+  return errors;
+}
+
+function validateRule(rule: any, index: number): string[] {
+  const errors: string[] = [];
+  const label = rule && typeof rule.name === 'string' ? `rules[${index}] ("${rule.name}")` : `rules[${index}]`;
+
+  if (!rule || typeof rule !== 'object' || Array.isArray(rule)) {
+    return [`${label} must be an object with name, when and set`];
+  }
+
+  if (typeof rule.name !== 'string' || !rule.name.trim()) {
+    errors.push(`${label}.name must be a non-empty string`);
+  }
+
+  const isStringList = (value: any) =>
+    typeof value === 'string' ? value.trim().length > 0 :
+    Array.isArray(value) && value.length > 0 && value.every((item: any) => typeof item === 'string' && item.trim());
+
+  const when = rule.when;
+  if (!when || typeof when !== 'object' || Array.isArray(when)) {
+    errors.push(`${label}.when must be an object with project, keywords and/or type`);
+  } else {
+    const conditions = Object.keys(when);
+    if (conditions.length === 0) {
+      errors.push(`${label}.when needs at least one of project, keywords or type`);
+    }
+    for (const condition of conditions) {
+      if (!['project', 'keywords', 'type'].includes(condition)) {
+        errors.push(`${label}.when.${condition} is not a known condition (expected project, keywords or type)`);
+      }
+    }
+    if (when.project !== undefined && !isStringList(when.project)) {
+      errors.push(`${label}.when.project must be a project name/key or a list of them`);
+    }
+    if (when.keywords !== undefined && (!Array.isArray(when.keywords) || !isStringList(when.keywords))) {
+      errors.push(`${label}.when.keywords must be a non-empty list of words`);
+    }
+    if (when.type !== undefined) {
+      const types = Array.isArray(when.type) ? when.type : [when.type];
+      if (!isStringList(when.type) || types.some((type: string) => !VALID_ISSUE_TYPES.includes(type))) {
+        errors.push(`${label}.when.type must be one or more of: ${VALID_ISSUE_TYPES.join(', ')}`);
+      }
+    }
+  }
+
+  const set = rule.set;
+  if (!set || typeof set !== 'object' || Array.isArray(set)) {
+    errors.push(`${label}.set must be an object with project, issueType and/or priority`);
+  } else {
+    const fields = Object.keys(set);
+    if (fields.length === 0) {
+      errors.push(`${label}.set needs at least one of project, issueType or priority`);
+    }
+    for (const field of fields) {
+      if (!['project', 'issueType', 'priority'].includes(field)) {
+        errors.push(`${label}.set.${field} is not a settable field (expected project, issueType or priority)`);
+      }
+    }
+    if (set.project !== undefined && (typeof set.project !== 'string' || !set.project.trim())) {
+      errors.push(`${label}.set.project must be a non-empty project name or key`);
+    }
+    if (set.issueType !== undefined && !VALID_ISSUE_TYPES.includes(set.issueType)) {
+      errors.push(`${label}.set.issueType must be one of: ${VALID_ISSUE_TYPES.join(', ')} (got ${JSON.stringify(set.issueType)})`);
+    }
+    if (set.priority !== undefined && !VALID_PRIORITIES.includes(set.priority)) {
+      errors.push(`${label}.set.priority must be one of: ${VALID_PRIORITIES.join(', ')} (got ${JSON.stringify(set.priority)})`);
+    }
+  }
+
+  return errors;
+}
@@ -1,22 +1,70 @@
+import * as fs from 'fs';
 import { MCPClient } from './mcpClient';
+import { SimilarityScorer, createSimilarityScorer } from './similarity';
+import { ProjectRegistry } from './projectRegistry';
+import { composeDescription, describeExtendedFields } from './issueFields';
+import { adfToText, renderMarkdown } from './markdown';
+import { contentTypeFor } from './attachments';
+import { CreationLedger, issueFingerprint } from './creationLedger';
+import { FEATURE_TOOLS, JiraTool, ToolMap } from './toolMap';
+import { describeJiraError, jiraError, parseJiraError } from './jiraErrors';
+import { IDEMPOTENCY_CONFIG, MCP_SERVER, WORKSPACE_CONFIG, WORKSPACE_CONFIG_PATH } from './config';
 import { 
   IssueData, 
   ZapierJiraCreateIssueArgs, 
   ZapierJiraSearchArgs, 
+  ZapierJiraUpdateIssueArgs,
+  ZapierJiraTransitionArgs,
+  ZapierJiraAddCommentArgs,
   ZapierJiraProjectSearchArgs,
+  ZapierJiraFindUserArgs,
+  ZapierJiraLinkIssuesArgs,
+  ZapierJiraAddAttachmentArgs,
+  IssueLink,
+  IssueLinkResult,
+  IssueAttachment,
+  AttachmentResult,
+  BulkCreateResult,
+  CreateIssueResult,
+  UpdateIssueResult,
+  TransitionIssueResult,
+  AddCommentResult,
+  JiraError,
+  JiraFailure,
   JiraIssue,
+  JiraLinkedIssue,
   JiraProject,
-  MCPToolResult 
+  JiraTransition,
+  JiraUser,
+  UserResolution,
+  ConnectionEvent,
+  HealthStatus,
+  JiraFeature,
+  MCPToolResult,
+  SearchIssuesResult,
+  SimilarIssue
 } from './types';
 
 export class ZapierService {
   private mcpClient: MCPClient;
   private isInitialized: boolean = false;
-  private availableProjects: JiraProject[] = [];
+  private projectRegistry: ProjectRegistry;
   private projectCache: Map<string, JiraProject> = new Map();
-
-  constructor() {
-    this.mcpClient = new MCPClient();
+  // Users seen so far, by account ID, and the lookups already sent to Jira
+  private userCache: Map<string, JiraUser> = new Map();
+  private userLookups: Set<string> = new Set();
+  private similarityScorer: SimilarityScorer;
+  private creationLedger: CreationLedger;
+  private toolMap: ToolMap;
+  // Jira site for issue links: the configured siteUrl, else the first site a response names
+  private siteUrl: string | undefined = WORKSPACE_CONFIG.siteUrl;
+
+  constructor(projectRegistry: ProjectRegistry = new ProjectRegistry()) {
+    this.mcpClient = new MCPClient(MCP_SERVER);
+    this.toolMap = new ToolMap(MCP_SERVER.tools);
+    this.projectRegistry = projectRegistry;
+    this.similarityScorer = createSimilarityScorer();
+    this.creationLedger = new CreationLedger(IDEMPOTENCY_CONFIG.LEDGER_PATH, IDEMPOTENCY_CONFIG.TTL_DAYS);
   }
 
   async initialize(): Promise<void> {
@@ -28,6 +76,7 @@ export class ZapierService {
       await this.mcpClient.connect();
       this.isInitialized = true;
       console.log('🚀 Zapier service initialized successfully');
+      this.checkToolMap();
       
       // Try to cache available projects for better project resolution
       await this.cacheAvailableProjects();
@@ -37,40 +86,80 @@ export class ZapierService {
     }
   }
 
+  // Warns about operations the server has no tool for, so a wrong tool map shows up at startup
+  // rather than on the first request that needs the missing tool
+  private checkToolMap(): void {
+    const serverTools = this.mcpClient.getToolNames();
+    if (serverTools.length === 0) {
+      return;
+    }
+
+    const missing = this.toolMap.missingFrom(serverTools);
+    if (missing.length > 0) {
+      console.warn(`⚠️  The MCP server doesn't offer these tools: ${missing.join(', ')}. Map them under "mcp.tools" in ${WORKSPACE_CONFIG_PATH}.`);
+    }
+    for (const reason of Object.values(this.unavailableFeatures())) {
+      console.warn(`⚠️  ${reason}`);
+    }
+  }
+
+  // Features whose tools the server doesn't offer, with the reason: { comment: "Commenting is turned off: ..." }
+  unavailableFeatures(): { [feature in JiraFeature]?: string } {
+    const unavailable: { [feature in JiraFeature]?: string } = {};
+    for (const feature of Object.keys(FEATURE_TOOLS) as JiraFeature[]) {
+      const { label, tools } = FEATURE_TOOLS[feature];
+      const missing = tools.filter(tool => !this.mcpClient.hasTool(this.toolMap.nameOf(tool)));
+      if (missing.length > 0) {
+        unavailable[feature] = `${label} is turned off: the MCP server has no ${missing.map(tool => `${this.toolMap.nameOf(tool)} tool (${tool})`).join(' or ')}`;
+      }
+    }
+    return unavailable;
+  }
+
+  // The first of several names for the same argument that the tool's schema accepts. Servers differ,
+  // e.g. a project lookup may take "key" or "searchByParameter"; before schemas are loaded, the first.
+  private argumentName(tool: JiraTool, candidates: string[]): string {
+    const toolName = this.toolMap.nameOf(tool);
+    return candidates.find(candidate => {
+      const serverName = this.toolMap.argumentName(tool, candidate);
+      return serverName !== null && this.mcpClient.acceptsArgument(toolName, serverName);
+    }) || candidates[0];
+  }
+
   async testConnection(): Promise<void> {
     console.log('🚀 Zapier service connection ready');
   }
 
-  // NEW: Cache available projects to improve project resolution
+  // Load every accessible project into the shared registry
   private async cacheAvailableProjects(): Promise<void> {
     try {
-      console.log('📂 Caching available projects...');
-      
-      // Try to search for known projects to cache them
-      const knownProjects = [
-        'FV Demo (Issues)',
-        'FV Demo (Product)', 
-        'FV Engineering',
-        'FV Product'
-      ];
-
-      for (const projectName of knownProjects) {
-        try {
-          const project = await this.validateAndFindProject(projectName);
-          if (project) {
-            this.projectCache.set(projectName.toLowerCase(), project);
-            this.projectCache.set(project.key.toLowerCase(), project);
-            console.log(`✅ Cached project: ${project.name} (${project.key})`);
-          }
-        } catch (error) {
-          console.log(`⚠️  Could not cache project "${projectName}": ${error}`);
-        }
+      console.log('📂 Loading available projects...');
+
+      const projects = await this.listAllProjects();
+      this.projectRegistry.load(projects);
+
+      for (const project of projects) {
+        this.cacheProject(project, project.name);
       }
 
-      console.log(`📂 Cached ${this.projectCache.size / 2} projects successfully`);
+      console.log(`📂 Loaded ${projects.length} project(s): ${projects.map(p => `${p.name} (${p.key})`).join(', ')}`);
     } catch (error) {
-      console.warn('⚠️  Could not cache projects, will validate dynamically:', error);
+      console.warn('⚠️  Could not load projects, will validate dynamically:', error);
+    }
+  }
+
+  private async listAllProjects(): Promise<JiraProject[]> {
+    const result = await this.mcpClient.callTool(this.toolMap.call('findProject', {
+      instructions: 'List every Jira project this account can access. Return all of them, not just the first match.'
+    }));
+
+    if (result.isError) {
+      throw new Error(this.extractErrorMessage(result));
     }
+
+    const responseText = this.extractResponseText(result);
+    this.rememberSiteUrl(responseText);
+    return this.parseProjectResponse(responseText);
   }
 
   async fetchAndCacheProjects(): Promise<void> {
@@ -83,7 +172,11 @@ export class ZapierService {
   }
 
   getAvailableProjects(): JiraProject[] {
-    return [...this.availableProjects];
+    return this.projectRegistry.getProjects();
+  }
+
+  getProjectRegistry(): ProjectRegistry {
+    return this.projectRegistry;
   }
 
   // IMPROVED: Better project validation with caching and multiple search strategies
@@ -94,10 +187,10 @@ export class ZapierService {
 
     console.log(`🔍 Validating project: "${userInput}"`);
 
-    // First check cache
+    // First check cache and the registry's aliases
     const cacheKey = userInput.toLowerCase();
-    if (this.projectCache.has(cacheKey)) {
-      const cached = this.projectCache.get(cacheKey)!;
+    const cached = this.projectCache.get(cacheKey) || this.projectRegistry.resolve(userInput);
+    if (cached) {
       console.log(`✅ Found cached project: ${cached.name} (${cached.key})`);
       return cached;
     }
@@ -142,13 +235,10 @@ export class ZapierService {
   // NEW: Search for project directly by name
   private async searchProjectDirectly(projectName: string): Promise<JiraProject | null> {
     try {
-      const result = await this.mcpClient.callTool({
-        name: 'jira_software_cloud_find_project',
-        arguments: {
-          instructions: `Search for project: ${projectName}`,
-          name: projectName
-        }
-      });
+      const result = await this.mcpClient.callTool(this.toolMap.call('findProject', {
+        instructions: `Search for project: ${projectName}`,
+        [this.argumentName('findProject', ['name', 'searchByParameter', 'query'])]: projectName
+      }));
 
       const responseText = this.extractResponseText(result);
       const projects = this.parseProjectResponse(responseText);
@@ -170,13 +260,10 @@ export class ZapierService {
   private async searchProjectByKey(projectKey: string): Promise<JiraProject | null> {
     try {
       console.log(`🔍 Searching by project key: ${projectKey}`);
-      const result = await this.mcpClient.callTool({
-        name: 'jira_software_cloud_find_project',
-        arguments: {
-          instructions: `Find project with key: ${projectKey}`,
-          key: projectKey
-        }
-      });
+      const result = await this.mcpClient.callTool(this.toolMap.call('findProject', {
+        instructions: `Find project with key: ${projectKey}`,
+        [this.argumentName('findProject', ['key', 'projectKey', 'searchByParameter'])]: projectKey
+      }));
 
       const responseText = this.extractResponseText(result);
       const projects = this.parseProjectResponse(responseText);
@@ -199,6 +286,7 @@ export class ZapierService {
     this.projectCache.set(originalInput.toLowerCase(), project);
     this.projectCache.set(project.name.toLowerCase(), project);
     this.projectCache.set(project.key.toLowerCase(), project);
+    this.projectRegistry.add(project);
   }
 
   // NEW: Check if input looks like a project key
@@ -280,59 +368,149 @@ export class ZapierService {
     return projects;
   }
 
-  // IMPROVED: Better project name expansions
+  // Candidate project names for a partial or ambiguous input, taken from the registry
   private expandAbbreviation(input: string): string[] {
-    const lowerInput = input.toLowerCase().trim();
-    const expansions: string[] = [];
-
-    // Enhanced mapping with more variations
-    const expansionMap: { [key: string]: string[] } = {
-      'demo': ['FV Demo (Issues)', 'FV Demo (Product)', 'Demo'],
-      'demo issues': ['FV Demo (Issues)'],
-      'demo product': ['FV Demo (Product)'],
-      'issues': ['FV Demo (Issues)'],
-      'product': ['FV Product', 'FV Demo (Product)'],
-      'engineering': ['FV Engineering'],
-      'eng': ['FV Engineering'],
-      'fv': ['FV Product', 'FV Engineering', 'FV Demo (Issues)', 'FV Demo (Product)'],
-      'fv demo': ['FV Demo (Issues)', 'FV Demo (Product)'],
-      'fv product': ['FV Product'],
-      'fv engineering': ['FV Engineering'],
-      // Common project keys
-      'dpi': ['FV Demo (Issues)'],
-      'dpd': ['FV Demo (Product)'],
-      'prod': ['FV Product']
+    const candidates = this.projectRegistry.findCandidates(input).map(project => project.name);
+
+    const fromText = this.projectRegistry.findInText(input);
+    if (fromText) {
+      candidates.push(fromText.name);
+    }
+
+    return [...new Set(candidates)].filter(name => name.toLowerCase() !== input.toLowerCase().trim());
+  }
+
+  formatProjectSelectionPrompt(): string {
+    const projects = this.projectRegistry.describeProjects();
+    if (projects.length === 0) {
+      return 'Which project should this issue be created in? Please give the project name or key:';
+    }
+
+    return `Which project should this issue be created in?\n\nAvailable projects:\n${projects.map((p, i) => `   ${i + 1}. ${p}`).join('\n')}\n\nYou can use full project names, short names, or project keys:`;
+  }
+
+  // Find Jira users whose name or email matches the query
+  async findUsers(query: string): Promise<JiraUser[]> {
+    if (!this.isInitialized) {
+      throw new Error('Zapier service not initialized. Call initialize() first.');
+    }
+
+    const args: ZapierJiraFindUserArgs = {
+      instructions: `Find Jira users whose display name or email address matches "${query}". Return every matching user with their account ID, display name and email address.`,
+      query
     };
 
-    if (expansionMap[lowerInput]) {
-      expansions.push(...expansionMap[lowerInput]);
+    try {
+      const result = await this.mcpClient.callTool(this.toolMap.call('findUser', args));
+
+      if (result.isError) {
+        throw new Error(this.extractErrorMessage(result));
+      }
+
+      const responseText = this.extractResponseText(result);
+      return this.parseUsersResponse(responseText);
+
+    } catch (error) {
+      console.error(`❌ Failed to find Jira users matching "${query}":`, error);
+      throw new Error(`Failed to find Jira users: ${error}`);
     }
+  }
 
-    // Try with "FV" prefix if not already present
-    if (!lowerInput.startsWith('fv')) {
-      expansions.push(`FV ${input}`);
-      expansions.push(`FV ${input} (Issues)`);
-      expansions.push(`FV ${input} (Product)`);
+  // Resolve a name or email ("Sam", "priya@company.com") to a single Jira user.
+  // Users already looked up are matched from the cache without another MCP call.
+  async resolveUser(query: string): Promise<UserResolution> {
+    const normalizedQuery = query.trim().toLowerCase();
+    if (!normalizedQuery) {
+      return { status: 'not_found' };
+    }
+
+    // The cache only answers for a name already sent to Jira or an exact account ID, email or display name:
+    // a partial hit ("sam") may be the only Sam seen so far, not the only one in Jira
+    if (this.userLookups.has(normalizedQuery)) {
+      return this.matchUsers(normalizedQuery, [...this.userCache.values()]);
+    }
+    const exact = [...this.userCache.values()].filter(user => user.active !== false &&
+      [user.accountId, user.displayName, user.emailAddress || ''].some(value => value.toLowerCase() === normalizedQuery));
+    if (exact.length === 1) {
+      return { status: 'resolved', user: exact[0] };
     }
 
-    // Try variations with parentheses
-    if (!lowerInput.includes('(')) {
-      expansions.push(`${input} (Issues)`);
-      expansions.push(`${input} (Product)`);
+    console.log(`👤 Looking up Jira users matching "${query}"...`);
+    const users = await this.findUsers(query);
+    for (const user of users) {
+      this.userCache.set(user.accountId, user);
     }
+    this.userLookups.add(normalizedQuery);
 
-    return [...new Set(expansions)]; // Remove duplicates
+    return this.matchUsers(normalizedQuery, [...this.userCache.values()]);
   }
 
-  formatProjectSelectionPrompt(): string {
-    const availableProjectNames = [
-      'FV Demo (Issues) - for bug reports and general issues',
-      'FV Demo (Product) - for product-related work',
-      'FV Engineering - for engineering tasks',
-      'FV Product - for product management'
-    ];
+  private matchUsers(query: string, users: JiraUser[]): UserResolution {
+    const scored = users
+      .filter(user => user.active !== false)
+      .map(user => ({ user, score: this.scoreUserMatch(query, user) }))
+      .filter(match => match.score >= 0.75)
+      .sort((a, b) => b.score - a.score);
+
+    if (scored.length === 0) {
+      return { status: 'not_found' };
+    }
+
+    const [best, runnerUp] = scored;
+    const exactMatches = scored.filter(match => match.score === 1);
+    if (exactMatches.length === 1 || !runnerUp || (best.score >= 0.9 && best.score - runnerUp.score >= 0.15)) {
+      return { status: 'resolved', user: exactMatches.length === 1 ? exactMatches[0].user : best.user };
+    }
+
+    return { status: 'ambiguous', candidates: scored.slice(0, 5).map(match => match.user) };
+  }
+
+  // 1.0 for an exact name or email, down to ~0.75 for a close misspelling
+  private scoreUserMatch(query: string, user: JiraUser): number {
+    const name = user.displayName.toLowerCase();
+    const email = (user.emailAddress || '').toLowerCase();
+    const nameTokens = name.split(/[\s.\-_]+/).filter(Boolean);
+    const queryTokens = query.split(/[\s.\-_]+/).filter(Boolean);
+
+    if (query === name || (email && query === email)) {
+      return 1;
+    }
+    if (email && query === email.split('@')[0]) {
+      return 0.95;
+    }
+    if (nameTokens.includes(query)) {
+      return 0.9;
+    }
+    if (queryTokens.every(token => nameTokens.some(nameToken => nameToken.startsWith(token)))) {
+      return 0.85;
+    }
 
-    return `Which project should this issue be created in?\n\nAvailable projects:\n${availableProjectNames.map((p, i) => `   ${i + 1}. ${p}`).join('\n')}\n\nYou can use full project names, abbreviations (demo, eng, product), or project keys:`;
+    // Typos: compare against the full name and each name token
+    const similarity = (a: string, b: string) => 1 - this.editDistance(a, b) / Math.max(a.length, b.length);
+    return Math.max(similarity(query, name), ...nameTokens.map(token => similarity(query, token))) * 0.95;
+  }
+
+  // Optimal string alignment distance (Levenshtein plus adjacent transpositions)
+  private editDistance(a: string, b: string): number {
+    const d: number[][] = [];
+    for (let i = 0; i <= a.length; i++) {
+      d[i] = [i];
+    }
+    for (let j = 0; j <= b.length; j++) {
+      d[0][j] = j;
+    }
+
+    for (let i = 1; i <= a.length; i++) {
+      for (let j = 1; j <= b.length; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+        if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+          d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+        }
+      }
+    }
+
+    return d[a.length][b.length];
   }
 
   async cleanup(): Promise<void> {
@@ -342,17 +520,22 @@ export class ZapierService {
     }
   }
 
-  async createJiraIssue(issueData: IssueData): Promise<any> {
+  // Failures come back as { ok: false, error } rather than thrown, so callers can tell a missing field
+  // from an expired token or a dropped connection
+  async createJiraIssue(issueData: IssueData): Promise<CreateIssueResult> {
     if (!this.isInitialized) {
       throw new Error('Zapier service not initialized. Call initialize() first.');
     }
 
     // Validate required fields
     if (!issueData.project) {
-      throw new Error('Project is required to create a Jira issue');
+      return this.failure(jiraError('validation', 'Project is required to create a Jira issue', { project: 'is required' }));
     }
     if (!issueData.title) {
-      throw new Error('Title/Summary is required to create a Jira issue');
+      return this.failure(jiraError('validation', 'Title/Summary is required to create a Jira issue', { summary: 'is required' }));
+    }
+    if (issueData.issueType === 'Subtask' && !issueData.parent) {
+      return this.failure(jiraError('validation', 'A sub-task needs a parent issue, e.g. "sub-task of ENG-5"', { parent: 'is required for a sub-task' }));
     }
 
     // IMPROVED: Validate project before creating issue
@@ -360,25 +543,62 @@ export class ZapierService {
     const validProject = await this.validateAndFindProject(issueData.project);
     
     if (!validProject) {
-      throw new Error(`Invalid project: "${issueData.project}". Please use one of: FV Demo (Issues), FV Demo (Product), FV Engineering, FV Product`);
+      const knownProjects = this.projectRegistry.getProjectNames();
+      const problem = knownProjects.length > 0
+        ? `"${issueData.project}" is not a project. Please use one of: ${knownProjects.join(', ')}`
+        : `"${issueData.project}" doesn't match any project in Jira`;
+      return this.failure(jiraError('validation', `Invalid project: ${problem}`, { project: problem }));
+    }
+
+    const blocked = this.writeBlocked(validProject.key);
+    if (blocked) {
+      return this.failure(blocked);
     }
 
     // Use the validated project name/key
     const projectToUse = validProject.key || validProject.name;
     console.log(`✅ Using validated project: ${validProject.name} (${validProject.key})`);
 
+    // An earlier attempt at this same issue that never reported back may have created it anyway
+    const fingerprint = IDEMPOTENCY_CONFIG.ENABLED ? issueFingerprint(issueData, validProject.key) : undefined;
+    if (fingerprint) {
+      const recovered = await this.findUnconfirmedCreation(fingerprint);
+      if (recovered) {
+        return recovered;
+      }
+    }
+    const marker = fingerprint
+      ? this.creationLedger.begin(fingerprint, IDEMPOTENCY_CONFIG.LABEL_PREFIX, validProject.key, issueData.title)
+      : undefined;
+
+    const extendedLines = describeExtendedFields(issueData).map(([label, value]) => `- ${label}: ${value}`);
+    // Descriptions are written as Markdown and converted to what Jira renders
+    const descriptionFormat = WORKSPACE_CONFIG.descriptionFormat;
+    const markdown = composeDescription(issueData);
+    const description = markdown ? renderMarkdown(markdown, descriptionFormat) : undefined;
+
     const args: ZapierJiraCreateIssueArgs = {
       instructions: `Create a new Jira issue with the following details. IMPORTANT: Do not change or guess any values, use exactly what is specified:
         - Project: ${projectToUse}
         - Summary: ${issueData.title}
-        - Description: ${issueData.description || 'No description provided'}
+        - Description (${descriptionFormat === 'adf' ? 'Atlassian Document Format JSON' : 'Jira wiki markup'}): ${description || 'No description provided'}
         - Issue Type: ${issueData.issueType || 'Task'}
-        - Priority: ${issueData.priority || 'Medium'}`,
+        - Priority: ${issueData.priority || 'Medium'}${extendedLines.map(line => `\n        ${line}`).join('')}${marker ? `\n        - Also add the label ${marker}` : ''}`,
       project: projectToUse,
       summary: issueData.title,
-      description: issueData.description,
+      description,
+      descriptionFormat: description ? descriptionFormat : undefined,
       issueType: issueData.issueType,
-      priority: issueData.priority
+      priority: issueData.priority,
+      labels: marker ? [...(issueData.labels || []), marker] : issueData.labels,
+      components: issueData.components,
+      assignee: issueData.assigneeId || issueData.assignee,
+      reporter: issueData.reporterId || issueData.reporter,
+      fixVersions: issueData.fixVersions,
+      duedate: issueData.dueDate,
+      storyPoints: issueData.storyPoints,
+      customFields: issueData.customFields,
+      parent: issueData.parent
     };
 
     try {
@@ -387,57 +607,468 @@ export class ZapierService {
       console.log(`📝 Summary: ${issueData.title}`);
       console.log(`🏷️  Type: ${issueData.issueType || 'Task'}`);
       console.log(`⚡ Priority: ${issueData.priority || 'Medium'}`);
+      for (const line of extendedLines) {
+        console.log(`➕ ${line.slice(2)}`);
+      }
       
-      const result = await this.mcpClient.callTool({
-        name: 'jira_software_cloud_create_issue',
-        arguments: args
+      const result = await this.mcpClient.callTool(this.toolMap.call('createIssue', args));
+
+      const parsedResult = result.isError
+        ? this.failure(parseJiraError(this.extractErrorMessage(result)))
+        : this.parseCreatedIssueResponse(this.extractResponseText(result));
+
+      // A transport failure leaves the record pending: the request may have gone through
+      if (fingerprint && parsedResult.ok && parsedResult.issue.key) {
+        this.creationLedger.complete(fingerprint, parsedResult.issue.key);
+      } else if (fingerprint && parsedResult.ok === false && parsedResult.error.kind !== 'transport') {
+        this.creationLedger.discard(fingerprint);
+      }
+      
+      return parsedResult;
+      
+    } catch (error) {
+      console.error('💥 Exception during Jira issue creation:', error);
+      return this.failure(parseJiraError(error));
+    }
+  }
+
+  // Looks in Jira for the marker label of a pending attempt. Returns a creation result for the issue
+  // it made, or null when there was no such attempt or it really didn't create anything.
+  private async findUnconfirmedCreation(fingerprint: string): Promise<CreateIssueResult | null> {
+    const record = this.creationLedger.get(fingerprint);
+    if (!record || record.status !== 'pending') {
+      return null;
+    }
+
+    const marker = record.marker;
+    console.log(`🔁 An earlier attempt to create "${record.summary}" didn't finish; checking Jira for it (${marker})...`);
+    const search = await this.searchJiraIssues(marker, { jql: `labels = "${marker}" ORDER BY created ASC` });
+    if (search.ok === false) {
+      // Creating now could make a second copy, so stop here and let the user retry
+      return this.failure({
+        ...search.error,
+        message: `Could not check whether an earlier attempt already created "${record.summary}": ${search.error.message}`
       });
+    }
+
+    const issue = search.issues.find(candidate => candidate.key);
+    if (!issue) {
+      console.log('   Nothing found; creating it now');
+      return null;
+    }
+
+    console.log(`♻️  Found ${issue.key}, created by the earlier attempt`);
+    this.creationLedger.complete(fingerprint, issue.key);
+    return { ok: true, issue, url: this.constructIssueUrl(issue.key) || undefined, recovered: true };
+  }
+
+  // NEW: Create many issues with at most `concurrency` requests in flight; one row's failure
+  // doesn't stop the others. Results come back in input order.
+  async createJiraIssues(items: IssueData[], concurrency: number): Promise<BulkCreateResult[]> {
+    const results: BulkCreateResult[] = new Array(items.length);
+    let next = 0;
+
+    const worker = async () => {
+      while (next < items.length) {
+        const index = next++;
+        const issueData = items[index];
+
+        try {
+          const result = await this.createJiraIssue(issueData);
+          if (result.ok === false) {
+            results[index] = { row: index + 1, issueData, success: false, error: describeJiraError(result.error) };
+          } else {
+            const links = result.issue.key && issueData.links && issueData.links.length > 0
+              ? await this.linkIssues(result.issue.key, issueData.links)
+              : undefined;
+            results[index] = { row: index + 1, issueData, success: true, key: result.issue.key || undefined, url: result.url, links };
+          }
+        } catch (error) {
+          results[index] = { row: index + 1, issueData, success: false, error: error instanceof Error ? error.message : String(error) };
+        }
+
+        console.log(`${results[index].success ? '✅' : '❌'} [${index + 1}/${items.length}] ${issueData.title}`);
+      }
+    };
+
+    const workers = Math.max(1, Math.min(concurrency || 1, items.length));
+    await Promise.all(Array.from({ length: workers }, () => worker()));
+    return results;
+  }
+
+  // NEW: Apply field changes to an existing issue
+  async updateJiraIssue(issueKey: string, changes: IssueData): Promise<UpdateIssueResult> {
+    if (!this.isInitialized) {
+      throw new Error('Zapier service not initialized. Call initialize() first.');
+    }
+
+    const changeLines: string[] = [];
+    if (changes.title) changeLines.push(`- Summary: ${changes.title}`);
+    const descriptionFormat = WORKSPACE_CONFIG.descriptionFormat;
+    const description = changes.description ? renderMarkdown(changes.description, descriptionFormat) : undefined;
+    if (description) changeLines.push(`- Description (${descriptionFormat === 'adf' ? 'Atlassian Document Format JSON' : 'Jira wiki markup'}): ${description}`);
+    if (changes.issueType) changeLines.push(`- Issue Type: ${changes.issueType}`);
+    if (changes.priority) changeLines.push(`- Priority: ${changes.priority}`);
+    if (changes.assignee) changeLines.push(`- Assignee: ${this.describeUser(changes.assignee, changes.assigneeId)}`);
+    if (changes.reporter) changeLines.push(`- Reporter: ${this.describeUser(changes.reporter, changes.reporterId)}`);
+
+    if (changeLines.length === 0) {
+      return this.failure(jiraError('validation', `No changes provided for ${issueKey}`));
+    }
+
+    const blocked = this.writeBlocked(this.projectKeyOf(issueKey));
+    if (blocked) {
+      return this.failure(blocked);
+    }
+
+    const args: ZapierJiraUpdateIssueArgs = {
+      instructions: `Update Jira issue ${issueKey}. Only change the fields listed below and leave every other field untouched. IMPORTANT: Do not change or guess any values, use exactly what is specified:
+        ${changeLines.join('\n        ')}`,
+      issueKey,
+      summary: changes.title,
+      description,
+      descriptionFormat: description ? descriptionFormat : undefined,
+      issueType: changes.issueType,
+      priority: changes.priority,
+      assignee: changes.assigneeId || changes.assignee,
+      reporter: changes.reporterId || changes.reporter
+    };
+
+    try {
+      console.log(`✏️  Updating Jira issue ${issueKey} via Zapier MCP...`);
+
+      const result = await this.mcpClient.callTool(this.toolMap.call('updateIssue', args));
+
+      if (result.isError) {
+        return this.failure(parseJiraError(this.extractErrorMessage(result)));
+      }
+
+      const responseText = this.extractResponseText(result);
+      return this.parseUpdatedIssueResponse(responseText, issueKey);
+
+    } catch (error) {
+      console.error('💥 Exception during Jira issue update:', error);
+      return this.failure(parseJiraError(error));
+    }
+  }
+
+  // NEW: Create links from a (new) issue to others; each link succeeds or fails on its own
+  async linkIssues(issueKey: string, links: IssueLink[]): Promise<IssueLinkResult[]> {
+    if (!this.isInitialized) {
+      throw new Error('Zapier service not initialized. Call initialize() first.');
+    }
+
+    const results: IssueLinkResult[] = [];
+
+    for (const link of links) {
+      const [outwardIssue, inwardIssue] = link.direction === 'outward'
+        ? [issueKey, link.issueKey]
+        : [link.issueKey, issueKey];
+
+      const args: ZapierJiraLinkIssuesArgs = {
+        instructions: `Create a Jira issue link of type "${link.type}" so that ${issueKey} ${link.relation} ${link.issueKey}. The outward issue is ${outwardIssue} and the inward issue is ${inwardIssue}.`,
+        linkType: link.type,
+        outwardIssue,
+        inwardIssue
+      };
+
+      try {
+        console.log(`🔗 Linking ${issueKey} ${link.relation} ${link.issueKey}...`);
+        const result = await this.mcpClient.callTool(this.toolMap.call('linkIssues', args));
+
+        if (result.isError) {
+          throw new Error(this.extractErrorMessage(result));
+        }
+
+        results.push({ link, success: true });
+      } catch (error) {
+        console.error(`❌ Failed to link ${issueKey} ${link.relation} ${link.issueKey}:`, error);
+        results.push({ link, success: false, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return results;
+  }
+
+  // NEW: Upload files to an existing issue, one at a time; a failed upload doesn't stop the rest
+  async uploadAttachments(issueKey: string, attachments: IssueAttachment[]): Promise<AttachmentResult[]> {
+    if (!this.isInitialized) {
+      throw new Error('Zapier service not initialized. Call initialize() first.');
+    }
+
+    const results: AttachmentResult[] = [];
+
+    for (const attachment of attachments) {
+      try {
+        console.log(`📎 Uploading ${attachment.name} to ${issueKey}...`);
+        // Read now rather than when the file was checked, so the latest version is uploaded
+        const args: ZapierJiraAddAttachmentArgs = {
+          instructions: `Add the attached file "${attachment.name}" to Jira issue ${issueKey}.`,
+          issueKey,
+          filename: attachment.name,
+          file: fs.readFileSync(attachment.resolvedPath).toString('base64'),
+          contentType: contentTypeFor(attachment.name)
+        };
+
+        const result = await this.mcpClient.callTool(this.toolMap.call('addAttachment', args));
+
+        if (result.isError) {
+          throw new Error(this.extractErrorMessage(result));
+        }
+
+        results.push({ attachment, success: true });
+      } catch (error) {
+        console.error(`❌ Failed to upload ${attachment.name} to ${issueKey}:`, error);
+        results.push({ attachment, success: false, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return results;
+  }
+
+  // NEW: List the workflow transitions currently available on an issue
+  async getAvailableTransitions(issueKey: string): Promise<JiraTransition[]> {
+    if (!this.isInitialized) {
+      throw new Error('Zapier service not initialized. Call initialize() first.');
+    }
+
+    try {
+      const result = await this.mcpClient.callTool(this.toolMap.call('findTransitions', {
+        instructions: `List the available workflow transitions for Jira issue ${issueKey}`,
+        issueKey
+      }));
 
       if (result.isError) {
         throw new Error(this.extractErrorMessage(result));
       }
 
       const responseText = this.extractResponseText(result);
-      const parsedResult = this.parseCreatedIssueResponse(responseText);
-      
-      return parsedResult;
+      return this.parseTransitionsResponse(responseText);
+
+    } catch (error) {
+      console.error(`❌ Failed to list transitions for ${issueKey}:`, error);
+      throw new Error(`Failed to list transitions for ${issueKey}: ${error}`);
+    }
+  }
+
+  // NEW: Match a user phrase ("in progress", "done", "reopen") to one of the available transitions
+  matchTransition(phrase: string, transitions: JiraTransition[]): JiraTransition | null {
+    const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+    const target = normalize(phrase);
+    if (!target || transitions.length === 0) {
+      return null;
+    }
+
+    // Exact match on the transition name or the status it leads to
+    const exact = transitions.find(t => normalize(t.toStatus) === target || normalize(t.name) === target);
+    if (exact) {
+      return exact;
+    }
+
+    // Common ways people refer to workflow states
+    const synonyms: { [key: string]: string[] } = {
+      'done': ['done', 'closed', 'resolved', 'complete', 'completed'],
+      'closed': ['closed', 'done', 'resolved'],
+      'resolved': ['resolved', 'done', 'closed'],
+      'in progress': ['in progress', 'start progress', 'in development', 'doing'],
+      'started': ['in progress', 'start progress'],
+      'doing': ['in progress', 'start progress'],
+      'to do': ['to do', 'open', 'backlog', 'reopen', 'reopened', 'selected for development'],
+      'todo': ['to do', 'open', 'backlog', 'reopen', 'reopened'],
+      'open': ['open', 'to do', 'reopen', 'reopened'],
+      'reopen': ['reopen', 'reopened', 'open', 'to do'],
+      'review': ['in review', 'code review', 'review'],
+      'in review': ['in review', 'code review', 'review']
+    };
+
+    for (const candidate of synonyms[target] || []) {
+      const match = transitions.find(t => normalize(t.toStatus) === candidate || normalize(t.name) === candidate);
+      if (match) {
+        return match;
+      }
+    }
+
+    // Partial match either way round ("progress" → "In Progress"). An empty status (id-only records)
+    // is a substring of every target, so it never counts.
+    const partial = transitions.find(t => {
+      const status = normalize(t.toStatus || '');
+      return (status && (status.includes(target) || target.includes(status))) || normalize(t.name || '').includes(target);
+    });
+    return partial || null;
+  }
+
+  // NEW: Move an issue through its workflow
+  async transitionIssue(issueKey: string, transition: JiraTransition): Promise<TransitionIssueResult> {
+    if (!this.isInitialized) {
+      throw new Error('Zapier service not initialized. Call initialize() first.');
+    }
+
+    const blocked = this.writeBlocked(this.projectKeyOf(issueKey));
+    if (blocked) {
+      return this.failure(blocked);
+    }
+
+    const args: ZapierJiraTransitionArgs = {
+      instructions: `Transition Jira issue ${issueKey} using the "${transition.name}" transition so its status becomes "${transition.toStatus}". Do not change any other fields.`,
+      issueKey,
+      transitionId: transition.id,
+      transitionName: transition.name
+    };
+
+    try {
+      console.log(`🔀 Moving ${issueKey} to "${transition.toStatus}" via Zapier MCP...`);
+
+      const result = await this.mcpClient.callTool(this.toolMap.call('transitionIssue', args));
+
+      if (result.isError) {
+        return this.failure(parseJiraError(this.extractErrorMessage(result)));
+      }
+
+      const parsed = this.parseUpdatedIssueResponse(this.extractResponseText(result), issueKey);
+      return parsed.ok === false ? parsed : { ...parsed, status: transition.toStatus };
+
+    } catch (error) {
+      console.error('💥 Exception during Jira issue transition:', error);
+      return this.failure(parseJiraError(error));
+    }
+  }
+
+  // NEW: Post a comment on an existing issue
+  async addComment(issueKey: string, body: string): Promise<AddCommentResult> {
+    if (!this.isInitialized) {
+      throw new Error('Zapier service not initialized. Call initialize() first.');
+    }
+
+    if (!body.trim()) {
+      return this.failure(jiraError('validation', 'Comment text is required', { comment: 'is required' }));
+    }
+
+    const blocked = this.writeBlocked(this.projectKeyOf(issueKey));
+    if (blocked) {
+      return this.failure(blocked);
+    }
+
+    const commentFormat = WORKSPACE_CONFIG.descriptionFormat;
+    const args: ZapierJiraAddCommentArgs = {
+      instructions: `Add a comment to Jira issue ${issueKey}. Use the comment text exactly as given, do not rephrase it. It is written in ${commentFormat === 'adf' ? 'Atlassian Document Format JSON' : 'Jira wiki markup'}.`,
+      issueKey,
+      comment: renderMarkdown(body, commentFormat),
+      commentFormat
+    };
+
+    try {
+      console.log(`💬 Adding comment to ${issueKey} via Zapier MCP...`);
+
+      const result = await this.mcpClient.callTool(this.toolMap.call('addComment', args));
+
+      if (result.isError) {
+        return this.failure(parseJiraError(this.extractErrorMessage(result)));
+      }
+
+      const responseText = this.extractResponseText(result);
+      return this.parseUpdatedIssueResponse(responseText, issueKey);
+
+    } catch (error) {
+      console.error('💥 Exception while adding Jira comment:', error);
+      return this.failure(parseJiraError(error));
+    }
+  }
+
+  // Text search by default; pass options.jql to run a JQL query verbatim
+  async searchJiraIssues(query: string, options: { jql?: string } = {}): Promise<SearchIssuesResult> {
+    if (!this.isInitialized) {
+      throw new Error('Zapier service not initialized. Call initialize() first.');
+    }
+
+    const args: ZapierJiraSearchArgs = options.jql
+      ? {
+          instructions: `Search for Jira issues using this JQL query exactly as written, without modifying it: ${options.jql}`,
+          jql: options.jql
+        }
+      : {
+          instructions: `Search for Jira issues related to: "${query}"`,
+          [this.argumentName('findIssue', ['summary', 'query', 'text'])]: query
+        };
+
+    try {
+      const result = await this.mcpClient.callTool(this.toolMap.call('findIssue', args));
+
+      if (result.isError) {
+        return this.failure(parseJiraError(this.extractErrorMessage(result)));
+      }
+
+      const responseText = this.extractResponseText(result);
+      return { ok: true, issues: this.parseSearchResults(responseText) };
       
     } catch (error) {
-      console.error('💥 Exception during Jira issue creation:', error);
-      throw new Error(`Failed to create Jira issue: ${error}`);
+      console.error('❌ Failed to search Jira issues:', error);
+      return this.failure(parseJiraError(error));
     }
   }
 
-  async searchJiraIssues(query: string): Promise<any[]> {
+  // NEW: Look up a single issue so its current values can be shown
+  async findIssueByKey(issueKey: string): Promise<JiraIssue | null> {
     if (!this.isInitialized) {
       throw new Error('Zapier service not initialized. Call initialize() first.');
     }
 
     const args: ZapierJiraSearchArgs = {
-      instructions: `Search for Jira issues related to: "${query}"`,
-      summary: query
+      instructions: `Find the Jira issue with key ${issueKey}`,
+      [this.argumentName('findIssue', ['key', 'issueKey', 'issueIdOrKey'])]: issueKey
     };
 
     try {
-      const result = await this.mcpClient.callTool({
-        name: 'jira_software_cloud_find_issue',
-        arguments: args
-      });
+      const result = await this.mcpClient.callTool(this.toolMap.call('findIssue', args));
 
       if (result.isError) {
         throw new Error(this.extractErrorMessage(result));
       }
 
       const responseText = this.extractResponseText(result);
-      return this.parseSearchResults(responseText);
-      
+      const issues = this.parseSearchResults(responseText);
+      return issues.find(issue => issue.key === issueKey) || null;
+
     } catch (error) {
-      console.error('❌ Failed to search Jira issues:', error);
-      throw new Error(`Failed to search Jira issues: ${error}`);
+      console.error(`❌ Failed to find Jira issue ${issueKey}:`, error);
+      return null;
     }
   }
 
-  async findSimilarIssues(title: string, description?: string): Promise<any[]> {
+  // NEW: Fetch one issue with everything the detail view shows: fields, comments and links
+  async getJiraIssue(issueKey: string): Promise<JiraIssue> {
+    if (!this.isInitialized) {
+      throw new Error('Zapier service not initialized. Call initialize() first.');
+    }
+
+    const args: ZapierJiraSearchArgs = {
+      instructions: `Find the Jira issue with key ${issueKey}. Return all of its fields, including the description, status, assignee, reporter, labels, components, parent, due date, comments and issue links.`,
+      [this.argumentName('findIssue', ['key', 'issueKey', 'issueIdOrKey'])]: issueKey
+    };
+
+    try {
+      const result = await this.mcpClient.callTool(this.toolMap.call('findIssue', args));
+
+      if (result.isError) {
+        throw new Error(this.extractErrorMessage(result));
+      }
+
+      const responseText = this.extractResponseText(result);
+      const issue = this.parseSearchResults(responseText).find(candidate => candidate.key === issueKey);
+      if (!issue) {
+        throw new Error(`${issueKey} was not found`);
+      }
+
+      issue.url = this.constructIssueUrl(issueKey, responseText) || undefined;
+      return issue;
+
+    } catch (error) {
+      console.error(`❌ Failed to get Jira issue ${issueKey}:`, error);
+      throw new Error(`Failed to get Jira issue ${issueKey}: ${error}`);
+    }
+  }
+
+  // Scored matches above the scorer's threshold, closest first; empty when the search fails
+  async findSimilarIssues(title: string, description?: string): Promise<SimilarIssue[]> {
     if (!this.isInitialized) {
       throw new Error('Zapier service not initialized. Call initialize() first.');
     }
@@ -453,12 +1084,25 @@ export class ZapierService {
     const searchQuery = searchTerms.join(' ');
     
     try {
-      const results = await this.searchJiraIssues(searchQuery);
+      const search = await this.searchJiraIssues(searchQuery);
+      if (search.ok === false) {
+        console.warn(`⚠️  Could not check for similar issues: ${describeJiraError(search.error)}`);
+        return [];
+      }
+      const results = search.issues;
       
-      const similarIssues = results.filter(issue => 
-        this.calculateSimilarity(title, issue.summary || '') > 0.3
+      // Score every result so callers can show how close each match is
+      const query = description ? `${title}\n${description}` : title;
+      const scores = await this.similarityScorer.score(
+        query,
+        results.map(issue => issue.description ? `${issue.summary || ''}\n${issue.description}` : (issue.summary || ''))
       );
 
+      const similarIssues = results
+        .map((issue, index) => ({ ...issue, similarity: scores[index] }))
+        .filter(issue => issue.similarity >= this.similarityScorer.threshold)
+        .sort((a, b) => b.similarity - a.similarity);
+
       return similarIssues;
       
     } catch (error) {
@@ -468,6 +1112,17 @@ export class ZapierService {
   }
 
   // Utility methods
+  // Enforces the workspace config's allowedProjects list before any write
+  private writeBlocked(projectKeyOrName: string): JiraError | null {
+    return this.projectRegistry.isAllowed(projectKeyOrName, WORKSPACE_CONFIG.allowedProjects)
+      ? null
+      : jiraError('permission', `Project "${projectKeyOrName}" is not writable by this agent. Allowed projects: ${WORKSPACE_CONFIG.allowedProjects.join(', ')}`);
+  }
+
+  private projectKeyOf(issueKey: string): string {
+    return issueKey.split('-')[0];
+  }
+
   private extractResponseText(result: MCPToolResult): string {
     if (result.content && result.content.length > 0) {
       return result.content[0].text || '';
@@ -480,175 +1135,299 @@ export class ZapierService {
     return text || 'Unknown error occurred';
   }
 
-  private parseCreatedIssueResponse(responseText: string): any {
+  private failure(error: JiraError): JiraFailure {
+    return { ok: false, error };
+  }
+
+  private parseCreatedIssueResponse(responseText: string): CreateIssueResult {
+    let responseData;
     try {
-      let responseData;
-      try {
-        responseData = JSON.parse(responseText);
-      } catch (parseError) {
-        return this.parseTextResponse(responseText);
-      }
-      
-      const execution = responseData.execution;
-      const results = responseData.results;
-      const issueUrl = responseData.issueUrl;
-      
-      if (execution && execution.status === 'SUCCESS') {
-        let issueData = null;
-        
-        if (results && Array.isArray(results) && results.length > 0) {
-          issueData = results[0];
-        }
-        
-        const result = {
-          success: true,
-          key: issueData?.key || null,
-          url: issueUrl || this.constructIssueUrl(issueData?.key, responseData),
-          issueId: issueData?.id,
-          project: issueData?.fields?.project?.name || issueData?.fields?.project?.key,
-          summary: issueData?.fields?.summary,
-          status: issueData?.fields?.status?.name,
-          priority: issueData?.fields?.priority?.name,
-          issueType: issueData?.fields?.issuetype?.name,
-          created: issueData?.fields?.created,
-          response: this.buildSuccessMessage(issueData, issueUrl)
-        };
-        
-        return result;
-        
-      } else if (execution && (execution.status === 'FAILED' || execution.status === 'ERROR')) {
-        return {
-          success: false,
-          error: `Zapier execution failed with status: ${execution.status}`,
-          response: execution.error || 'Unknown execution error'
-        };
-      }
-      
+      responseData = JSON.parse(responseText);
+    } catch (parseError) {
       return this.parseTextResponse(responseText);
-      
-    } catch (error) {
+    }
+
+    const execution = responseData.execution;
+    const results = responseData.results;
+
+    if (execution && execution.status === 'SUCCESS') {
+      const record = Array.isArray(results) && results.length > 0 ? results[0] : null;
+      const issue = record && typeof record.key === 'string' ? this.parseIssueRecord(record) : this.issueFromKey('');
       return {
-        success: false,
-        error: `JSON parsing error: ${error.message}`,
-        response: responseText
+        ok: true,
+        issue,
+        url: responseData.issueUrl || this.constructIssueUrl(issue.key, responseData) || undefined
       };
     }
+
+    if (execution && (execution.status === 'FAILED' || execution.status === 'ERROR')) {
+      return this.failure(parseJiraError(responseData));
+    }
+
+    // Jira's own error body passed through, e.g. { errorMessages: [], errors: { summary: "..." } }
+    if (responseData && (responseData.errorMessages || responseData.errors)) {
+      return this.failure(parseJiraError(responseData));
+    }
+
+    return this.parseTextResponse(responseText);
   }
 
-  private buildSuccessMessage(issueData: any, issueUrl: string): string {
-    if (!issueData) {
-      return 'Issue created successfully (details not available)';
+  private parseUpdatedIssueResponse(responseText: string, issueKey: string): UpdateIssueResult {
+    let responseData;
+    try {
+      responseData = JSON.parse(responseText);
+    } catch (parseError) {
+      const hasFailure = responseText.toLowerCase().includes('error') ||
+                         responseText.toLowerCase().includes('failed');
+      return hasFailure
+        ? this.failure(parseJiraError(responseText))
+        : { ok: true, key: issueKey, url: this.constructIssueUrl(issueKey) || undefined };
     }
-    
-    const parts = [];
-    parts.push(`Issue ${issueData.key} created successfully`);
-    
-    if (issueData.fields?.project?.name) {
-      parts.push(`in project "${issueData.fields.project.name}"`);
+
+    const execution = responseData && responseData.execution;
+    if (execution && (execution.status === 'FAILED' || execution.status === 'ERROR')) {
+      return this.failure(parseJiraError(responseData));
     }
-    
-    if (issueData.fields?.summary) {
-      parts.push(`with summary "${issueData.fields.summary}"`);
+
+    // Jira's own error body passed through, e.g. { errorMessages: [], errors: { priority: "..." } }
+    if (responseData && (responseData.errorMessages || responseData.errors)) {
+      return this.failure(parseJiraError(responseData));
     }
-    
-    if (issueData.fields?.issuetype?.name) {
-      parts.push(`as ${issueData.fields.issuetype.name}`);
+
+    return {
+      ok: true,
+      key: issueKey,
+      url: (responseData && responseData.issueUrl) || this.constructIssueUrl(issueKey, responseData) || undefined
+    };
+  }
+
+  private describeUser(name: string, accountId?: string): string {
+    return accountId ? `${name} (account ID ${accountId})` : name;
+  }
+
+  private parseUsersResponse(responseText: string): JiraUser[] {
+    try {
+      const response = JSON.parse(responseText);
+      const records = Array.isArray(response.results) ? response.results :
+                      Array.isArray(response.users) ? response.users :
+                      Array.isArray(response) ? response : [response];
+
+      return records
+        .filter((record: any) => record && record.accountId && record.displayName)
+        .map((record: any) => ({
+          accountId: String(record.accountId),
+          displayName: record.displayName,
+          emailAddress: record.emailAddress || undefined,
+          active: record.active
+        }));
+    } catch (parseError) {
+      console.warn('⚠️  Could not parse user lookup response:', responseText.substring(0, 200));
+      return [];
     }
-    
-    if (issueData.fields?.priority?.name) {
-      parts.push(`with ${issueData.fields.priority.name} priority`);
+  }
+
+  private parseTransitionsResponse(responseText: string): JiraTransition[] {
+    try {
+      const response = JSON.parse(responseText);
+      const records = Array.isArray(response.transitions) ? response.transitions :
+                      Array.isArray(response.results) ? response.results :
+                      Array.isArray(response) ? response : [];
+
+      // Zapier sometimes wraps the REST payload in results[0].transitions
+      const transitions = records.length === 1 && Array.isArray(records[0]?.transitions)
+        ? records[0].transitions
+        : records;
+
+      return transitions
+        .filter((t: any) => t && (t.id || t.name))
+        .map((t: any) => ({
+          id: String(t.id || t.name),
+          name: t.name || t.to?.name || '',
+          toStatus: t.to?.name || t.toStatus || t.name || ''
+        }));
+    } catch (parseError) {
+      // Fall back to one transition name per line
+      return responseText.split('\n')
+        .map(line => line.replace(/^[\s*\-\d.]+/, '').trim())
+        .filter(line => line.length > 0)
+        .map(line => ({ id: line, name: line, toStatus: line }));
     }
-    
-    return parts.join(' ');
   }
 
+  // Build a JiraIssue from a raw Jira REST issue record
+  private parseIssueRecord(record: any): JiraIssue {
+    const fields = record.fields || {};
+    const issue: JiraIssue = {
+      id: record.id || record.key,
+      key: record.key,
+      summary: fields.summary || record.summary || '',
+      // Wiki markup (REST v2) or ADF (v3)
+      description: adfToText(fields.description),
+      issueType: fields.issuetype?.name || '',
+      priority: fields.priority?.name || '',
+      status: fields.status?.name || '',
+      project: fields.project?.name || fields.project?.key || '',
+      assignee: fields.assignee?.displayName || fields.assignee?.emailAddress || undefined,
+      reporter: fields.reporter?.displayName || fields.reporter?.emailAddress || undefined,
+      created: fields.created || '',
+      updated: fields.updated || ''
+    };
+
+    if (Array.isArray(fields.labels)) {
+      issue.labels = fields.labels;
+    }
+    if (Array.isArray(fields.components)) {
+      issue.components = fields.components.map((component: any) => component.name).filter(Boolean);
+    }
+    if (fields.parent?.key) {
+      issue.parent = fields.parent.key;
+    }
+    if (fields.duedate) {
+      issue.dueDate = fields.duedate;
+    }
+
+    if (Array.isArray(fields.comment?.comments)) {
+      issue.comments = fields.comment.comments.map((comment: any) => ({
+        author: comment.author?.displayName || comment.author?.emailAddress || 'Unknown',
+        body: adfToText(comment.body),
+        created: comment.created || ''
+      }));
+    }
+
+    if (Array.isArray(fields.issuelinks)) {
+      issue.links = fields.issuelinks
+        .map((link: any): JiraLinkedIssue | null => {
+          // Jira lists each link from this issue's side: outwardIssue means "this <outward> that"
+          const other = link.outwardIssue || link.inwardIssue;
+          if (!other?.key) {
+            return null;
+          }
+          return {
+            relation: (link.outwardIssue ? link.type?.outward : link.type?.inward) || link.type?.name || 'relates to',
+            key: other.key,
+            summary: other.fields?.summary,
+            status: other.fields?.status?.name
+          };
+        })
+        .filter((link: JiraLinkedIssue | null): link is JiraLinkedIssue => link !== null);
+    }
+
+    return issue;
+  }
+
+  // No link until the site is known, rather than a link to the wrong site
   private constructIssueUrl(issueKey: string, responseData?: any): string | null {
     if (!issueKey) return null;
-    
-    let domain = 'fankave.atlassian.net';
-    
+
     if (responseData) {
-      const responseStr = JSON.stringify(responseData);
-      const domainMatch = responseStr.match(/https:\/\/([^.]+\.atlassian\.net)/);
-      if (domainMatch) {
-        domain = domainMatch[1];
-      }
+      this.rememberSiteUrl(responseData);
+    }
+
+    return this.siteUrl ? `${this.siteUrl}/browse/${issueKey}` : null;
+  }
+
+  private rememberSiteUrl(responseData: any): void {
+    if (this.siteUrl) {
+      return;
     }
+    const responseStr = typeof responseData === 'string' ? responseData : JSON.stringify(responseData);
+    const domainMatch = responseStr.match(/https:\/\/([^.\/"\s]+\.atlassian\.net)/);
+    if (domainMatch) {
+      this.siteUrl = `https://${domainMatch[1]}`;
+    }
+  }
+
+  private parseTextResponse(responseText: string): CreateIssueResult {
+    const hasSuccess = responseText.toLowerCase().includes('success') ||
+                      responseText.includes('"status":"SUCCESS"') ||
+                      responseText.toLowerCase().includes('created');
     
-    return `https://${domain}/browse/${issueKey}`;
+    const hasFailure = responseText.toLowerCase().includes('error') ||
+                      responseText.toLowerCase().includes('failed') ||
+                      responseText.includes('"status":"FAILED"') ||
+                      responseText.toLowerCase().includes('unable');
+    
+    const issueKeyMatch = responseText.match(/([A-Z]+-\d+)/);
+    const issueKey = issueKeyMatch ? issueKeyMatch[1] : null;
+    
+    const urlMatch = responseText.match(/(https?:\/\/[^\s"]+browse\/[A-Z]+-\d+)/);
+    const issueUrl = urlMatch ? urlMatch[1] : null;
+    
+    if ((hasSuccess || issueKey !== null) && !hasFailure) {
+      return { ok: true, issue: this.issueFromKey(issueKey || ''), url: issueUrl || this.constructIssueUrl(issueKey || '') || undefined };
+    }
+    return this.failure(hasFailure
+      ? parseJiraError(responseText)
+      : jiraError('unknown', `Could not confirm the issue was created: ${responseText.substring(0, 200) || 'empty response'}`));
+  }
+
+  // All a plain-text reply tells us about an issue is its key, and sometimes its summary
+  private issueFromKey(key: string, summary: string = ''): JiraIssue {
+    return { id: key, key, summary, description: '', issueType: '', priority: '', status: '', project: '', created: '', updated: '' };
   }
 
-  private parseTextResponse(responseText: string): any {
+  private parseSearchResults(responseText: string): JiraIssue[] {
     try {
-      const hasSuccess = responseText.toLowerCase().includes('success') ||
-                        responseText.includes('"status":"SUCCESS"') ||
-                        responseText.toLowerCase().includes('created');
-      
-      const hasFailure = responseText.toLowerCase().includes('error') ||
-                        responseText.toLowerCase().includes('failed') ||
-                        responseText.includes('"status":"FAILED"') ||
-                        responseText.toLowerCase().includes('unable');
-      
-      const issueKeyMatch = responseText.match(/([A-Z]+-\d+)/);
-      const issueKey = issueKeyMatch ? issueKeyMatch[1] : null;
-      
-      const urlMatch = responseText.match(/(https?:\/\/[^\s"]+browse\/[A-Z]+-\d+)/);
-      const issueUrl = urlMatch ? urlMatch[1] : null;
-      
-      const success = (hasSuccess || issueKey !== null) && !hasFailure;
-      
-      return {
-        success: success,
-        key: issueKey,
-        url: issueUrl,
-        response: success ? 
-          `Text parsing detected successful creation${issueKey ? ` of ${issueKey}` : ''}` :
-          'Text parsing could not confirm successful creation',
-        error: hasFailure ? 'Text parsing detected failure indicators' : null
-      };
-      
-    } catch (error) {
-      return {
-        success: false,
-        response: responseText,
-        error: `Text parsing error: ${error.message}`
-      };
+      const response = JSON.parse(responseText);
+      const records = Array.isArray(response.results) ? response.results :
+                      Array.isArray(response.issues) ? response.issues :
+                      Array.isArray(response) ? response : [response];
+
+      // Search payloads may nest the REST response: results[].issues[]
+      const issues = records.reduce((all: any[], record: any) =>
+        all.concat(Array.isArray(record?.issues) ? record.issues : [record]), []);
+
+      return issues
+        .filter((record: any) => record && typeof record.key === 'string')
+        .map((record: any) => this.parseIssueRecord(record));
+
+    } catch (parseError) {
+      // Plain-text response: fall back to one issue per line containing a key
+      return this.parseSearchResultLines(responseText);
     }
   }
 
-  private parseSearchResults(responseText: string): any[] {
+  private parseSearchResultLines(responseText: string): JiraIssue[] {
+    const results: JiraIssue[] = [];
+    const lines = responseText.split('\n');
+
+    for (const line of lines) {
+      const issueKeyMatch = line.match(/([A-Z]+-\d+)/);
+      if (issueKeyMatch) {
+        results.push(this.issueFromKey(issueKeyMatch[1], line.replace(issueKeyMatch[1], '').replace(/^[\s:\-–]+/, '').trim()));
+      }
+    }
+
+    return results;
+  }
+
+  isReady(): boolean {
+    return this.isInitialized && this.mcpClient.isClientConnected();
+  }
+
+  // Connects (or reconnects after a drop) if needed; false when the MCP server still can't be reached
+  async ensureReady(): Promise<boolean> {
+    if (this.isReady()) {
+      return true;
+    }
+
     try {
-      const results = [];
-      const lines = responseText.split('\n');
-      
-      for (const line of lines) {
-        const issueKeyMatch = line.match(/([A-Z]+-\d+)/);
-        if (issueKeyMatch) {
-          results.push({
-            key: issueKeyMatch[1],
-            summary: line.replace(issueKeyMatch[1], '').trim(),
-            raw: line
-          });
-        }
+      if (!this.isInitialized) {
+        await this.initialize();
+      } else {
+        await this.mcpClient.reconnect();
       }
-      
-      return results;
     } catch (error) {
-      return [];
+      return false;
     }
+    return this.isReady();
   }
 
-  private calculateSimilarity(str1: string, str2: string): number {
-    const words1 = new Set(str1.toLowerCase().split(' '));
-    const words2 = new Set(str2.toLowerCase().split(' '));
-    
-    const intersection = new Set([...words1].filter(word => words2.has(word)));
-    const union = new Set([...words1, ...words2]);
-    
-    return intersection.size / union.size;
+  async healthCheck(): Promise<HealthStatus> {
+    return this.mcpClient.healthCheck();
   }
 
-  isReady(): boolean {
-    return this.isInitialized && this.mcpClient.isClientConnected();
+  onConnectionChange(listener: (event: ConnectionEvent) => void): () => void {
+    return this.mcpClient.onStateChange(listener);
   }
 }